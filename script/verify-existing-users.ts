@@ -0,0 +1,19 @@
+import { isNull, sql } from "drizzle-orm";
+import { users } from "@shared/schema";
+import { db, pool } from "../server/db";
+
+// One-off backfill for the db:push that adds users.email_verified_at. Accounts
+// from before email verification existed count as verified from the day they
+// signed up; without this they can't apply or post jobs until they verify.
+// Run it once, before anyone signs up, since later signups are unverified on purpose.
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL must be set. Did you forget to provision a database?");
+}
+
+const verified = await db.update(users)
+  .set({ emailVerifiedAt: sql`coalesce(${users.createdAt}, now())` })
+  .where(isNull(users.emailVerifiedAt))
+  .returning({ id: users.id });
+console.log(`Marked ${verified.length} existing account(s) as verified`);
+await pool.end();
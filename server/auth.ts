@@ -3,25 +3,46 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { type Express } from "express";
 import session from "express-session";
-import createMemoryStore from "memorystore";
 import { storage } from "./storage";
-import { users } from "@shared/schema";
+import { hashPassword, verifyPassword } from "./passwords";
+import { createSessionRegistry, publicSessionId, sessionTtlMs, stampSession, touchSession } from "./sessions";
+import { consumeToken, sendPasswordResetEmail, sendVerificationEmail } from "./tokens";
+import { api } from "@shared/routes";
+import { type User as SelectUser, type PublicUser } from "@shared/schema";
+import { z } from "zod";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// Never send password hashes to the client
+export function toPublicUser({ password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+// Compared against when the email is unknown so both paths cost the same
+const dummyHash = hashPassword("timing-equalizer");
 
 export function setupAuth(app: Express) {
-  const MemoryStore = createMemoryStore(session);
+  const sessionRegistry = createSessionRegistry();
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "default_secret",
     resave: false,
     saveUninitialized: false,
-    cookie: {},
-    store: new MemoryStore({
-      checkPeriod: 86400000,
-    }),
+    // Each request pushes expiry out again, so only idle sessions time out
+    rolling: process.env.SESSION_ROLLING !== "false",
+    cookie: {
+      maxAge: sessionTtlMs,
+    },
+    store: sessionRegistry.store,
   };
 
   if (app.get("env") === "production") {
     app.set("trust proxy", 1);
     sessionSettings.cookie = {
+      ...sessionSettings.cookie,
       secure: true,
     };
   }
@@ -29,21 +50,32 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use((req, _res, next) => {
+    if (req.isAuthenticated()) touchSession(req);
+    next();
+  });
 
   passport.use(
     new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
-      const user = await storage.getUserByEmail(email);
-      // In a real app, verify password hash!
-      if (!user || user.password !== password) {
-        return done(null, false);
-      } else {
+      try {
+        const user = await storage.getUserByEmail(email);
+        const { valid, needsRehash } = await verifyPassword(password, user?.password ?? await dummyHash);
+        if (!user || !valid) {
+          return done(null, false);
+        }
+        // Upgrade legacy plaintext rows (and outdated cost settings) transparently
+        if (needsRehash) {
+          await storage.updateUserPassword(user.id, await hashPassword(password));
+        }
         return done(null, user);
+      } catch (err) {
+        return done(err);
       }
     }),
   );
 
   passport.serializeUser((user, done) => {
-    done(null, (user as any).id);
+    done(null, user.id);
   });
 
   passport.deserializeUser(async (id, done) => {
@@ -51,31 +83,180 @@ export function setupAuth(app: Express) {
     done(null, user);
   });
 
-  app.post("/api/auth/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) return res.status(401).json({ message: "Invalid email or password" });
+      req.login(user, (err) => {
+        if (err) return next(err);
+        stampSession(req);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
   });
 
   app.post("/api/auth/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
-      res.sendStatus(200);
+      res.status(200).json({ message: "Logged out" });
     });
   });
 
+  app.get(api.auth.sessions.path, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    try {
+      const stored = await sessionRegistry.listForUser(req.user.id);
+      res.json(stored.map(({ sid, data, expiresAt }) => ({
+        id: publicSessionId(sid),
+        current: sid === req.sessionID,
+        createdAt: data.createdAt ?? null,
+        lastSeenAt: data.lastSeenAt ?? null,
+        expiresAt: expiresAt?.toISOString() ?? null,
+        userAgent: data.userAgent ?? null,
+        ip: data.ip ?? null,
+      })));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete(api.auth.revokeSession.path, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    try {
+      const stored = await sessionRegistry.listForUser(req.user.id);
+      const target = stored.find(s => publicSessionId(s.sid) === req.params.id);
+      if (!target) return res.status(404).json({ message: "Session not found" });
+      await sessionRegistry.destroy(target.sid);
+      res.json({ message: "Session revoked" });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post(api.auth.logoutAll.path, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    try {
+      const stored = await sessionRegistry.listForUser(req.user.id);
+      for (const { sid } of stored) {
+        if (sid !== req.sessionID) await sessionRegistry.destroy(sid);
+      }
+      // The current session goes last, through passport, so the cookie is cleared too
+      req.logout((err) => {
+        if (err) return next(err);
+        req.session.destroy((err) => {
+          if (err) return next(err);
+          res.json({ message: `Logged out of ${stored.length} session(s)` });
+        });
+      });
+    } catch (err) {
+      next(err);
+    }
+  });
+
   app.get("/api/auth/me", (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    res.json(toPublicUser(req.user));
   });
   
-  app.post("/api/auth/signup", async (req, res) => {
-    const { email, password, role } = req.body;
-    if (await storage.getUserByEmail(email)) {
-      return res.status(400).send("User already exists");
+  app.post("/api/auth/signup", async (req, res, next) => {
+    try {
+      const { email, password, role } = api.auth.signup.input.parse(req.body);
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ message: "User already exists" });
+      }
+      const user = await storage.createUser({ email, password: await hashPassword(password), role });
+      // A mail outage shouldn't block signup; the user can ask for a new link
+      sendVerificationEmail(user).catch(err => console.error("Failed to send verification email:", err));
+      req.login(user, (err) => {
+        if (err) return next(err);
+        stampSession(req);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      next(err);
+    }
+  });
+
+  app.post(api.auth.requestVerification.path, async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ message: "Not authenticated" });
+    if (req.user.emailVerifiedAt) {
+      return res.json({ message: "Email already verified" });
+    }
+    try {
+      await sendVerificationEmail(req.user);
+      res.json({ message: "Verification email sent" });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post(api.auth.verifyEmail.path, async (req, res, next) => {
+    try {
+      const { token } = api.auth.verifyEmail.input.parse(req.body);
+      const consumed = await consumeToken(token, "email_verification");
+      if (!consumed) {
+        return res.status(400).json({ message: "This link is invalid or has expired" });
+      }
+      const user = await storage.markEmailVerified(consumed.userId);
+      res.json(toPublicUser(user));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      next(err);
+    }
+  });
+
+  app.post(api.auth.requestPasswordReset.path, async (req, res, next) => {
+    try {
+      const { email } = api.auth.requestPasswordReset.input.parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      // Not awaited: neither the response time nor a mail failure may tell
+      // the caller whether the account exists
+      if (user) {
+        sendPasswordResetEmail(user).catch(err => console.error(`Password reset email for user ${user.id} failed:`, err));
+      }
+      res.json({ message: "If that account exists, we've emailed a reset link" });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      next(err);
+    }
+  });
+
+  app.post(api.auth.resetPassword.path, async (req, res, next) => {
+    try {
+      const { token, password } = api.auth.resetPassword.input.parse(req.body);
+      const consumed = await consumeToken(token, "password_reset");
+      if (!consumed) {
+        return res.status(400).json({ message: "This link is invalid or has expired" });
+      }
+      await storage.updateUserPassword(consumed.userId, await hashPassword(password));
+      // Receiving the link proves control of the inbox
+      const user = await storage.getUser(consumed.userId);
+      if (user && !user.emailVerifiedAt) {
+        await storage.markEmailVerified(user.id);
+      }
+      // Whoever had the old password is logged out everywhere. A session on
+      // this very request goes through express-session, which would otherwise
+      // save it again once the response is sent.
+      for (const { sid } of await sessionRegistry.listForUser(consumed.userId)) {
+        if (sid === req.sessionID) {
+          await new Promise<void>((resolve, reject) => req.session.destroy(err => (err ? reject(err) : resolve())));
+        } else {
+          await sessionRegistry.destroy(sid);
+        }
+      }
+      res.json({ message: "Password updated" });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      next(err);
     }
-    const user = await storage.createUser({ email, password, role: role || "seeker" });
-    req.login(user, (err) => {
-      if (err) return res.status(500).send(err);
-      res.status(201).json(user);
-    });
   });
 }
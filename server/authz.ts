@@ -0,0 +1,158 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import { hasEmployerPermission, type Application as JobApplication, type Company, type EmployerPermission, type EmployerProfile, type Job, type PublicUser, type User } from "@shared/schema";
+
+// Route guards. Failures always answer with a JSON { message } body matching
+// errorSchemas in shared/routes: 400 when the target id isn't an integer, 401
+// when not logged in, 403 when logged in but not allowed, 404 when the target
+// doesn't exist.
+//
+// Ownership guards stash what they loaded on res.locals so handlers don't
+// fetch it twice.
+
+declare global {
+  namespace Express {
+    interface Locals {
+      employerProfile?: EmployerProfile & { company: Company };
+      job?: Job & { company: Company };
+      application?: JobApplication & { job: Job, seeker: PublicUser };
+    }
+  }
+}
+
+type IdSource = (req: Request) => unknown;
+
+const fromParams: IdSource = req => req.params.id;
+
+// Ids come from the path or an unvalidated body, so "abc", 1.5 and a missing
+// id are all possible here
+function parseId(value: unknown): number | undefined {
+  const id = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : value;
+  return typeof id === "number" && Number.isSafeInteger(id) && id > 0 ? id : undefined;
+}
+
+function badRequest(res: Response, message = "Invalid request") {
+  return res.status(400).json({ message });
+}
+
+export function unauthorized(res: Response, message = "Not authenticated") {
+  return res.status(401).json({ message });
+}
+
+export function forbidden(res: Response, message = "You do not have access to this resource") {
+  return res.status(403).json({ message });
+}
+
+export function notFound(res: Response, message = "Not found") {
+  return res.status(404).json({ message });
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) return unauthorized(res);
+  next();
+};
+
+export function requireRole(role: User["role"]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) return unauthorized(res);
+    if (req.user.role !== role) return forbidden(res, `Only ${role}s can do this`);
+    next();
+  };
+}
+
+// Blocks accounts that haven't confirmed their email address
+export const requireVerifiedEmail: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) return unauthorized(res);
+  if (!req.user.emailVerifiedAt) return forbidden(res, "Verify your email address first");
+  next();
+};
+
+// Employer with a company profile. Sets res.locals.employerProfile.
+export const requireEmployerProfile: RequestHandler = async (req, res, next) => {
+  if (!req.isAuthenticated()) return unauthorized(res);
+  if (req.user.role !== "employer") return forbidden(res, "Only employers can do this");
+
+  try {
+    const profile = await storage.getEmployerProfile(req.user.id);
+    if (!profile) return forbidden(res, "Create a company profile first");
+    res.locals.employerProfile = profile;
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
+
+// Team role allows the action. Goes after requireEmployerProfile or one of the
+// ownership guards, which load the profile.
+export function requireEmployerPermission(permission: EmployerPermission): RequestHandler {
+  return (_req, res, next) => {
+    const profile = res.locals.employerProfile;
+    if (!profile || !hasEmployerPermission(profile.role, permission)) {
+      return forbidden(res, "Your team role does not allow this");
+    }
+    next();
+  };
+}
+
+// Job belongs to the current employer's company. Sets res.locals.job.
+export function requireJobOwnership(getId: IdSource = fromParams): RequestHandler {
+  return chain(requireEmployerProfile, async (req, res, next) => {
+    const id = parseId(getId(req));
+    if (id === undefined) return badRequest(res, "Invalid job id");
+    const job = await storage.getJob(id);
+    if (!job) return notFound(res, "Job not found");
+    if (job.companyId !== res.locals.employerProfile!.companyId) return forbidden(res);
+    res.locals.job = job;
+    next();
+  });
+}
+
+// Application is for a job owned by the current employer's company.
+// Sets res.locals.application.
+export function requireApplicationOwnership(getId: IdSource = fromParams): RequestHandler {
+  return chain(requireEmployerProfile, async (req, res, next) => {
+    const id = parseId(getId(req));
+    if (id === undefined) return badRequest(res, "Invalid application id");
+    const application = await storage.getApplication(id);
+    if (!application) return notFound(res, "Application not found");
+    if (application.job.companyId !== res.locals.employerProfile!.companyId) return forbidden(res);
+    res.locals.application = application;
+    next();
+  });
+}
+
+// Seeker who applied, or an employer whose company owns the job. Sets
+// res.locals.application, plus res.locals.employerProfile for employers.
+export function requireApplicationParticipant(getId: IdSource = fromParams): RequestHandler {
+  const employerGuard = requireApplicationOwnership(getId);
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) return unauthorized(res);
+    if (req.user.role === "employer") return employerGuard(req, res, next);
+
+    try {
+      const id = parseId(getId(req));
+      if (id === undefined) return badRequest(res, "Invalid application id");
+      const application = await storage.getApplication(id);
+      if (!application || application.seekerId !== req.user.id) return notFound(res, "Application not found");
+      res.locals.application = application;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
+
+// Dev-only endpoints such as /api/seed
+export const requireNonProduction: RequestHandler = (_req, res, next) => {
+  if (process.env.NODE_ENV === "production") return forbidden(res, "Not available in production");
+  next();
+};
+
+function chain(first: RequestHandler, second: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    first(req, res, (err?: unknown) => {
+      if (err) return next(err);
+      second(req, res, next).catch(next);
+    });
+  };
+}
@@ -0,0 +1,135 @@
+import { createHmac } from "crypto";
+import { storage } from "./storage";
+import { redactPii } from "./redaction";
+import {
+  hasReachedStage, type Application, type ApplicationEvent, type ApplicationSnapshot, type Job, type JobSeekerProfile,
+  type ApplicationMessage, type ProfileSnapshot, type PublicUser, type ScreeningResult,
+} from "@shared/schema";
+
+// Blind review. On jobs with blindReview set, the team sees a pseudonymous
+// label instead of the candidate's name, email, location and the personal
+// details in their resume, until the application reaches the job's
+// revealStage. The first time each team member is shown a revealed identity,
+// whether in the applicant list or on one application, is logged in
+// identity_reveals.
+
+type Applicant = Application & {
+  seeker: PublicUser;
+  profile: JobSeekerProfile;
+  screening?: ScreeningResult;
+  snapshot: ApplicationSnapshot | null;
+  events: ApplicationEvent[];
+};
+
+// No look-alike characters, 32 of them so every byte maps evenly
+const labelAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function labelSecret(): string {
+  return process.env.SESSION_SECRET || "default_secret";
+}
+
+// Stable for an application, and unrelated across the jobs a seeker applies to
+export function candidateLabel(applicationId: number): string {
+  const digest = createHmac("sha256", labelSecret()).update(`candidate:${applicationId}`).digest();
+  const code = Array.from(digest.subarray(0, 5)).map(byte => labelAlphabet[byte % labelAlphabet.length]).join("");
+  return `Candidate ${code}`;
+}
+
+export function isIdentityHidden(
+  job: Pick<Job, "blindReview" | "revealStage">,
+  application: Pick<Application, "status">,
+  events: Pick<ApplicationEvent, "toStatus">[],
+): boolean {
+  if (!job.blindReview) return false;
+  return !hasReachedStage(job.revealStage, application.status ?? "applied", events.map(e => e.toStatus));
+}
+
+// For callers that don't have the status history at hand
+export async function isIdentityHiddenFor(application: Application & { job: Job }): Promise<boolean> {
+  if (!application.job.blindReview) return false;
+  return isIdentityHidden(application.job, application, await storage.listApplicationEvents([application.id]));
+}
+
+// For the views of one application outside the applicant list: whether the
+// candidate is still hidden from this team member, logging the reveal if not
+export async function identityHiddenFrom(application: Application & { job: Job }, viewerId: number): Promise<boolean> {
+  if (!application.job.blindReview) return false;
+  const hidden = await isIdentityHiddenFor(application);
+  if (!hidden) await storage.recordIdentityReveals([{ applicationId: application.id, viewerId, stage: application.status ?? "applied" }]);
+  return hidden;
+}
+
+// What the seeker wrote goes through the same rules as the resume text
+export async function redactThread(messages: ApplicationMessage[], application: Application) {
+  const [profile, [snapshot]] = await Promise.all([
+    storage.getSeekerProfile(application.seekerId),
+    storage.listApplicationSnapshots([application.id]),
+  ]);
+  const snapshotProfile = snapshot?.profile as ProfileSnapshot | null | undefined;
+  const known = {
+    names: [profile?.name, snapshotProfile?.name],
+    locations: [profile?.location, snapshotProfile?.location],
+  };
+  const label = candidateLabel(application.id);
+
+  return messages.map(message => ({
+    ...message,
+    senderId: message.senderId === application.seekerId ? null : message.senderId,
+    readBy: message.readBy === application.seekerId ? null : message.readBy,
+    body: message.senderRole === "seeker" ? redactPii(message.body, known, { nameReplacement: label }).text : message.body,
+  }));
+}
+
+function redactApplicant<T extends Applicant>(app: T, label: string) {
+  const snapshotProfile = app.snapshot?.profile as ProfileSnapshot | null | undefined;
+  const known = {
+    names: [app.profile.name, snapshotProfile?.name],
+    locations: [app.profile.location, snapshotProfile?.location],
+  };
+  const hide = (text: string | null) => text === null ? null : redactPii(text, known, { nameReplacement: label }).text;
+
+  // Any stable id or the embedding could be matched against sourcing results
+  const { seekerId: _seekerId, ...rest } = app;
+  return {
+    ...rest,
+    seekerId: null,
+    seeker: { ...app.seeker, id: null, email: null },
+    profile: {
+      ...app.profile,
+      id: null,
+      userId: null,
+      embedding: null,
+      name: label,
+      location: null,
+      bio: hide(app.profile.bio),
+      resumeUrl: null,
+      resumeText: hide(app.profile.resumeText),
+    },
+    snapshot: app.snapshot && {
+      ...app.snapshot,
+      resumeId: null, // The file itself can't be redacted
+      resumeName: null,
+      resumeUrl: null,
+      resumeText: hide(app.snapshot.resumeText),
+      profile: snapshotProfile ? { ...snapshotProfile, name: label, location: null, bio: hide(snapshotProfile.bio) } : null,
+    },
+    events: app.events.map(event => event.actorId === app.seekerId ? { ...event, actorId: null } : event),
+    ...(app.screening ? { screening: { ...app.screening, aiSummary: hide(app.screening.aiSummary) } } : {}),
+  };
+}
+
+// Labels every applicant of a blind job and redacts the ones that haven't
+// reached the reveal stage. The rest count as revealed to the viewer.
+export async function applyBlindReview<T extends Applicant>(apps: T[], job: Job, viewerId: number) {
+  const hidden = new Set(apps.filter(app => isIdentityHidden(job, app, app.events)).map(app => app.id));
+  await storage.recordIdentityReveals(apps
+    .filter(app => !hidden.has(app.id))
+    .map(app => ({ applicationId: app.id, viewerId, stage: app.status ?? "applied" })));
+
+  return apps.map(app => {
+    const label = candidateLabel(app.id);
+    return hidden.has(app.id)
+      ? { ...redactApplicant(app, label), candidateLabel: label, identityHidden: true }
+      : { ...app, candidateLabel: label, identityHidden: false };
+  });
+}
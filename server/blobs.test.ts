@@ -0,0 +1,178 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { createHash, createHmac } from "crypto";
+import { InMemoryBlobStore, S3BlobStore, createBlobStore } from "./blobs";
+
+// Stands in for MinIO: a path-style S3 endpoint that keeps objects in memory
+// and, like the real thing, rejects any request whose SigV4 signature doesn't
+// match what arrived on the wire.
+
+const credentials = { accessKeyId: "minioadmin", secretAccessKey: "minio-secret-key" };
+const region = "us-east-1";
+const bucket = "resumes";
+
+type StoredObject = { body: Buffer; contentType: string | undefined };
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// S3 encodes everything but the RFC 3986 unreserved characters
+function uriEncode(segment: string): string {
+  return Array.from(new TextEncoder().encode(segment))
+    .map(byte => /[A-Za-z0-9\-_.~]/.test(String.fromCharCode(byte)) ? String.fromCharCode(byte) : `%${byte.toString(16).toUpperCase().padStart(2, "0")}`)
+    .join("");
+}
+
+function signatureProblem(req: IncomingMessage, body: Buffer): string | undefined {
+  const auth = req.headers.authorization?.match(
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, SignedHeaders=([a-z0-9;-]+), Signature=([0-9a-f]{64})$/,
+  );
+  if (!auth) return "malformed authorization header";
+  const [, accessKeyId, date, signedRegion, signedHeaders, signature] = auth;
+  if (accessKeyId !== credentials.accessKeyId) return "unknown access key";
+  if (signedRegion !== region) return "wrong region";
+
+  const amzDate = String(req.headers["x-amz-date"]);
+  if (!amzDate.startsWith(date)) return "date doesn't match the credential scope";
+  if (req.headers["x-amz-content-sha256"] !== sha256Hex(body)) return "payload hash mismatch";
+
+  const names = signedHeaders.split(";");
+  if (!names.includes("host")) return "host isn't signed";
+  const path = new URL(req.url!, "http://stand-in").pathname;
+  const canonicalUri = path.split("/").map(segment => uriEncode(decodeURIComponent(segment))).join("/");
+  const canonicalRequest = [
+    req.method,
+    canonicalUri,
+    "",
+    ...names.map(name => `${name}:${String(req.headers[name] ?? "").trim()}`),
+    "",
+    signedHeaders,
+    req.headers["x-amz-content-sha256"],
+  ].join("\n");
+  const scope = `${date}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  let key: Buffer = createHmac("sha256", `AWS4${credentials.secretAccessKey}`).update(date).digest();
+  for (const part of [region, "s3", "aws4_request"]) key = createHmac("sha256", key).update(part).digest();
+  const expected = createHmac("sha256", key).update(stringToSign).digest("hex");
+  return expected === signature ? undefined : "signature mismatch";
+}
+
+function startStandIn(): Promise<{ server: Server; endpoint: string; objects: Map<string, StoredObject> }> {
+  const objects = new Map<string, StoredObject>();
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+
+    const problem = signatureProblem(req, body);
+    if (problem) {
+      res.writeHead(403, { "content-type": "application/xml" }).end(`<Error><Code>SignatureDoesNotMatch</Code><Message>${problem}</Message></Error>`);
+      return;
+    }
+
+    const [, requestBucket, ...keyParts] = new URL(req.url!, "http://stand-in").pathname.split("/");
+    const key = keyParts.map(decodeURIComponent).join("/");
+    if (requestBucket !== bucket || !key) {
+      res.writeHead(404).end("<Error><Code>NoSuchBucket</Code></Error>");
+      return;
+    }
+
+    switch (req.method) {
+      case "PUT":
+        objects.set(key, { body, contentType: req.headers["content-type"] });
+        res.writeHead(200).end();
+        return;
+      case "GET": {
+        const object = objects.get(key);
+        if (!object) {
+          res.writeHead(404).end("<Error><Code>NoSuchKey</Code></Error>");
+          return;
+        }
+        res.writeHead(200, { "content-type": object.contentType ?? "application/octet-stream" }).end(object.body);
+        return;
+      }
+      case "DELETE":
+        objects.delete(key);
+        res.writeHead(204).end();
+        return;
+      default:
+        res.writeHead(405).end();
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, endpoint: `http://127.0.0.1:${port}`, objects });
+    });
+  });
+}
+
+describe("S3BlobStore", () => {
+  let standIn: Awaited<ReturnType<typeof startStandIn>>;
+  let store: S3BlobStore;
+
+  before(async () => {
+    standIn = await startStandIn();
+    store = new S3BlobStore({ bucket, region, ...credentials, endpoint: `${standIn.endpoint}/` });
+  });
+
+  after(() => {
+    standIn.server.close();
+  });
+
+  it("puts, gets and deletes an object", async () => {
+    const body = Buffer.from("%PDF-1.4 resume");
+    await store.put("resumes/7/a.pdf", { body, contentType: "application/pdf" });
+    assert.deepEqual(standIn.objects.get("resumes/7/a.pdf"), { body, contentType: "application/pdf" });
+
+    assert.deepEqual(await store.get("resumes/7/a.pdf"), body);
+
+    await store.delete("resumes/7/a.pdf");
+    assert.equal(standIn.objects.has("resumes/7/a.pdf"), false);
+  });
+
+  it("signs keys that need percent-encoding", async () => {
+    const key = "resumes/7/Jane Doe (final) résumé!.txt";
+    await store.put(key, { body: Buffer.from("hello"), contentType: "text/plain" });
+    assert.equal((await store.get(key))?.toString(), "hello");
+  });
+
+  it("signs empty bodies", async () => {
+    await store.put("resumes/7/empty.txt", { body: Buffer.alloc(0), contentType: "text/plain" });
+    assert.equal((await store.get("resumes/7/empty.txt"))?.length, 0);
+  });
+
+  it("returns undefined for a missing object and deletes one without complaint", async () => {
+    assert.equal(await store.get("resumes/7/missing.pdf"), undefined);
+    await store.delete("resumes/7/missing.pdf");
+  });
+
+  it("surfaces a rejected signature", async () => {
+    const wrong = new S3BlobStore({ bucket, region, accessKeyId: credentials.accessKeyId, secretAccessKey: "not-the-secret", endpoint: standIn.endpoint });
+    await assert.rejects(wrong.put("resumes/7/b.pdf", { body: Buffer.from("x"), contentType: "application/pdf" }), /403 .*SignatureDoesNotMatch/);
+    await assert.rejects(wrong.get("resumes/7/b.pdf"), /S3 GET resumes\/7\/b\.pdf failed: 403/);
+  });
+
+  it("refuses keys that could leave the bucket prefix", async () => {
+    for (const key of ["../etc/passwd", "/abs", "a//b", "a/./b"]) {
+      await assert.rejects(store.get(key), /Invalid blob key/);
+    }
+  });
+});
+
+describe("createBlobStore", () => {
+  it("requires credentials for s3", () => {
+    assert.throws(() => createBlobStore({ BLOB_STORE: "s3", S3_BUCKET: bucket }), /S3_ACCESS_KEY_ID/);
+  });
+
+  it("builds each kind and rejects unknown ones", () => {
+    assert.ok(createBlobStore({ BLOB_STORE: "memory" }) instanceof InMemoryBlobStore);
+    assert.ok(createBlobStore({ BLOB_STORE: "s3", S3_BUCKET: bucket, S3_ACCESS_KEY_ID: "a", S3_SECRET_ACCESS_KEY: "b" }) instanceof S3BlobStore);
+    assert.throws(() => createBlobStore({ BLOB_STORE: "ftp" }), /Unknown BLOB_STORE "ftp"/);
+  });
+});
@@ -0,0 +1,198 @@
+import fs from "fs";
+import path from "path";
+import { createHash, createHmac } from "crypto";
+
+// Uploaded files go through a BlobStore. Pick one with BLOB_STORE:
+//   local  - files under BLOB_DIR (default ./uploads)
+//   s3     - any S3-compatible service (AWS, MinIO, R2, ...): S3_BUCKET,
+//            S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY
+//   memory - keeps files in a Map, for tests
+// Nothing in a store is served directly; downloads are checked and streamed by the app.
+
+export type StoredBlob = {
+  body: Buffer;
+  contentType: string;
+};
+
+export interface BlobStore {
+  put(key: string, blob: StoredBlob): Promise<void>;
+  // undefined when there's no such file
+  get(key: string): Promise<Buffer | undefined>;
+  // Deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+}
+
+// Keys are generated by us, but a bad one must never escape the store
+function assertSafeKey(key: string) {
+  if (!key || key.startsWith("/") || key.split("/").some(part => part === "" || part === "." || part === "..")) {
+    throw new Error(`Invalid blob key "${key}"`);
+  }
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private dir: string) {}
+
+  async put(key: string, blob: StoredBlob): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, blob.body);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    assertSafeKey(key);
+    return path.join(this.dir, key);
+  }
+}
+
+export type S3Options = {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Defaults to AWS. Self-hosted services are addressed path-style (endpoint/bucket/key).
+  endpoint?: string;
+};
+
+// Talks to the S3 REST API directly with Signature Version 4, which every
+// S3-compatible service accepts.
+export class S3BlobStore implements BlobStore {
+  private baseUrl: string;
+
+  constructor(private options: S3Options) {
+    this.baseUrl = options.endpoint
+      ? `${options.endpoint.replace(/\/$/, "")}/${options.bucket}`
+      : `https://${options.bucket}.s3.${options.region}.amazonaws.com`;
+  }
+
+  async put(key: string, blob: StoredBlob): Promise<void> {
+    const res = await this.request("PUT", key, blob.body, { "content-type": blob.contentType });
+    if (!res.ok) throw new Error(`S3 PUT ${key} failed: ${res.status} ${await res.text()}`);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const res = await this.request("GET", key);
+    if (res.status === 404) return undefined;
+    if (!res.ok) throw new Error(`S3 GET ${key} failed: ${res.status} ${await res.text()}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.request("DELETE", key);
+    if (!res.ok && res.status !== 404) throw new Error(`S3 DELETE ${key} failed: ${res.status} ${await res.text()}`);
+  }
+
+  private async request(method: string, key: string, body?: Buffer, extraHeaders: Record<string, string> = {}): Promise<Response> {
+    assertSafeKey(key);
+    const url = new URL(`${this.baseUrl}/${key.split("/").map(uriEncode).join("/")}`);
+    const amzDate = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    const headers: Record<string, string> = {
+      ...extraHeaders,
+      host: url.host,
+      "x-amz-date": amzDate,
+      "x-amz-content-sha256": sha256Hex(body ?? ""),
+    };
+    headers.authorization = this.authorization(method, url, headers, amzDate);
+    const { host: _host, ...sent } = headers; // fetch sets Host itself
+    return fetch(url, { method, headers: sent, body });
+  }
+
+  private authorization(method: string, url: URL, headers: Record<string, string>, amzDate: string): string {
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.options.region}/s3/aws4_request`;
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...names.map(name => `${name}:${headers[name].trim()}`),
+      "",
+      names.join(";"),
+      headers["x-amz-content-sha256"],
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+    let signingKey = hmac(`AWS4${this.options.secretAccessKey}`, date);
+    for (const part of [this.options.region, "s3", "aws4_request"]) signingKey = hmac(signingKey, part);
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+    return `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${names.join(";")}, Signature=${signature}`;
+  }
+}
+
+// SigV4 wants every character but A-Z a-z 0-9 - _ . ~ escaped, which is
+// encodeURIComponent plus the five it leaves alone
+function uriEncode(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+export class InMemoryBlobStore implements BlobStore {
+  readonly blobs = new Map<string, StoredBlob>();
+
+  async put(key: string, blob: StoredBlob): Promise<void> {
+    assertSafeKey(key);
+    this.blobs.set(key, blob);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    return this.blobs.get(key)?.body;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.blobs.delete(key);
+  }
+}
+
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const kind = env.BLOB_STORE || "local";
+  switch (kind) {
+    case "local":
+      return new LocalBlobStore(env.BLOB_DIR || "uploads");
+    case "s3":
+      if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+        throw new Error("S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set when BLOB_STORE=s3");
+      }
+      return new S3BlobStore({
+        bucket: env.S3_BUCKET,
+        region: env.S3_REGION || "us-east-1",
+        accessKeyId: env.S3_ACCESS_KEY_ID,
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+        endpoint: env.S3_ENDPOINT,
+      });
+    case "memory":
+      return new InMemoryBlobStore();
+    default:
+      throw new Error(`Unknown BLOB_STORE "${kind}". Expected "local", "s3" or "memory".`);
+  }
+}
+
+let store: BlobStore | undefined;
+
+export function getBlobStore(): BlobStore {
+  if (!store) store = createBlobStore();
+  return store;
+}
+
+// Lets tests install an InMemoryBlobStore
+export function setBlobStore(next: BlobStore | undefined) {
+  store = next;
+}
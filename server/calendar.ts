@@ -0,0 +1,89 @@
+// iCalendar (RFC 5545) invites. Times are written in UTC, which every client
+// understands and which needs no VTIMEZONE block; local times go in the text.
+// Updates and cancellations reuse the event's UID with a higher SEQUENCE.
+
+export type CalendarPerson = { email: string; name?: string | null };
+
+export type CalendarEvent = {
+  uid: string;
+  sequence: number;
+  method: "REQUEST" | "CANCEL";
+  start: Date;
+  end: Date;
+  summary: string;
+  description: string;
+  location?: string | null;
+  url?: string | null;
+  organizer: CalendarPerson;
+  attendees: CalendarPerson[];
+  stamp?: Date;
+};
+
+export const ICS_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+export function buildIcs(event: CalendarEvent): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//OneClickApply//Interviews//EN",
+    "CALSCALE:GREGORIAN",
+    `METHOD:${event.method}`,
+    "BEGIN:VEVENT",
+    `UID:${escapeText(event.uid)}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(event.stamp ?? new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    `ORGANIZER${personParams(event.organizer)}:mailto:${event.organizer.email}`,
+    ...event.attendees.map(attendee =>
+      `ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE${personParams(attendee)}:mailto:${attendee.email}`),
+    `STATUS:${event.method === "CANCEL" ? "CANCELLED" : "CONFIRMED"}`,
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+// 20261020T150000Z
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Parameter values with separators have to be quoted, and can't contain quotes
+function personParams(person: CalendarPerson): string {
+  return person.name ? `;CN="${person.name.replace(/["\r\n]/g, "")}"` : "";
+}
+
+// Lines longer than 75 octets continue on the next line after a space,
+// without splitting a UTF-8 character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // Continuations start with the space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
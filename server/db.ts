@@ -5,11 +5,8 @@ import * as schema from "@shared/schema";
 
 const { Pool } = pg;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
-
+// The pool doesn't connect until the first query, so importing this module
+// is safe when running with STORAGE_DRIVER=memory. The DATABASE_URL check
+// lives in createStorage() in ./storage.
 export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 export const db = drizzle(pool, { schema });
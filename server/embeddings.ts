@@ -0,0 +1,210 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { getLLMProvider } from "./llm";
+import { redactPii } from "./redaction";
+import type { Job, JobSeekerProfile } from "@shared/schema";
+
+// Embeddings for jobs and seeker profiles. With a real LLM provider we use
+// its embedding model; otherwise (or with EMBEDDING_PROVIDER=local) we fall
+// back to a hashed bag-of-words vector computed in-process, which needs no key.
+// Vectors from different backends have different lengths and are never compared.
+// Request handlers only read stored vectors; a background sweep fills in the
+// ones that are missing or were made by another backend.
+
+const LOCAL_DIMENSIONS = 512;
+const MAX_INPUT_CHARS = 8000;
+const BACKFILL_BATCH = 25;
+const backfillIntervalMs = Number(process.env.EMBEDDING_BACKFILL_MS || 60 * 1000);
+
+export type Embedder = (text: string) => Promise<number[]>;
+
+export function getEmbedder(): Embedder {
+  const mode = process.env.EMBEDDING_PROVIDER;
+  const llm = getLLMProvider();
+  if (mode === "local" || (mode !== "llm" && llm.name === "fixture")) {
+    return async text => localEmbedding(text);
+  }
+  return async text => (await llm.embed([text.slice(0, MAX_INPUT_CHARS)]))[0];
+}
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have", "in", "is", "it",
+  "its", "of", "on", "or", "our", "that", "the", "their", "this", "to", "we", "with", "you", "your",
+  "will", "who", "looking",
+]);
+
+// Not a document frequency, since there is no corpus here: long tokens tend to
+// be the rarer, more specific ones, so they get more weight than short ones.
+function termWeight(token: string): number {
+  return Math.log(1 + token.length);
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9+#.\s-]/g, " ")
+    .split(/\s+/)
+    .map(t => t.replace(/^[.-]+|[.-]+$/g, ""))
+    .filter(t => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+export function localEmbedding(text: string, dimensions = LOCAL_DIMENSIONS): number[] {
+  const counts = new Map<string, number>();
+  const tokens = tokenize(text.slice(0, MAX_INPUT_CHARS));
+  // Unigrams plus bigrams so "machine learning" differs from "learning machine"
+  const features = tokens.concat(tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`));
+  for (const feature of features) {
+    counts.set(feature, (counts.get(feature) || 0) + 1);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, count] of Array.from(counts.entries())) {
+    const digest = createHash("md5").update(feature).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    const sign = digest[4] & 1 ? 1 : -1; // Signed hashing reduces collision bias
+    vector[index] += sign * (1 + Math.log(count)) * termWeight(feature);
+  }
+  return normalize(vector);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+export function jobEmbeddingText(job: Pick<Job, "title" | "description" | "requiredSkills" | "location">): string {
+  return [job.title, job.requiredSkills?.join(", "), job.location, job.description]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function profileEmbeddingText(profile: Pick<JobSeekerProfile, "title" | "bio" | "skills" | "resumeText">): string {
+  return [profile.title, profile.skills?.join(", "), profile.bio, profile.resumeText]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function asVector(value: unknown): number[] | undefined {
+  return Array.isArray(value) && value.every(v => typeof v === "number") ? value : undefined;
+}
+
+export async function generateJobEmbedding(jobId: number): Promise<number[] | undefined> {
+  const job = await storage.getJob(jobId);
+  if (!job) return undefined;
+  const embedding = await getEmbedder()(jobEmbeddingText(job));
+  await storage.setJobEmbedding(jobId, embedding);
+  return embedding;
+}
+
+export async function generateProfileEmbedding(userId: number): Promise<number[] | undefined> {
+  const profile = await storage.getSeekerProfile(userId);
+  if (!profile) return undefined;
+  // The embedding model may be a hosted LLM, so it gets the profile without personal details
+  const text = redactPii(profileEmbeddingText(profile), { names: [profile.name], locations: [profile.location] }).text;
+  const embedding = await getEmbedder()(text);
+  await storage.setSeekerProfileEmbedding(userId, embedding);
+  return embedding;
+}
+
+// Fire-and-forget wrappers for request handlers; a failed embedding only
+// degrades recommendations, so it should never fail the request.
+export function refreshJobEmbedding(jobId: number) {
+  generateJobEmbedding(jobId).catch(err => console.error(`Job ${jobId} embedding failed:`, err));
+}
+
+export function refreshProfileEmbedding(userId: number) {
+  generateProfileEmbedding(userId).catch(err => console.error(`Profile embedding for user ${userId} failed:`, err));
+}
+
+let dimensions: Promise<number> | undefined;
+
+// Length of the vectors the configured backend produces, probed once
+export function embeddingDimensions(): Promise<number> {
+  dimensions ??= getEmbedder()("dimensions").then(vector => vector.length, err => {
+    dimensions = undefined;
+    throw err;
+  });
+  return dimensions;
+}
+
+// A stored vector counts only if the current backend made it
+export async function currentVector(value: unknown): Promise<number[] | undefined> {
+  const vector = asVector(value);
+  return vector && vector.length === await embeddingDimensions() ? vector : undefined;
+}
+
+// Embeds up to a batch each of jobs and profiles that have no usable vector.
+// A failure is logged and the row is picked up again on the next sweep.
+export async function backfillEmbeddings(): Promise<number> {
+  const size = await embeddingDimensions();
+  let embedded = 0;
+  for (const job of await storage.listJobsNeedingEmbedding(size, BACKFILL_BATCH)) {
+    try {
+      if (await generateJobEmbedding(job.id)) embedded++;
+    } catch (err) {
+      console.error(`Job ${job.id} embedding failed:`, err);
+    }
+  }
+  for (const profile of await storage.listSeekerProfilesNeedingEmbedding(size, BACKFILL_BATCH)) {
+    try {
+      if (await generateProfileEmbedding(profile.userId)) embedded++;
+    } catch (err) {
+      console.error(`Profile embedding for user ${profile.userId} failed:`, err);
+    }
+  }
+  return embedded;
+}
+
+export function startEmbeddingBackfill(): void {
+  let running = false;
+  const sweep = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const embedded = await backfillEmbeddings();
+      if (embedded > 0) console.log(`Embedded ${embedded} job(s)/profile(s)`);
+    } catch (err) {
+      console.error("Embedding backfill failed:", err);
+    } finally {
+      running = false;
+    }
+  };
+  sweep();
+  setInterval(sweep, backfillIntervalMs).unref();
+}
+
+export async function recommendJobsForSeeker(userId: number, limit: number) {
+  const profile = await storage.getSeekerProfile(userId);
+  if (!profile) return undefined;
+
+  // At most one embedding call, for a seeker whose profile the sweep hasn't reached
+  const profileVector = await currentVector(profile.embedding) ?? await generateProfileEmbedding(userId);
+  if (!profileVector) return [];
+
+  const applied = new Set((await storage.listApplicationsForSeeker(userId)).map(a => a.jobId));
+  const candidates = (await storage.listJobs()).filter(job => !applied.has(job.id));
+
+  // Jobs still waiting on the sweep are left out until they have a vector
+  const ranked = [];
+  for (const job of candidates) {
+    const jobVector = await currentVector(job.embedding);
+    if (jobVector) ranked.push({ ...job, similarity: cosineSimilarity(profileVector, jobVector) });
+  }
+
+  return ranked
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+    .map(({ embedding, ...job }) => job);
+}
@@ -0,0 +1,213 @@
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { sendMail, appUrl } from "./mail";
+import { buildIcs, ICS_CONTENT_TYPE, type CalendarEvent } from "./calendar";
+import { hasEmployerPermission, type Application, type Interview, type InterviewKit, type InterviewSlot, type Job, type PublicUser } from "@shared/schema";
+
+// Interviews are booked from slots the employer publishes on a job. Every
+// booking, reschedule and cancellation emails both sides an .ics invite for
+// the same event (same UID, higher SEQUENCE). Only the interviewer's copy
+// carries the interview kit.
+
+type Booking = Application & { job: Job; seeker: PublicUser };
+
+type InviteAudience = "seeker" | "employer";
+
+// Seekers never see the kit
+export function publicInterview({ kit: _kit, ...interview }: Interview) {
+  return interview;
+}
+
+export function isSlotOpen(slot: InterviewSlot, now = new Date()): boolean {
+  return slot.applicationId === null && slot.startsAt > now;
+}
+
+export async function buildInterviewKit(applicationId: number): Promise<InterviewKit> {
+  const screening = await storage.getScreeningResult(applicationId);
+  const questions = Array.isArray(screening?.aiQuestions)
+    ? screening.aiQuestions.filter((q): q is string => typeof q === "string")
+    : [];
+  return { questions, summary: screening?.aiSummary ?? null, score: screening?.finalScore ?? null };
+}
+
+function fromSlot(slot: InterviewSlot) {
+  const { interviewerId, startsAt, durationMinutes, timezone, location, videoUrl } = slot;
+  return { slotId: slot.id, interviewerId, startsAt, durationMinutes, timezone, location, videoUrl };
+}
+
+// Says which conflict got in the way if the slot was taken in the meantime,
+// or the other side booked an interview first
+export async function bookInterview(booking: Booking, slot: InterviewSlot): Promise<Interview | "slot_taken" | "already_scheduled"> {
+  const kit = await buildInterviewKit(booking.id);
+  const booked = await storage.bookInterviewSlot(slot.id, booking.id);
+  if (!booked) return "slot_taken";
+
+  const interview = await storage.createInterview({
+    applicationId: booking.id,
+    ...fromSlot(booked),
+    uid: `${randomUUID()}@${new URL(appUrl("/")).hostname}`,
+    kit,
+  }).catch(async err => {
+    await storage.releaseInterviewSlot(booked.id);
+    throw err;
+  });
+  if (!interview) {
+    await storage.releaseInterviewSlot(booked.id);
+    return "already_scheduled";
+  }
+
+  sendInvites(booking, interview, "scheduled").catch(err => console.error(`Sending invites for interview ${interview.id} failed:`, err));
+  return interview;
+}
+
+// Moves the interview to another slot. Returns undefined if that slot was taken.
+export async function rescheduleInterview(booking: Booking, interview: Interview, slot: InterviewSlot): Promise<Interview | undefined> {
+  const booked = await storage.bookInterviewSlot(slot.id, booking.id);
+  if (!booked) return undefined;
+
+  const updated = await storage.updateInterview(interview.id, {
+    ...fromSlot(booked),
+    sequence: interview.sequence + 1,
+    kit: await buildInterviewKit(booking.id), // Screening may have finished since
+  });
+  await storage.releaseInterviewSlot(interview.slotId);
+
+  sendInvites(booking, updated, "rescheduled", interview.interviewerId)
+    .catch(err => console.error(`Sending invites for interview ${interview.id} failed:`, err));
+  return updated;
+}
+
+export async function cancelInterview(booking: Booking, interview: Interview, reason?: string): Promise<Interview> {
+  const cancelled = await storage.updateInterview(interview.id, {
+    status: "cancelled",
+    sequence: interview.sequence + 1,
+    cancelReason: reason ?? null,
+    cancelledAt: new Date(),
+  });
+  await storage.releaseInterviewSlot(interview.slotId);
+
+  sendInvites(booking, cancelled, "cancelled").catch(err => console.error(`Sending invites for interview ${interview.id} failed:`, err));
+  return cancelled;
+}
+
+type InviteContext = {
+  booking: Booking;
+  candidateName: string;
+  companyName: string;
+  interviewer: { email: string };
+  interviewerSeesKit: boolean; // Read-only team members can't see screening results
+};
+
+async function inviteContext(booking: Booking, interview: Interview): Promise<InviteContext> {
+  const [profile, company, interviewer, interviewerProfile] = await Promise.all([
+    storage.getSeekerProfile(booking.seekerId),
+    storage.getCompany(booking.job.companyId),
+    storage.getUser(interview.interviewerId),
+    storage.getEmployerProfile(interview.interviewerId),
+  ]);
+  if (!interviewer) throw new Error(`Interviewer ${interview.interviewerId} not found`);
+  return {
+    booking,
+    candidateName: profile?.name ?? booking.seeker.email,
+    companyName: company?.name ?? "",
+    interviewer: { email: interviewer.email },
+    interviewerSeesKit: interviewerProfile?.companyId === booking.job.companyId && hasEmployerPermission(interviewerProfile.role, "viewScreening"),
+  };
+}
+
+// The .ics for one side of the interview. withKit adds the interview kit for
+// team members allowed to see screening results.
+export async function interviewIcs(booking: Booking, interview: Interview, audience: InviteAudience, withKit: boolean): Promise<string> {
+  return buildIcs(calendarEvent(await inviteContext(booking, interview), interview, audience, withKit));
+}
+
+function calendarEvent(context: InviteContext, interview: Interview, audience: InviteAudience, withKit: boolean): CalendarEvent {
+  const { booking, candidateName, companyName, interviewer } = context;
+  const cancelled = interview.status === "cancelled";
+
+  const description = [
+    localTime(interview),
+    interview.videoUrl ? `Video link: ${interview.videoUrl}` : null,
+    interview.location ? `Location: ${interview.location}` : null,
+    cancelled ? `This interview was cancelled.${interview.cancelReason ? ` Reason: ${interview.cancelReason}` : ""}` : null,
+    audience === "employer" && withKit && !cancelled ? kitText(interview.kit as InterviewKit | null, booking) : null,
+  ].filter((line): line is string => line !== null).join("\n\n");
+
+  return {
+    uid: interview.uid,
+    sequence: interview.sequence,
+    method: cancelled ? "CANCEL" : "REQUEST",
+    start: interview.startsAt,
+    end: new Date(interview.startsAt.getTime() + interview.durationMinutes * 60 * 1000),
+    summary: audience === "seeker"
+      ? `Interview: ${booking.job.title} at ${companyName}`
+      : `Interview: ${candidateName} for ${booking.job.title}`,
+    description,
+    location: interview.location ?? interview.videoUrl,
+    url: interview.videoUrl,
+    organizer: interviewer,
+    attendees: [{ email: booking.seeker.email, name: candidateName }],
+  };
+}
+
+function kitText(kit: InterviewKit | null, booking: Booking): string {
+  const lines = ["Interview kit"];
+  if (kit?.score != null) lines.push(`Screening score: ${kit.score}/100`);
+  if (kit?.summary) lines.push(kit.summary);
+  if (kit && kit.questions.length > 0) {
+    lines.push("Suggested questions:", ...kit.questions.map((q, i) => `${i + 1}. ${q}`));
+  } else {
+    lines.push("No suggested questions yet; screening hasn't finished.");
+  }
+  lines.push(`Full application: ${appUrl(`/employer/jobs/${booking.job.id}`)}`);
+  return lines.join("\n");
+}
+
+// "Wednesday, October 21, 2026 at 3:00 PM (Europe/Berlin)"
+function localTime(interview: Pick<Interview, "startsAt" | "timezone" | "durationMinutes">): string {
+  const formatted = new Intl.DateTimeFormat("en-US", {
+    timeZone: interview.timezone,
+    dateStyle: "full",
+    timeStyle: "short",
+  }).format(interview.startsAt);
+  return `${formatted} (${interview.timezone}), ${interview.durationMinutes} minutes`;
+}
+
+// The seeker and the interviewer each get their own copy. A reschedule to a
+// different interviewer tells the previous one it's off their calendar.
+async function sendInvites(booking: Booking, interview: Interview, change: "scheduled" | "rescheduled" | "cancelled", previousInterviewerId?: number) {
+  const context = await inviteContext(booking, interview);
+  const { candidateName, companyName, interviewer } = context;
+  const when = localTime(interview);
+
+  const attachment = (audience: InviteAudience, event = calendarEvent(context, interview, audience, context.interviewerSeesKit)) => ({
+    filename: "invite.ics",
+    content: buildIcs(event),
+    contentType: `${ICS_CONTENT_TYPE}; method=${event.method}`,
+  });
+
+  await sendMail({
+    to: booking.seeker.email,
+    subject: `Interview ${change}: ${booking.job.title} at ${companyName}`,
+    text: `Your interview for ${booking.job.title} at ${companyName} has been ${change}.\n\n${when}\n\nSee your applications:\n${appUrl("/seeker/applications")}`,
+    attachments: [attachment("seeker")],
+  });
+  await sendMail({
+    to: interviewer.email,
+    subject: `Interview ${change}: ${candidateName} for ${booking.job.title}`,
+    text: `Your interview with ${candidateName} for ${booking.job.title} has been ${change}.\n\n${when}\n\nSee the application:\n${appUrl(`/employer/jobs/${booking.job.id}`)}`,
+    attachments: [attachment("employer")],
+  });
+
+  if (previousInterviewerId !== undefined && previousInterviewerId !== interview.interviewerId) {
+    const previous = await storage.getUser(previousInterviewerId);
+    if (!previous) return;
+    const cancellation = { ...calendarEvent(context, interview, "employer", false), method: "CANCEL" as const, organizer: { email: previous.email } };
+    await sendMail({
+      to: previous.email,
+      subject: `Interview reassigned: ${candidateName} for ${booking.job.title}`,
+      text: `Your interview with ${candidateName} for ${booking.job.title} has been moved to ${interviewer.email}.`,
+      attachments: [attachment("employer", cancellation)],
+    });
+  }
+}
@@ -0,0 +1,19 @@
+import { storage } from "./storage";
+
+// Scheduled publishing and expiry. `jobs.active` is what listings filter on,
+// so a periodic sweep flips it when publishAt or expiresAt passes.
+const pollIntervalMs = Number(process.env.JOB_LIFECYCLE_POLL_MS || 60 * 1000);
+
+export async function syncJobLifecycle(): Promise<void> {
+  const { published, expired } = await storage.syncJobLifecycle(new Date());
+  if (published > 0 || expired > 0) {
+    console.log(`Job lifecycle: published ${published}, expired ${expired}`);
+  }
+}
+
+export async function startJobLifecycle(): Promise<void> {
+  await syncJobLifecycle();
+  setInterval(() => {
+    syncJobLifecycle().catch(err => console.error("Job lifecycle sync failed:", err));
+  }, pollIntervalMs).unref();
+}
@@ -0,0 +1,165 @@
+import OpenAI from "openai";
+import { createHash } from "crypto";
+
+// Chat and embedding backends used by screening and recommendations.
+// Pick one with LLM_PROVIDER:
+//   openai            - api.openai.com, needs OPENAI_API_KEY (or LLM_API_KEY)
+//   openai-compatible - any server speaking the OpenAI API at LLM_BASE_URL
+//                       (llama.cpp, Ollama, vLLM, ...)
+//   fixture           - deterministic canned responses, no network
+// If LLM_PROVIDER is unset we use openai when a key is present, otherwise fixture.
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export interface ChatOptions {
+  // Ask the model for a single JSON object
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  chat(messages: ChatMessage[], options?: ChatOptions): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface LLMConfig {
+  provider: "openai" | "openai-compatible" | "fixture";
+  apiKey?: string;
+  baseURL?: string;
+  chatModel: string;
+  embeddingModel: string;
+  temperature: number;
+  timeoutMs: number;
+}
+
+export function loadLLMConfig(env: NodeJS.ProcessEnv = process.env): LLMConfig {
+  const apiKey = env.LLM_API_KEY || env.OPENAI_API_KEY;
+  const provider = env.LLM_PROVIDER || (apiKey ? "openai" : "fixture");
+  if (provider !== "openai" && provider !== "openai-compatible" && provider !== "fixture") {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected "openai", "openai-compatible" or "fixture".`);
+  }
+
+  return {
+    provider,
+    apiKey,
+    baseURL: env.LLM_BASE_URL,
+    chatModel: env.LLM_CHAT_MODEL || (provider === "fixture" ? "fixture" : "gpt-4o"),
+    embeddingModel: env.LLM_EMBEDDING_MODEL || (provider === "fixture" ? "fixture" : "text-embedding-3-small"),
+    temperature: Number(env.LLM_TEMPERATURE ?? 0.2),
+    timeoutMs: Number(env.LLM_TIMEOUT_MS || 30000),
+  };
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+  private client: OpenAI;
+  private temperature: number;
+
+  constructor(config: LLMConfig) {
+    if (config.provider === "openai-compatible" && !config.baseURL) {
+      throw new Error("LLM_BASE_URL must be set for the openai-compatible provider");
+    }
+    if (config.provider === "openai" && !config.apiKey) {
+      throw new Error("OPENAI_API_KEY must be set for the openai provider");
+    }
+
+    this.name = config.provider;
+    this.chatModel = config.chatModel;
+    this.embeddingModel = config.embeddingModel;
+    this.temperature = config.temperature;
+    this.client = new OpenAI({
+      // Local servers usually ignore the key but the SDK insists on one
+      apiKey: config.apiKey || "not-needed",
+      baseURL: config.provider === "openai-compatible" ? config.baseURL : undefined,
+      timeout: config.timeoutMs,
+    });
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.chatModel,
+      messages,
+      temperature: this.temperature,
+      ...(options.json ? { response_format: { type: "json_object" as const } } : {}),
+    });
+    return completion.choices[0]?.message.content || "";
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.embeddingModel,
+      input: texts,
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding);
+  }
+}
+
+// Deterministic provider for tests and keyless development. Chat returns the
+// canned screening payload unless a responder is supplied; embeddings are
+// derived from a hash of the input so equal texts get equal vectors.
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture";
+  readonly chatModel: string;
+  readonly embeddingModel: string;
+
+  constructor(
+    config: Pick<LLMConfig, "chatModel" | "embeddingModel"> = { chatModel: "fixture", embeddingModel: "fixture" },
+    private respond: (messages: ChatMessage[], options: ChatOptions) => string = defaultFixtureResponse,
+    private dimensions = 64,
+  ) {
+    this.chatModel = config.chatModel;
+    this.embeddingModel = config.embeddingModel;
+  }
+
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    return this.respond(messages, options);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector: number[] = [];
+      let block = Buffer.alloc(0);
+      for (let i = 0; vector.length < this.dimensions; i++) {
+        if (i % 32 === 0) block = createHash("sha256").update(`${i}:${text}`).digest();
+        vector.push(block[i % 32] / 127.5 - 1);
+      }
+      return vector;
+    });
+  }
+}
+
+function defaultFixtureResponse(): string {
+  return JSON.stringify({
+    semanticScore: null,
+    summary: "Strong candidate with relevant experience.",
+    questions: ["Describe your experience with React.", "How do you handle state management?"],
+  });
+}
+
+export function createLLMProvider(config: LLMConfig = loadLLMConfig()): LLMProvider {
+  if (config.provider === "fixture") {
+    return new FixtureProvider(config);
+  }
+  return new OpenAIProvider(config);
+}
+
+let provider: LLMProvider | undefined;
+
+export function getLLMProvider(): LLMProvider {
+  if (!provider) provider = createLLMProvider();
+  return provider;
+}
+
+// Lets tests swap in a FixtureProvider with scripted responses
+export function setLLMProvider(next: LLMProvider | undefined) {
+  provider = next;
+}
@@ -0,0 +1,143 @@
+import nodemailer from "nodemailer";
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+
+// Outbound mail goes through a MailTransport. Pick one with MAIL_TRANSPORT:
+//   smtp    - SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_SECURE
+//   file    - writes each message as an .eml file under MAIL_DIR (default ./mail-outbox)
+//   console - logs messages to stdout (default)
+//   memory  - keeps messages in an array, for tests
+
+export type MailAttachment = {
+  filename: string;
+  content: string | Buffer;
+  contentType: string;
+};
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const defaultFrom = () => process.env.MAIL_FROM || "OneClickApply <no-reply@oneclickapply.local>";
+
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: defaultFrom(), ...message });
+  }
+}
+
+export class FileTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.eml`;
+    const headers = [`From: ${defaultFrom()}`, `To: ${message.to}`, `Subject: ${message.subject}`];
+    const attachments = message.attachments ?? [];
+    let body: string[];
+    if (attachments.length === 0) {
+      body = [...headers, `Content-Type: text/plain; charset=utf-8`, "", message.text];
+    } else {
+      const boundary = `=_${randomBytes(12).toString("hex")}`;
+      body = [
+        ...headers,
+        "MIME-Version: 1.0",
+        `Content-Type: multipart/mixed; boundary="${boundary}"`,
+        "",
+        `--${boundary}`,
+        `Content-Type: text/plain; charset=utf-8`,
+        "",
+        message.text,
+        ...attachments.flatMap(attachment => [
+          `--${boundary}`,
+          `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+          `Content-Disposition: attachment; filename="${attachment.filename}"`,
+          "Content-Transfer-Encoding: base64",
+          "",
+          Buffer.from(attachment.content).toString("base64").replace(/.{76}/g, "$&\r\n"),
+        ]),
+        `--${boundary}--`,
+      ];
+    }
+    await fs.promises.writeFile(path.join(this.dir, name), body.join("\r\n"));
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    const attachments = message.attachments?.length ? `\n[mail] Attachments: ${message.attachments.map(a => a.filename).join(", ")}` : "";
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}${attachments}\n${message.text}`);
+  }
+}
+
+export class InMemoryTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+  }
+}
+
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const kind = env.MAIL_TRANSPORT || "console";
+  switch (kind) {
+    case "smtp":
+      if (!env.SMTP_HOST) throw new Error("SMTP_HOST must be set when MAIL_TRANSPORT=smtp");
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT || 587),
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      });
+    case "file":
+      return new FileTransport(env.MAIL_DIR || "mail-outbox");
+    case "console":
+      return new ConsoleTransport();
+    case "memory":
+      return new InMemoryTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}". Expected "smtp", "file", "console" or "memory".`);
+  }
+}
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) transport = createMailTransport();
+  return transport;
+}
+
+// Lets tests install an InMemoryTransport and inspect what was sent
+export function setMailTransport(next: MailTransport | undefined) {
+  transport = next;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+export function appUrl(pathname: string): string {
+  const base = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+  return `${base}${pathname}`;
+}
@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import { sendMail, appUrl } from "./mail";
+import { candidateLabel, isIdentityHiddenFor, redactThread } from "./blindReview";
+import {
+  hasEmployerPermission, type Application, type ApplicationMessage, type Job, type MessageSenderRole, type MessageTemplate,
+  type MessageTemplatePlaceholder, type PublicUser,
+} from "@shared/schema";
+
+// Per-application threads between a seeker and the employer's team. Every new
+// message emails the other side; unread counts come from the read receipts.
+
+type Thread = Application & { job: Job; seeker: PublicUser };
+
+export async function templateValues(thread: Thread): Promise<Record<MessageTemplatePlaceholder, string>> {
+  const [profile, company] = await Promise.all([
+    storage.getSeekerProfile(thread.seekerId),
+    storage.getCompany(thread.job.companyId),
+  ]);
+  return {
+    candidateName: profile?.name ?? thread.seeker.email,
+    jobTitle: thread.job.title,
+    companyName: company?.name ?? "",
+  };
+}
+
+// Placeholders are checked when the template is saved, so anything else is left as written
+export function renderTemplate<Placeholder extends string>(body: string, values: Record<Placeholder, string>): string {
+  return body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name as Placeholder] ?? match);
+}
+
+export async function sendApplicationMessage(
+  thread: Thread,
+  sender: { id: number; role: MessageSenderRole },
+  content: { body?: string; template?: MessageTemplate },
+): Promise<ApplicationMessage> {
+  const body = content.body ?? renderTemplate(content.template!.body, await templateValues(thread));
+  const message = await storage.createApplicationMessage({
+    applicationId: thread.id,
+    senderId: sender.id,
+    senderRole: sender.role,
+    body,
+    templateId: content.template?.id ?? null,
+  });
+
+  notifyRecipients(thread, message).catch(err => console.error(`Notifying about message ${message.id} failed:`, err));
+  return message;
+}
+
+// The seeker, or everyone on the team who can answer
+async function notifyRecipients(thread: Thread, message: ApplicationMessage): Promise<void> {
+  const { candidateName, jobTitle, companyName } = await templateValues(thread);
+
+  if (message.senderRole === "employer") {
+    await sendMail({
+      to: thread.seeker.email,
+      subject: `New message from ${companyName} about ${jobTitle}`,
+      text: `${companyName} sent you a message about your application for ${jobTitle}:\n\n${message.body}\n\nReply here:\n${appUrl("/seeker/applications")}`,
+    });
+    return;
+  }
+
+  const members = await storage.listCompanyMembers(thread.job.companyId);
+  const link = appUrl(`/employer/jobs/${thread.job.id}`);
+  const hidden = await isIdentityHiddenFor(thread);
+  const sender = hidden ? candidateLabel(thread.id) : candidateName;
+  // Redacted the same way the team's thread view is
+  const [shown] = hidden ? await redactThread([message], thread) : [message];
+  for (const member of members.filter(m => hasEmployerPermission(m.role, "messageCandidates"))) {
+    await sendMail({
+      to: member.user.email,
+      subject: `${sender} sent a message about ${jobTitle}`,
+      text: `${sender} sent a message about their application for ${jobTitle}:\n\n${shown.body}\n\nReply here:\n${link}`,
+    });
+  }
+}
@@ -0,0 +1,219 @@
+import { storage } from "./storage";
+import { sendMail, appUrl } from "./mail";
+import { renderTemplate } from "./messages";
+import { renderTextPdf } from "./pdf";
+import {
+  hasEmployerPermission, type Application, type EmployerPermission, type Job, type Offer, type OfferCounter,
+  type OfferLetterPlaceholder, type OfferResponse, type OfferStatus, type PublicUser,
+} from "@shared/schema";
+
+// Offers on an application. Each revision is a new version that an owner has
+// to approve before it goes out. Sending renders the letter from the chosen
+// template and emails it to the seeker as a PDF; the seeker then accepts,
+// declines or counters, and accepting moves the application to hired.
+
+type OfferApplication = Application & { job: Job; seeker: PublicUser };
+
+// Versions the hiring team can still change or withdraw
+export const openOfferStatuses: OfferStatus[] = ["draft", "pending_approval", "approved", "sent", "countered"];
+
+export const defaultOfferLetter = `Dear {{candidateName}},
+
+We are delighted to offer you the position of {{jobTitle}} at {{companyName}}.
+
+Your starting salary will be {{salary}} per year, and your first day will be {{startDate}}.
+
+Equity: {{equity}}
+
+This offer is open until {{expiresAt}}. We look forward to hearing from you.
+
+Sincerely,
+{{companyName}}`;
+
+// "sent" offers past their expiry read as expired, whether or not anyone has
+// tried to answer them yet
+export function effectiveOffer(offer: Offer, now = new Date()): Offer {
+  return offer.status === "sent" && offer.expiresAt <= now ? { ...offer, status: "expired" } : offer;
+}
+
+// Seekers see the versions that were sent to them, without the approval trail
+export function publicOffer({ approvedBy: _approvedBy, approvalNote: _approvalNote, createdBy: _createdBy, ...offer }: Offer) {
+  return offer;
+}
+
+export function isSentToSeeker(offer: Offer): boolean {
+  return offer.sentAt !== null;
+}
+
+function formatSalary(salary: number, currency: string): string {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency, maximumFractionDigits: 0 }).format(salary);
+}
+
+function formatDate(date: Date | string): string {
+  const value = typeof date === "string" ? new Date(`${date}T00:00:00Z`) : date;
+  return new Intl.DateTimeFormat("en-US", { dateStyle: "long", timeZone: "UTC" }).format(value);
+}
+
+async function letterValues(application: OfferApplication, offer: Offer): Promise<Record<OfferLetterPlaceholder, string>> {
+  const [profile, company] = await Promise.all([
+    storage.getSeekerProfile(application.seekerId),
+    storage.getCompany(application.job.companyId),
+  ]);
+  return {
+    candidateName: profile?.name ?? application.seeker.email,
+    jobTitle: application.job.title,
+    companyName: company?.name ?? "",
+    salary: formatSalary(offer.salary, offer.currency),
+    startDate: formatDate(offer.startDate),
+    equity: offer.equity ?? "None",
+    expiresAt: formatDate(offer.expiresAt),
+  };
+}
+
+// The letter as sent, or a preview from the offer's current terms
+export async function offerLetterText(application: OfferApplication, offer: Offer): Promise<string> {
+  if (offer.letter !== null) return offer.letter;
+  const template = offer.templateId !== null ? await storage.getOfferTemplate(offer.templateId) : undefined;
+  return renderTemplate(template?.body ?? defaultOfferLetter, await letterValues(application, offer));
+}
+
+export function offerLetterTitle(application: OfferApplication, offer: Offer): string {
+  return `Offer letter: ${application.job.title} (version ${offer.version})`;
+}
+
+export function offerLetterHtml(letter: string, title: string): string {
+  const paragraphs = letter.split(/\r?\n\s*\r?\n/)
+    .map(paragraph => `<p>${escapeHtml(paragraph.trim()).replace(/\r?\n/g, "<br>")}</p>`)
+    .join("\n");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>body { font-family: Helvetica, Arial, sans-serif; max-width: 40em; margin: 3em auto; line-height: 1.5; }</style>
+</head>
+<body>
+${paragraphs}
+</body>
+</html>
+`;
+}
+
+export function offerLetterPdf(letter: string, title: string): Buffer {
+  return renderTextPdf(letter.split(/\r?\n\s*\r?\n/).map(paragraph => paragraph.trim()), { title });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export async function submitOfferForApproval(application: OfferApplication, offer: Offer): Promise<Offer | undefined> {
+  const submitted = await storage.updateOffer(offer.id, ["draft"], { status: "pending_approval", approvalNote: null });
+  if (submitted) {
+    notifyTeam(application, "approveOffers", `Offer waiting for approval: ${application.job.title}`,
+      `Version ${offer.version} of an offer for ${application.job.title} needs an owner's approval before it can be sent.`)
+      .catch(err => console.error(`Notifying approvers about offer ${offer.id} failed:`, err));
+  }
+  return submitted;
+}
+
+// Approving clears the way to send; declining sends the offer back to draft with the owner's note
+export async function decideOfferApproval(application: OfferApplication, offer: Offer, approverId: number, approve: boolean, note?: string): Promise<Offer | undefined> {
+  const decided = await storage.updateOffer(offer.id, ["pending_approval"], approve
+    ? { status: "approved", approvedBy: approverId, approvedAt: new Date(), approvalNote: note ?? null }
+    : { status: "draft", approvalNote: note ?? null });
+  if (decided) {
+    const outcome = approve ? "approved" : "sent back to draft";
+    notifyTeam(application, "makeOffers", `Offer ${outcome}: ${application.job.title}`,
+      `Version ${offer.version} of the offer for ${application.job.title} was ${outcome}.${note ? `\n\n${note}` : ""}`)
+      .catch(err => console.error(`Notifying about the approval of offer ${offer.id} failed:`, err));
+  }
+  return decided;
+}
+
+// Freezes the letter, supersedes the version the seeker had and moves the
+// application to the offer stage. Returns undefined if the offer moved on.
+export async function sendOffer(application: OfferApplication, offer: Offer, actorId: number): Promise<Offer | undefined> {
+  const letter = await offerLetterText(application, offer);
+  const sent = await storage.updateOffer(offer.id, ["approved"], { status: "sent", letter, sentAt: new Date() });
+  if (!sent) return undefined;
+
+  const earlier = (await storage.listOffers([application.id])).filter(o => o.id !== sent.id);
+  for (const previous of earlier) {
+    await storage.updateOffer(previous.id, ["sent", "countered"], { status: "superseded" });
+  }
+  if (application.status === "interview") {
+    await storage.updateApplicationStatus(application.id, "offer", { from: "interview", actorId, reason: `Offer version ${sent.version} sent` });
+  }
+
+  emailOffer(application, sent).catch(err => console.error(`Emailing offer ${sent.id} failed:`, err));
+  return sent;
+}
+
+async function emailOffer(application: OfferApplication, offer: Offer) {
+  const company = await storage.getCompany(application.job.companyId);
+  const title = offerLetterTitle(application, offer);
+  await sendMail({
+    to: application.seeker.email,
+    subject: `Your offer for ${application.job.title} at ${company?.name ?? ""}`.trim(),
+    text: `Your offer letter for ${application.job.title} is attached. It's open until ${formatDate(offer.expiresAt)}.\n\nAccept, decline or counter it here:\n${appUrl("/seeker/applications")}`,
+    attachments: [{ filename: "offer-letter.pdf", content: offerLetterPdf(offer.letter ?? "", title), contentType: "application/pdf" }],
+  });
+}
+
+// Returns undefined if the offer is no longer waiting for an answer
+export async function respondToOffer(
+  application: OfferApplication,
+  offer: Offer,
+  response: OfferResponse,
+  details: { message?: string; counter?: OfferCounter },
+): Promise<Offer | undefined> {
+  const status: OfferStatus = response === "accept" ? "accepted" : response === "decline" ? "declined" : "countered";
+  const answered = await storage.updateOffer(offer.id, ["sent"], {
+    status,
+    respondedAt: new Date(),
+    responseMessage: details.message ?? null,
+    counter: details.counter ?? null,
+  });
+  if (!answered) return undefined;
+
+  if (status === "accepted" && application.status === "offer") {
+    await storage.updateApplicationStatus(application.id, "hired", { from: "offer", actorId: application.seekerId, reason: `Accepted offer version ${offer.version}` });
+  }
+
+  const summary = status === "countered" ? counterSummary(offer, details.counter) : "";
+  notifyTeam(application, "makeOffers", `Offer ${status}: ${application.job.title}`,
+    `The candidate ${status} version ${offer.version} of the offer for ${application.job.title}.${summary}${details.message ? `\n\n${details.message}` : ""}`)
+    .catch(err => console.error(`Notifying about the response to offer ${offer.id} failed:`, err));
+  return answered;
+}
+
+function counterSummary(offer: Offer, counter?: OfferCounter): string {
+  if (!counter) return "";
+  const lines = [
+    counter.salary !== null ? `Salary: ${formatSalary(counter.salary, offer.currency)} (offered ${formatSalary(offer.salary, offer.currency)})` : null,
+    counter.startDate !== null ? `Start date: ${formatDate(counter.startDate)} (offered ${formatDate(offer.startDate)})` : null,
+    counter.equity !== null ? `Equity: ${counter.equity} (offered ${offer.equity ?? "none"})` : null,
+  ].filter((line): line is string => line !== null);
+  return lines.length > 0 ? `\n\n${lines.join("\n")}` : "";
+}
+
+export async function withdrawOffer(application: OfferApplication, offer: Offer): Promise<Offer | undefined> {
+  const withdrawn = await storage.updateOffer(offer.id, openOfferStatuses, { status: "withdrawn" });
+  if (withdrawn && isSentToSeeker(withdrawn)) {
+    sendMail({
+      to: application.seeker.email,
+      subject: `Offer withdrawn: ${application.job.title}`,
+      text: `The offer for ${application.job.title} has been withdrawn.\n\nSee your applications:\n${appUrl("/seeker/applications")}`,
+    }).catch(err => console.error(`Emailing the withdrawal of offer ${offer.id} failed:`, err));
+  }
+  return withdrawn;
+}
+
+async function notifyTeam(application: OfferApplication, permission: EmployerPermission, subject: string, text: string) {
+  const members = await storage.listCompanyMembers(application.job.companyId);
+  const link = appUrl(`/employer/jobs/${application.job.id}`);
+  for (const member of members.filter(m => hasEmployerPermission(m.role, permission))) {
+    await sendMail({ to: member.user.email, subject, text: `${text}\n\nSee the application:\n${link}` });
+  }
+}
@@ -0,0 +1,58 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+
+// Password hashes are stored as "scrypt$N$r$p$<salt>$<hash>" (base64 salt and
+// hash) so the cost parameters can be raised later without breaking old rows.
+// Rows without the prefix are legacy plaintext and get rehashed on next login.
+
+const PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const params = { N: 16384, r: 8, p: 1 };
+
+function derive(password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    // maxmem must cover 128 * N * r bytes or Node rejects larger cost settings
+    scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 256 * N * r }, (err, key) => {
+      if (err) reject(err);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await derive(password, salt, params.N, params.r, params.p);
+  return [PREFIX, params.N, params.r, params.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${PREFIX}$`);
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!isPasswordHash(stored)) {
+    // Legacy plaintext row. Hash both sides so the comparison is constant-time
+    // regardless of length.
+    const valid = timingSafeEqual(sha256(password), sha256(stored));
+    return { valid, needsRehash: valid };
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split("$");
+  const expected = Buffer.from(hashB64 || "", "base64");
+  const N = Number(n), R = Number(r), P = Number(p);
+  if (!expected.length || !Number.isInteger(N) || !Number.isInteger(R) || !Number.isInteger(P)) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const actual = await derive(password, Buffer.from(saltB64, "base64"), N, R, P);
+  const valid = actual.length === expected.length && timingSafeEqual(actual, expected);
+  const outdated = N !== params.N || R !== params.r || P !== params.p;
+  return { valid, needsRehash: valid && outdated };
+}
+
+function sha256(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
@@ -0,0 +1,118 @@
+// Minimal PDF writer for plain-text documents such as offer letters: one
+// Helvetica face on US Letter pages, with word-wrapped paragraphs. Text is
+// encoded as WinAnsi, so characters it can't represent come out as "?".
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const FONT_SIZE = 11;
+const LEADING = 15;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+
+// Helvetica advance widths for " " through "~", in 1/1000 em
+const asciiWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Punctuation WinAnsi has outside Latin-1
+const winAnsiExtras: Record<string, number> = {
+  "€": 0x80, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97,
+};
+
+export function renderTextPdf(paragraphs: string[], options: { title?: string } = {}): Buffer {
+  const lines = paragraphs.flatMap((paragraph, i) => [
+    ...(i > 0 ? [""] : []),
+    ...paragraph.split(/\r?\n/).flatMap(wrap),
+  ]);
+
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  if (pages.length === 0) pages.push([]);
+
+  // 1 catalog, 2 page tree, 3 font, 4 info, then a page and its content per page
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    `<< /Producer (OneClickApply)${options.title ? ` /Title (${escapeString(options.title)})` : ""} >>`,
+  ];
+  for (const [i, pageLines] of Array.from(pages.entries())) {
+    const content = [
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN - FONT_SIZE} Td`,
+      ...pageLines.map(line => `(${escapeString(line)}) Tj T*`),
+      "ET",
+    ].join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    );
+  }
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (const [i, body] of Array.from(objects.entries())) {
+    offsets.push(Buffer.byteLength(out, "latin1"));
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+// Breaks a line of text at spaces so it fits between the margins. Words wider
+// than the page are split.
+function wrap(text: string): string[] {
+  const maxWidth = PAGE_WIDTH - 2 * MARGIN;
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/ +/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = "";
+    for (const char of Array.from(word)) {
+      if (current && textWidth(current + char) > maxWidth) {
+        lines.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  }
+  lines.push(current);
+  return lines;
+}
+
+function textWidth(text: string): number {
+  let width = 0;
+  for (const char of Array.from(text)) {
+    const code = char.charCodeAt(0);
+    width += code >= 32 && code <= 126 ? asciiWidths[code - 32] : 556;
+  }
+  return width * FONT_SIZE / 1000;
+}
+
+// A PDF string literal's contents, as WinAnsi characters
+function escapeString(text: string): string {
+  return Array.from(text).map(char => {
+    const code = char.codePointAt(0)!;
+    if (char === "\\" || char === "(" || char === ")") return `\\${char}`;
+    if (code >= 32 && code <= 126) return char;
+    if (code >= 160 && code <= 255) return String.fromCharCode(code);
+    if (winAnsiExtras[char] !== undefined) return String.fromCharCode(winAnsiExtras[char]);
+    return "?";
+  }).join("");
+}
@@ -0,0 +1,77 @@
+import type { AnswerValue, JobQuestion, KnockoutRule } from "@shared/schema";
+
+// Apply-time screening questions: answer validation and knockout rules.
+
+export type SubmittedAnswer = { questionId: number; value: AnswerValue };
+
+// Returns a message for the first problem, or null when the answers are usable
+export function validateAnswers(questions: JobQuestion[], answers: SubmittedAnswer[]): string | null {
+  const byId = new Map(questions.map(q => [q.id, q]));
+  const seen = new Set<number>();
+
+  for (const answer of answers) {
+    const question = byId.get(answer.questionId);
+    if (!question) return `Unknown question ${answer.questionId}`;
+    if (seen.has(question.id)) return `Question "${question.prompt}" was answered twice`;
+    seen.add(question.id);
+
+    const problem = checkValue(question, answer.value);
+    if (problem) return `Question "${question.prompt}": ${problem}`;
+  }
+
+  const missing = questions.find(q => q.required && !seen.has(q.id));
+  if (missing) return `Question "${missing.prompt}" is required`;
+  return null;
+}
+
+function checkValue(question: JobQuestion, value: AnswerValue): string | null {
+  switch (question.type) {
+    case "text":
+      if (typeof value !== "string") return "expected text";
+      if (question.required && value.trim() === "") return "an answer is required";
+      return null;
+    case "yes_no":
+      return typeof value === "boolean" ? null : "expected yes or no";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value) ? null : "expected a number";
+    case "choice":
+      return typeof value === "string" && (question.options ?? []).includes(value) ? null : "pick one of the listed options";
+  }
+}
+
+// The first question whose answer trips its knockout rule, with the reason to record
+export function findKnockout(questions: JobQuestion[], answers: SubmittedAnswer[]): { question: JobQuestion; reason: string } | undefined {
+  for (const question of questions) {
+    const rule = question.knockout as KnockoutRule | null;
+    const answer = answers.find(a => a.questionId === question.id);
+    if (!rule || !answer || !triggers(rule, answer.value)) continue;
+    return {
+      question,
+      reason: rule.reason || `Knockout: "${question.prompt}" answered ${formatAnswer(answer.value)}`,
+    };
+  }
+  return undefined;
+}
+
+function triggers(rule: KnockoutRule, value: AnswerValue): boolean {
+  switch (rule.rejectIf) {
+    case "equals":
+      return value === rule.value;
+    case "lessThan":
+      return typeof value === "number" && value < rule.value;
+    case "greaterThan":
+      return typeof value === "number" && value > rule.value;
+    case "oneOf":
+      return typeof value === "string" && rule.values.includes(value);
+  }
+}
+
+export function formatAnswer(value: AnswerValue): string {
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+// Applicants see the questions but not what gets them rejected
+export function publicQuestion({ knockout: _knockout, ...question }: JobQuestion) {
+  return question;
+}
@@ -0,0 +1,139 @@
+import { storage } from "./storage";
+import { processApplicationAI } from "./screening";
+import type { ScreeningJob } from "@shared/schema";
+
+// Postgres-backed queue for AI screening. Jobs survive restarts, are retried
+// with exponential backoff and end up "dead" once maxAttempts is exhausted.
+
+// A setting that isn't a positive number falls back to the default
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const config = {
+  concurrency: envNumber("SCREENING_CONCURRENCY", 2),
+  maxAttempts: envNumber("SCREENING_MAX_ATTEMPTS", 5),
+  backoffBaseMs: envNumber("SCREENING_BACKOFF_MS", 5000),
+  backoffMaxMs: 60 * 60 * 1000,
+  pollIntervalMs: envNumber("SCREENING_POLL_MS", 1000),
+  // A job still "processing" after this long belongs to a worker that died
+  lockTimeoutMs: envNumber("SCREENING_LOCK_TIMEOUT_MS", 5 * 60 * 1000),
+};
+
+let inFlight = 0;
+let timer: NodeJS.Timeout | undefined;
+
+export async function enqueueScreening(applicationId: number): Promise<ScreeningJob> {
+  const active = await storage.getActiveScreeningJob(applicationId);
+  if (active) return active;
+
+  const job = await storage.enqueueScreeningJob({ applicationId, maxAttempts: config.maxAttempts });
+  const screening = await storage.getScreeningResult(applicationId);
+  if (screening) {
+    await storage.updateScreeningResult(screening.id, { aiStatus: "pending" });
+  }
+  wake();
+  return job;
+}
+
+// Puts a dead-lettered job back on the queue with a fresh attempt budget.
+// Undefined if the application already has a job queued or running
+export async function retryScreeningJob(id: number): Promise<ScreeningJob | undefined> {
+  const job = await storage.retryDeadScreeningJob(id);
+  if (!job) return undefined;
+  const screening = await storage.getScreeningResult(job.applicationId);
+  if (screening) {
+    await storage.updateScreeningResult(screening.id, { aiStatus: "pending" });
+  }
+  wake();
+  return job;
+}
+
+export function backoffDelay(attempts: number): number {
+  return Math.min(config.backoffBaseMs * 2 ** Math.max(attempts - 1, 0), config.backoffMaxMs);
+}
+
+export async function recoverStuckScreenings(): Promise<void> {
+  const lockedBefore = new Date(Date.now() - config.lockTimeoutMs);
+  const stale = await storage.requeueStaleScreeningJobs(lockedBefore);
+  const { dead } = stale;
+  let requeued = stale.requeued;
+  for (const job of dead) {
+    const screening = await storage.getScreeningResult(job.applicationId);
+    if (screening) await storage.updateScreeningResult(screening.id, { aiStatus: "failed" });
+  }
+
+  // Results left "processing" by the old fire-and-forget path have no queue row
+  const orphaned = await storage.listScreeningResultsByStatus("processing");
+  for (const result of orphaned) {
+    if (!(await storage.getActiveScreeningJob(result.applicationId))) {
+      await enqueueScreening(result.applicationId);
+      requeued++;
+    }
+  }
+
+  if (requeued > 0) {
+    console.log(`Recovered ${requeued} stuck screening job(s)`);
+  }
+  if (dead.length > 0) {
+    console.error(`Gave up on ${dead.length} screening job(s) that stalled on their last attempt`);
+  }
+}
+
+export async function startScreeningWorker(): Promise<void> {
+  await recoverStuckScreenings();
+  timer = setInterval(() => {
+    poll().catch(err => console.error("Screening queue poll failed:", err));
+  }, config.pollIntervalMs);
+  timer.unref();
+
+  // Periodically reclaim jobs from workers that died mid-run
+  setInterval(() => {
+    recoverStuckScreenings().catch(err => console.error("Screening recovery failed:", err));
+  }, config.lockTimeoutMs).unref();
+}
+
+function wake() {
+  if (!timer) return;
+  setImmediate(() => poll().catch(err => console.error("Screening queue poll failed:", err)));
+}
+
+async function poll() {
+  const free = config.concurrency - inFlight;
+  if (free <= 0) return;
+
+  const claimed = await storage.claimScreeningJobs(free);
+  for (const job of claimed) {
+    inFlight++;
+    run(job)
+      .catch(err => console.error(`Screening job ${job.id} could not be settled:`, err))
+      .finally(() => {
+        inFlight--;
+      });
+  }
+}
+
+async function run(job: ScreeningJob) {
+  try {
+    await processApplicationAI(job.applicationId);
+    await storage.updateScreeningJob(job.id, { status: "complete", lockedAt: null, lastError: null });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`AI Processing failed for application ${job.applicationId} (attempt ${job.attempts}):`, err);
+
+    const screening = await storage.getScreeningResult(job.applicationId);
+    if (job.attempts >= job.maxAttempts) {
+      await storage.updateScreeningJob(job.id, { status: "dead", lockedAt: null, lastError: message });
+      if (screening) await storage.updateScreeningResult(screening.id, { aiStatus: "failed" });
+    } else {
+      await storage.updateScreeningJob(job.id, {
+        status: "queued",
+        lockedAt: null,
+        lastError: message,
+        runAt: new Date(Date.now() + backoffDelay(job.attempts)),
+      });
+      if (screening) await storage.updateScreeningResult(screening.id, { aiStatus: "pending" });
+    }
+  }
+}
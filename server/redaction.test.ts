@@ -0,0 +1,77 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { piiKinds, type PiiKind } from "@shared/schema";
+import { addRedactionCounts, emptyRedactionCounts, redactPii } from "./redaction";
+
+const known = { names: ["Jane Doe"], locations: ["Portland, OR"] };
+
+const redacted: [PiiKind, string, string][] = [
+  ["name", "Jane Doe led the team", "[name] led the team"],
+  ["name", "Reviewed by Jane; Doe approved", "Reviewed by [name]; [name] approved"],
+  ["email", "Reach me at jane.doe+jobs@mail.example.com", "Reach me at [email]"],
+  ["phone", "Call (503) 555-0142 today", "Call [phone] today"],
+  ["phone", "Cell: 503.555.0142", "Cell: [phone]"],
+  ["phone", "+44 20 7946 0958", "[phone]"],
+  ["link", "See https://janedoe.dev/work", "See [link]"],
+  ["link", "linkedin.com/in/janedoe and www.example.org", "[link] and [link]"],
+  ["address", "123 Main Street, Apt 4B", "[address]"],
+  ["address", "Lives at 42 Elm Ave", "Lives at [address]"],
+  ["address", "Mail: PO Box 991", "Mail: [address]"],
+  ["address", "Salem, OR 97301", "Salem, [address]"],
+  ["address", "Based in Portland, OR 97211", "Based in [address]"],
+  ["dateOfBirth", "Date of birth: 12/03/1990", "[date of birth]"],
+  ["dateOfBirth", "Born on March 3rd, 1990", "[date of birth]"],
+  ["dateOfBirth", "born in 1990", "[date of birth]"],
+  ["age", "Age: 34", "[age]"],
+  ["age", "A 34-year-old engineer", "A [age] engineer"],
+  ["gender", "Gender: female", "[gender]"],
+  ["gender", "Pronouns: she/her", "[gender]"],
+  ["gender", "Mr. Smith, back from paternity leave", "[gender] Smith, back from [gender] leave"],
+];
+
+const untouched = [
+  "Experience 2015 2018 2020",
+  "Worked there in 2015, 2018 and 2020",
+  "Upgraded Node from 18.17.1 to 20.11.0",
+  "Shipped v2.10.4 and 1.2.3",
+  "Pinned the build to 2024.10.1234.5",
+  "Migrated 3 Legacy Systems Way ahead of schedule",
+  "Migrated 3,000,000 records and led 12 people",
+  "Senior engineer 2019 - 2024",
+  "I will lead the migration",
+];
+
+describe("redactPii", () => {
+  for (const [kind, text, expected] of redacted) {
+    it(`redacts ${kind} in "${text}"`, () => {
+      const result = redactPii(text, known);
+      assert.equal(result.text, expected);
+      assert.ok(result.counts[kind] > 0);
+      for (const other of piiKinds.filter(k => k !== kind)) assert.equal(result.counts[other], 0, other);
+    });
+  }
+
+  for (const text of untouched) {
+    it(`leaves "${text}" alone`, () => {
+      const result = redactPii(text, known);
+      assert.equal(result.text, text);
+      assert.deepEqual(result.counts, emptyRedactionCounts());
+    });
+  }
+
+  it("puts the replacement in for the full name only", () => {
+    const { text } = redactPii("Jane Doe wrote this. Thanks, Jane", known, { nameReplacement: "Candidate K4VVR" });
+    assert.equal(text, "Candidate K4VVR wrote this. Thanks, [name]");
+  });
+
+  it("matches names with letters outside ASCII as whole words", () => {
+    assert.equal(redactPii("Zoë Kravitz and Zoëtrope", { names: ["Zoë Kravitz"] }).text, "[name] and Zoëtrope");
+  });
+});
+
+describe("addRedactionCounts", () => {
+  it("adds each kind", () => {
+    const one = { ...emptyRedactionCounts(), email: 1, phone: 2 };
+    assert.deepEqual(addRedactionCounts(one, one), { ...emptyRedactionCounts(), email: 2, phone: 4 });
+  });
+});
@@ -0,0 +1,111 @@
+import { piiKinds, type PiiKind, type RedactionCounts } from "@shared/schema";
+
+// Strips personal details from candidate text before it goes to an LLM:
+// names, emails, phone numbers, profile links, street addresses, dates of
+// birth, and gender or age indicators. Everything here is a pure function of
+// its input. Patterns catch what resumes usually contain; the candidate's own
+// name and location are passed in, since no pattern can tell a name from a word.
+
+export type KnownIdentity = {
+  names?: (string | null | undefined)[];
+  locations?: (string | null | undefined)[];
+};
+
+export type Redaction = { text: string; counts: RedactionCounts };
+
+type Rule = { kind: PiiKind; pattern: RegExp; replacement: string };
+
+const month = "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)";
+const fullDate = `(?:\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}|\\d{4}-\\d{2}-\\d{2}|${month}\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+${month}\\.?,?\\s+\\d{4})`;
+const streetSuffix = "(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Circle|Cir|Highway|Hwy|Square|Sq)";
+
+// In order: dates of birth go before phone numbers would eat their digits, and
+// emails and links before names would split them
+const rules: Rule[] = [
+  {
+    kind: "dateOfBirth",
+    pattern: new RegExp(`\\b(?:(?:date\\s+of\\s+birth|d\\.?o\\.?b\\.?|birth\\s*date|born(?:\\s+on)?)\\s*[:-]?\\s*${fullDate}|born\\s+in\\s+\\d{4})`, "gi"),
+    replacement: "[date of birth]",
+  },
+  { kind: "email", pattern: /[\w.%+-]+@[\w-]+(?:\.[\w-]+)+/g, replacement: "[email]" },
+  { kind: "link", pattern: /\b(?:https?:\/\/|www\.)\S+|\b(?:linkedin|github|gitlab|twitter)\.com\/\S+/gi, replacement: "[link]" },
+  // Not a run of years like "2015 2018 2020", or part of a dotted version number
+  {
+    kind: "phone",
+    pattern: /(?<![\w.])(?!(?:(?:19|20)\d{2}[\s.,-]+){2}(?:19|20)\d{2}\b)(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\b\d{2,4}[\s.-])\d{3,4}[\s.-]?\d{3,4}\b(?!\.\d)/g,
+    replacement: "[phone]",
+  },
+  // The house number has to start a line or follow punctuation or a word like
+  // "at", or "Migrated 3 Legacy Systems Way" would be an address
+  {
+    kind: "address",
+    pattern: new RegExp(`(?<=(?:^|[\\n,:;|•(])\\s*|\\b(?:[Aa]t|[Oo]n|[Tt]o|[Ff]rom|[Aa]ddress)\\s+)\\d{1,6}[A-Za-z]?\\s+(?:[A-Z][\\w'.-]*\\s+){1,4}${streetSuffix}\\b\\.?(?:,?\\s*(?:Apt|Apartment|Suite|Ste|Unit|#)\\.?\\s*[\\w-]+)?`, "g"),
+    replacement: "[address]",
+  },
+  { kind: "address", pattern: /\bP\.?\s?O\.?\s+Box\s+\d+/gi, replacement: "[address]" },
+  { kind: "address", pattern: /\b[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g, replacement: "[address]" }, // US state and ZIP
+  {
+    kind: "age",
+    pattern: /\b(?:aged?\s*[:-]?\s*\d{1,3}\b|\d{1,3}[\s-]*(?:years?|yrs?)[\s-]*old\b|\d{1,3}\s*y\/o\b)/gi,
+    replacement: "[age]",
+  },
+  {
+    kind: "gender",
+    pattern: /\b(?:gender|sex)\s*[:-]\s*(?:male|female|man|woman|non-?binary|other|m|f)\b|\b(?:pronouns?\s*[:-]?\s*)?(?:she\/her|he\/him|they\/them|ze\/hir|xe\/xem)(?:\/(?:hers|his|theirs|hirs|xyrs))?\b/gi,
+    replacement: "[gender]",
+  },
+  { kind: "gender", pattern: /\b(?:Mr|Mrs|Ms|Mx)\.|\bMiss(?=\s+[A-Z])/g, replacement: "[gender]" },
+  { kind: "gender", pattern: /\b(?:mother|father|wife|husband|maternity|paternity)\b/gi, replacement: "[gender]" },
+];
+
+export function emptyRedactionCounts(): RedactionCounts {
+  return Object.fromEntries(piiKinds.map(kind => [kind, 0])) as RedactionCounts;
+}
+
+export function addRedactionCounts(a: RedactionCounts, b: RedactionCounts): RedactionCounts {
+  return Object.fromEntries(piiKinds.map(kind => [kind, a[kind] + b[kind]])) as RedactionCounts;
+}
+
+// Matches the phrase as whole words. \b only knows ASCII word characters,
+// which would split names like "Zoë", so the boundary is captured instead.
+function phrasePattern(phrase: string, flags: string, suffix = ""): RegExp {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}${suffix}(?=$|[^\\p{L}\\p{N}])`, `${flags}u`);
+}
+
+// nameReplacement stands in for the candidate's full name, e.g. a blind-review
+// label. First or last names on their own become "[name]".
+export function redactPii(text: string, known: KnownIdentity = {}, options: { nameReplacement?: string } = {}): Redaction {
+  const counts = emptyRedactionCounts();
+  let redacted = text;
+
+  const replacePhrase = (kind: PiiKind, pattern: RegExp, replacement: string) => {
+    redacted = redacted.replace(pattern, (_match, boundary: string) => {
+      counts[kind]++;
+      return boundary + replacement;
+    });
+  };
+
+  // Before the ZIP code rule splits "Portland, OR 97211"
+  for (const location of known.locations ?? []) {
+    if (location && location.trim().length > 2) {
+      replacePhrase("address", phrasePattern(location.trim(), "gi", "(?:\\s+\\d{5}(?:-\\d{4})?)?"), "[address]");
+    }
+  }
+  for (const rule of rules) {
+    redacted = redacted.replace(rule.pattern, () => {
+      counts[rule.kind]++;
+      return rule.replacement;
+    });
+  }
+  for (const name of known.names ?? []) {
+    if (!name?.trim()) continue;
+    replacePhrase("name", phrasePattern(name.trim(), "gi"), options.nameReplacement ?? "[name]");
+    // Parts are matched as capitalized in the name, so "Will" doesn't take out "will"
+    for (const part of name.trim().split(/\s+/).filter(part => part.length > 1)) {
+      replacePhrase("name", phrasePattern(part, "g"), "[name]");
+    }
+  }
+
+  return { text: redacted, counts };
+}
@@ -0,0 +1,274 @@
+import path from "path";
+import { inflateRawSync } from "zlib";
+import { PDFParse, PasswordException, InvalidPDFException } from "pdf-parse";
+import { resumeFileTypes, type ResumeFileType } from "@shared/schema";
+
+// Resume file handling: the type is decided by the file's content, never its
+// name, and the name and declared MIME type have to agree with it. Text is
+// extracted from PDF, DOCX, RTF and plain text files.
+
+// What the content looks like, including formats we recognise but can't read
+type DetectedType = ResumeFileType | "doc" | "image" | "zip" | "unknown";
+
+const typeLabels: Record<DetectedType, string> = {
+  pdf: "a PDF",
+  docx: "a Word (DOCX) document",
+  rtf: "an RTF document",
+  txt: "plain text",
+  doc: "a legacy Word (.doc) document",
+  image: "an image",
+  zip: "a ZIP archive",
+  unknown: "an unrecognised format",
+};
+
+const extensionTypes: Record<string, DetectedType> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".rtf": "rtf",
+  ".txt": "txt",
+  ".text": "txt",
+  ".doc": "doc",
+  ".png": "image",
+  ".jpg": "image",
+  ".jpeg": "image",
+  ".zip": "zip",
+};
+
+// Browsers send application/octet-stream for anything they don't know, so only these are checked
+const mimeTypes: Record<string, ResumeFileType> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/rtf": "rtf",
+  "text/rtf": "rtf",
+  "text/plain": "txt",
+};
+
+const MAX_DOCUMENT_XML_BYTES = 20 * 1024 * 1024;
+
+export type ResumeFile = { buffer: Buffer; originalName: string; mimeType: string };
+
+// The extracted text, or a message telling the seeker what's wrong with the file
+export async function extractResumeText(file: ResumeFile): Promise<{ type: ResumeFileType; text: string } | { error: string }> {
+  const detected = detectFileType(file.buffer);
+  if (!isResumeFileType(detected)) {
+    return { error: `This file is ${typeLabels[detected]}. Upload a PDF, DOCX, RTF or TXT resume.` };
+  }
+
+  const extension = path.extname(file.originalName).toLowerCase();
+  if (extension && extensionTypes[extension] !== detected) {
+    return { error: `The file is named ${extension} but its contents are ${typeLabels[detected]}` };
+  }
+  const declared = mimeTypes[file.mimeType.toLowerCase()];
+  if (declared && declared !== detected) {
+    return { error: `The file was sent as ${file.mimeType} but its contents are ${typeLabels[detected]}` };
+  }
+
+  if (detected === "pdf") return extractPdfText(file.buffer);
+
+  let text: string | undefined;
+  if (detected === "docx") text = docxToText(file.buffer);
+  else if (detected === "rtf") text = rtfToText(file.buffer.toString("latin1"));
+  else text = decodeText(file.buffer);
+
+  if (text === undefined) return { error: `This file looks like ${typeLabels[detected]} but couldn't be read` };
+  text = tidy(text);
+  if (!text) return { error: "This file doesn't contain any text" };
+  return { type: detected, text };
+}
+
+export function detectFileType(buffer: Buffer): DetectedType {
+  const startsWith = (...bytes: number[]) => bytes.every((b, i) => buffer[i] === b);
+
+  if (buffer.subarray(0, 1024).includes("%PDF-")) return "pdf"; // Some writers put junk before the header
+  if (startsWith(0x50, 0x4b, 0x03, 0x04)) {
+    return readZipEntry(buffer, "word/document.xml", 0) !== undefined ? "docx" : "zip";
+  }
+  if (buffer.subarray(0, 5).toString("latin1") === "{\\rtf") return "rtf";
+  if (startsWith(0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1)) return "doc";
+  if (startsWith(0x89, 0x50, 0x4e, 0x47) || startsWith(0xff, 0xd8, 0xff) || startsWith(0x47, 0x49, 0x46, 0x38)) return "image";
+  if (decodeText(buffer) !== undefined) return "txt";
+  return "unknown";
+}
+
+function isResumeFileType(type: DetectedType): type is ResumeFileType {
+  return (resumeFileTypes as readonly string[]).includes(type);
+}
+
+async function extractPdfText(buffer: Buffer): Promise<{ type: "pdf"; text: string } | { error: string }> {
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText({ pageJoiner: "" });
+    const text = tidy(result.text);
+    if (!text) {
+      const pages = result.total === 1 ? "1 page" : `${result.total} pages`;
+      return {
+        error: `This PDF (${pages}) has no text layer, so it is probably a scanned image. Upload a PDF exported from your editor, a DOCX or a TXT file, or run the scan through OCR first.`,
+      };
+    }
+    return { type: "pdf", text };
+  } catch (err) {
+    if (err instanceof PasswordException) return { error: "This PDF is password-protected. Remove the password and upload it again." };
+    if (err instanceof InvalidPDFException) return { error: "This PDF is damaged and couldn't be read" };
+    throw err;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// DOCX is a ZIP archive; the body text lives in word/document.xml
+function docxToText(buffer: Buffer): string | undefined {
+  const xml = readZipEntry(buffer, "word/document.xml", MAX_DOCUMENT_XML_BYTES)?.toString("utf8");
+  if (xml === undefined) return undefined;
+  return decodeXmlEntities(xml
+    .replace(/[\r\n]/g, "") // Whitespace between tags isn't text
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:(br|cr)\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n")
+    .replace(/<[^>]+>/g, ""));
+}
+
+// Minimal ZIP reader: finds one entry through the central directory and
+// inflates it. With maxBytes 0 it only checks that the entry exists.
+function readZipEntry(buffer: Buffer, name: string, maxBytes: number): Buffer | undefined {
+  const endOfDirectory = buffer.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (endOfDirectory < 0 || endOfDirectory + 22 > buffer.length) return undefined;
+
+  const entryCount = buffer.readUInt16LE(endOfDirectory + 10);
+  let offset = buffer.readUInt32LE(endOfDirectory + 16);
+  for (let i = 0; i < entryCount && offset + 46 <= buffer.length; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) return undefined;
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    const entryName = buffer.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (entryName !== name) continue;
+
+    if (maxBytes === 0) return Buffer.alloc(0);
+    if (localHeader + 30 > buffer.length || buffer.readUInt32LE(localHeader) !== 0x04034b50) return undefined;
+    const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+    try {
+      if (method === 0) return data.length <= maxBytes ? data : undefined;
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: maxBytes });
+    } catch {
+      return undefined; // Corrupt, or bigger than we're willing to inflate
+    }
+    return undefined;
+  }
+  return undefined;
+}
+
+// Destinations whose contents are formatting or metadata rather than text
+const rtfSkippedDestinations = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "header", "headerl", "headerr", "headerf",
+  "footer", "footerl", "footerr", "footerf", "listtable", "listoverridetable", "rsidtbl", "generator",
+  "themedata", "colorschememapping", "datastore", "latentstyles", "xmlnstbl", "fldinst",
+]);
+
+// Control words that stand for a single character
+const rtfSymbols: Record<string, string> = {
+  endash: "\u2013", emdash: "\u2014", bullet: "\u2022",
+  lquote: "\u2018", rquote: "\u2019", ldblquote: "\u201c", rdblquote: "\u201d",
+};
+
+const cp1252 = new TextDecoder("windows-1252");
+
+function rtfToText(rtf: string): string {
+  const groups: { skip: boolean; uc: number }[] = [];
+  let skip = false;
+  let uc = 1; // Fallback characters that follow each \uN
+  let fallback = 0;
+  let out = "";
+  const emit = (text: string) => {
+    if (fallback > 0) fallback--;
+    else if (!skip) out += text;
+  };
+
+  for (let i = 0; i < rtf.length;) {
+    const ch = rtf[i];
+    if (ch === "{" || ch === "}") {
+      if (ch === "{") groups.push({ skip, uc });
+      else ({ skip, uc } = groups.pop() ?? { skip: false, uc: 1 });
+      fallback = 0;
+      i++;
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      i++;
+      continue;
+    }
+    if (ch !== "\\") {
+      emit(ch);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      i += 2;
+    } else if (next === "'") {
+      emit(cp1252.decode(Uint8Array.of(parseInt(rtf.substr(i + 2, 2), 16) || 0x3f)));
+      i += 4;
+    } else if (next === "*") {
+      skip = true; // Ignorable destination we don't understand
+      i += 2;
+    } else if (next === "~") {
+      emit(" ");
+      i += 2;
+    } else {
+      const control = /^([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(rtf.slice(i + 1, i + 45));
+      if (!control) {
+        i += 2; // Other control symbols (\-, \_, \|, ...) carry no text
+        continue;
+      }
+      i += 1 + control[0].length;
+      const [, word, param] = control;
+      if (rtfSkippedDestinations.has(word)) skip = true;
+      else if (word === "uc") uc = Number(param ?? 1);
+      else if (word === "u" && param !== undefined) {
+        emit(String.fromCharCode(Number(param) < 0 ? Number(param) + 65536 : Number(param)));
+        fallback = uc;
+      } else if (word === "par" || word === "line" || word === "row" || word === "sect" || word === "page") emit("\n");
+      else if (word === "tab" || word === "cell") emit("\t");
+      else if (rtfSymbols[word]) emit(rtfSymbols[word]);
+    }
+  }
+  return out;
+}
+
+// UTF-8 or UTF-16 with a BOM; undefined for anything that looks binary
+function decodeText(buffer: Buffer): string | undefined {
+  let text: string;
+  try {
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) text = new TextDecoder("utf-16le", { fatal: true }).decode(buffer);
+    else if (buffer[0] === 0xfe && buffer[1] === 0xff) text = new TextDecoder("utf-16be", { fatal: true }).decode(buffer);
+    else text = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return undefined;
+  }
+  const controls = text.match(/[\u0000-\u0008\u000e-\u001f]/g)?.length ?? 0;
+  return controls === 0 ? text.replace(/^\uFEFF/, "") : undefined;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+    if (entity[0] !== "#") return named[entity.toLowerCase()];
+    const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+    return String.fromCodePoint(code);
+  });
+}
+
+// Normalised line endings, no trailing spaces, at most one blank line in a row
+function tidy(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\u00a0]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
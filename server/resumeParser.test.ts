@@ -0,0 +1,153 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { experienceYearsFrom, normalizeSkills, parseResumeText } from "./resumeParser";
+
+const now = new Date("2024-06-15");
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/resumes/${name}.txt`, import.meta.url), "utf8");
+}
+
+describe("parseResumeText", () => {
+  const classic = parseResumeText(fixture("classic"), now);
+  const compact = parseResumeText(fixture("compact"), now);
+
+  describe("contact details", () => {
+    it("reads name, email, phone, location and links from the header", () => {
+      assert.deepEqual(classic.contact, {
+        name: "Jane Doe",
+        email: "jane.doe@example.com",
+        phone: "+1 (555) 123-4567",
+        location: "Portland, OR",
+        links: ["linkedin.com/in/janedoe"],
+      });
+    });
+
+    it("handles dotted phone numbers and full URLs on their own lines", () => {
+      assert.deepEqual(compact.contact, {
+        name: "John Q Smith",
+        email: "john.smith@mail.test",
+        phone: "555.987.6543",
+        location: null,
+        links: ["https://github.com/jqsmith"],
+      });
+    });
+
+    it("doesn't take a job title for the name", () => {
+      const { contact } = parseResumeText("Staff Engineer\nAda Lovelace\nada@example.com", now);
+      assert.equal(contact.name, "Ada Lovelace");
+    });
+
+    it("leaves out what isn't there", () => {
+      assert.deepEqual(parseResumeText("Experience\nEngineer at Acme  2019 - 2020", now).contact, {
+        name: null,
+        email: null,
+        phone: null,
+        location: null,
+        links: [],
+      });
+    });
+  });
+
+  describe("date ranges", () => {
+    it("reads month names, numeric months and open-ended ranges", () => {
+      assert.deepEqual(classic.workHistory, [
+        { title: "Senior Software Engineer", company: "Acme Corp", startDate: "2020-01", endDate: null, current: true },
+        { title: "Software Engineer", company: "Initech", startDate: "2016-06", endDate: "2019-12", current: false },
+      ]);
+    });
+
+    it("reads year-only ranges and ranges in parentheses", () => {
+      assert.deepEqual(compact.workHistory, [
+        { title: "Data Analyst", company: "Globex LLC", startDate: "2015", endDate: "2018", current: false },
+        { title: "Lead Data Scientist", company: "Hooli Inc", startDate: "2017-03", endDate: "2021-12", current: false },
+      ]);
+    });
+
+    for (const [line, startDate, endDate] of [
+      ["Engineer, Acme  September 2018 – March 2020", "2018-09", "2020-03"],
+      ["Engineer, Acme  Sept. 2018 to 03/2020", "2018-09", "2020-03"],
+      ["Engineer, Acme  2018—2020", "2018", "2020"],
+    ]) {
+      it(`reads "${line}"`, () => {
+        const [entry] = parseResumeText(`Experience\n${line}`, now).workHistory;
+        assert.equal(entry.startDate, startDate);
+        assert.equal(entry.endDate, endDate);
+      });
+    }
+
+    it("treats current and now like present", () => {
+      const { workHistory } = parseResumeText("Experience\nEngineer at Acme  2021 - current\nDeveloper at Initech  2019 - now", now);
+      assert.deepEqual(workHistory.map(entry => [entry.current, entry.endDate]), [[true, null], [true, null]]);
+    });
+
+    it("reads education years", () => {
+      assert.deepEqual(classic.education, [{
+        institution: "University of Oregon",
+        degree: "Bachelor of Science",
+        fieldOfStudy: "Computer Science",
+        startYear: 2012,
+        endYear: 2016,
+      }]);
+      assert.deepEqual(compact.education, [{
+        institution: "Harvard Business School",
+        degree: "MBA",
+        fieldOfStudy: null,
+        startYear: null,
+        endYear: 2022,
+      }]);
+    });
+  });
+
+  describe("sections", () => {
+    it("recognizes headings in any case and with a trailing colon", () => {
+      assert.equal(compact.workHistory.length, 2);
+      assert.equal(compact.education.length, 1);
+      assert.deepEqual(compact.skills, ["Python", "SQL", "Machine Learning"]);
+    });
+
+    it("keeps dated lines outside the experience section out of the work history", () => {
+      const { workHistory } = parseResumeText("Projects\nOpen source CLI  2019 - 2021\nExperience\nEngineer at Acme  2020 - 2022", now);
+      assert.deepEqual(workHistory.map(entry => entry.company), ["Acme"]);
+    });
+
+    it("doesn't mistake a long line for a heading", () => {
+      const { workHistory } = parseResumeText("Experience\nExperience with large teams and a lot of history behind them\nEngineer at Acme  2020 - 2022", now);
+      assert.equal(workHistory.length, 1);
+    });
+
+    it("skips bullet points inside a section", () => {
+      assert.equal(classic.workHistory.length, 2);
+      assert.ok(classic.workHistory.every(entry => !entry.title?.startsWith("-")));
+    });
+
+    it("splits certifications into name, issuer and year", () => {
+      assert.deepEqual(classic.certifications, [
+        { name: "AWS Certified Solutions Architect", issuer: "Amazon Web Services", year: 2021 },
+      ]);
+    });
+
+    it("trusts ambiguous skill names only in the skills section", () => {
+      assert.ok(classic.skills.includes("Go"));
+      assert.ok(!parseResumeText("Summary\nI like to go hiking", now).skills.includes("Go"));
+    });
+  });
+
+  it("counts overlapping roles once", () => {
+    assert.equal(classic.experienceYears, 7);
+    assert.equal(compact.experienceYears, 6);
+  });
+});
+
+describe("normalizeSkills", () => {
+  it("maps aliases to one canonical name and drops duplicates", () => {
+    assert.deepEqual(normalizeSkills(["reactjs", "React", " node.js ", "Postgres", "Cobol"]), ["React", "Node.js", "PostgreSQL", "Cobol"]);
+  });
+});
+
+describe("experienceYearsFrom", () => {
+  it("returns null without usable dates", () => {
+    assert.equal(experienceYearsFrom([{ title: "Engineer", company: null, startDate: null, endDate: null, current: false }], now), null);
+  });
+});
@@ -0,0 +1,332 @@
+import type { ParsedResume, ResumeContact } from "@shared/schema";
+import { normalizeSkill } from "./scoring";
+
+// Rules-based resume parser. Works line by line on the extracted text: finds
+// the usual section headings, then pulls entries out of each section with
+// date and keyword patterns. It is deliberately conservative; anything it
+// can't place is left out rather than guessed.
+
+type Section = "header" | "experience" | "education" | "certifications" | "skills" | "other";
+
+const sectionHeadings: [Section, RegExp][] = [
+  ["experience", /^(work |professional |employment |relevant )?(experience|history)$|^employment$|^work history$|^career history$/],
+  ["education", /^(education|academic background|qualifications)$/],
+  ["certifications", /^(certifications?|licenses?( (and|&) certifications)?|certifications? (and|&) licenses?)$/],
+  ["skills", /^(technical |core |key )?(skills|competencies|technologies)( (and|&) (tools|technologies|expertise))?$/],
+  ["other", /^(summary|profile|objective|about( me)?|projects|interests|languages|references|awards|publications|volunteering)$/],
+];
+
+// Canonical display name for common skills and the spellings that mean it
+const skillAliases: Record<string, string[]> = {
+  "JavaScript": ["javascript", "js", "es6"],
+  "TypeScript": ["typescript", "ts"],
+  "React": ["react", "reactjs", "react.js"],
+  "Node.js": ["node", "nodejs", "node.js"],
+  "Vue": ["vue", "vuejs", "vue.js"],
+  "Angular": ["angular", "angularjs"],
+  "Next.js": ["next.js", "nextjs"],
+  "Express": ["express", "expressjs", "express.js"],
+  "Python": ["python"],
+  "Django": ["django"],
+  "Flask": ["flask"],
+  "Java": ["java"],
+  "Spring": ["spring", "spring boot"],
+  "Kotlin": ["kotlin"],
+  "Swift": ["swift"],
+  "Go": ["go", "golang"],
+  "Rust": ["rust"],
+  "C#": ["c#", "csharp"],
+  ".NET": [".net", "dotnet"],
+  "C++": ["c++", "cpp"],
+  "Ruby": ["ruby"],
+  "Rails": ["rails", "ruby on rails"],
+  "PHP": ["php"],
+  "SQL": ["sql"],
+  "PostgreSQL": ["postgresql", "postgres"],
+  "MySQL": ["mysql"],
+  "MongoDB": ["mongodb", "mongo"],
+  "Redis": ["redis"],
+  "GraphQL": ["graphql"],
+  "REST": ["rest", "rest apis", "restful apis"],
+  "HTML": ["html", "html5"],
+  "CSS": ["css", "css3"],
+  "Tailwind": ["tailwind", "tailwindcss", "tailwind css"],
+  "AWS": ["aws", "amazon web services"],
+  "GCP": ["gcp", "google cloud"],
+  "Azure": ["azure"],
+  "Docker": ["docker"],
+  "Kubernetes": ["kubernetes", "k8s"],
+  "Terraform": ["terraform"],
+  "Git": ["git"],
+  "CI/CD": ["ci/cd", "continuous integration"],
+  "Linux": ["linux"],
+  "Machine Learning": ["machine learning", "ml"],
+  "Figma": ["figma"],
+  "Agile": ["agile", "scrum"],
+};
+
+const aliasToSkill = new Map<string, string>();
+for (const [skill, aliases] of Object.entries(skillAliases)) {
+  for (const alias of aliases) aliasToSkill.set(normalizeSkill(alias), skill);
+}
+
+// Too ambiguous to pick out of running text; only trusted in a skills section
+const listOnlyAliases = new Set(["go", "js", "ts", "ml", "rest", "swift", "rust", "spring", "express", "agile", "node"]);
+
+const months = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const monthPattern = "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+const datePattern = `(?:${monthPattern}\\s+\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const dateRange = new RegExp(`(${datePattern})\\s*(?:-|–|—|to)\\s*(${datePattern}|present|current|now)`, "i");
+
+const titleWords = /\b(engineer|developer|programmer|manager|designer|analyst|lead|intern|director|consultant|architect|scientist|specialist|administrator|officer|head|vp|president|founder|associate|coordinator|technician|assistant|owner|recruiter|accountant)\b/i;
+const companyWords = /\b(inc|llc|ltd|corp|corporation|gmbh|co|company|group|labs|technologies|solutions|agency|university)\b\.?/i;
+const degreeWords = /\b(bachelor|master|doctor|ph\.?\s?d|mba|b\.?\s?sc?|m\.?\s?sc?|b\.?\s?a|m\.?\s?a|b\.?\s?eng|m\.?\s?eng|associate|diploma|certificate)\b/i;
+const institutionWords = /\b(university|college|institute|school|academy|polytechnic)\b/i;
+
+const emailPattern = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/;
+const phonePattern = /(?:\+\d{1,3}[\s.-]?)?\(?\d{2,4}\)?[\s.-]?\d{3,4}[\s.-]?\d{3,4}/;
+const linkPattern = /\b(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com)\/[\w\-/.%]+|https?:\/\/[\w\-./%?=&#]+/gi;
+const locationPattern = /^[A-Z][A-Za-z .'-]+,\s*[A-Z][A-Za-z .'-]+$/;
+
+export function parseResumeText(text: string, now: Date = new Date()): ParsedResume {
+  const sections = splitSections(text);
+  const workHistory = parseWorkHistory(sections.experience);
+  return {
+    contact: parseContact(sections.header, text),
+    skills: parseSkills(sections.skills, text),
+    workHistory,
+    education: parseEducation(sections.education),
+    certifications: parseCertifications(sections.certifications),
+    experienceYears: experienceYearsFrom(workHistory, now),
+  };
+}
+
+// Canonical names where we know the skill, trimmed originals otherwise; no duplicates
+export function normalizeSkills(skills: string[]): string[] {
+  const result = new Map<string, string>();
+  for (const raw of skills) {
+    const skill = raw.trim().replace(/\s+/g, " ");
+    if (!skill || skill.length > 40) continue;
+    const canonical = aliasToSkill.get(normalizeSkill(skill)) ?? skill;
+    const key = normalizeSkill(canonical);
+    if (!result.has(key)) result.set(key, canonical);
+  }
+  return Array.from(result.values());
+}
+
+// Whole years across all roles, with overlapping roles counted once
+export function experienceYearsFrom(workHistory: ParsedResume["workHistory"], now: Date = new Date()): number | null {
+  const nowMonth = now.getFullYear() * 12 + now.getMonth();
+  const spans = workHistory
+    .map(entry => {
+      const start = toMonthIndex(entry.startDate);
+      const end = entry.current ? nowMonth : toMonthIndex(entry.endDate);
+      return start !== null && end !== null && end >= start ? [start, end] as const : null;
+    })
+    .filter((span): span is readonly [number, number] => span !== null)
+    .sort((a, b) => a[0] - b[0]);
+  if (spans.length === 0) return null;
+
+  let months = 0;
+  let [from, to] = spans[0];
+  for (const [start, end] of spans.slice(1)) {
+    if (start <= to) {
+      to = Math.max(to, end);
+    } else {
+      months += to - from;
+      [from, to] = [start, end];
+    }
+  }
+  months += to - from;
+  return Math.floor(months / 12);
+}
+
+function splitSections(text: string): Record<Section, string[]> {
+  const sections: Record<Section, string[]> = { header: [], experience: [], education: [], certifications: [], skills: [], other: [] };
+  let current: Section = "header";
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    const heading = headingOf(line);
+    if (heading) {
+      current = heading;
+      continue;
+    }
+    sections[current].push(line);
+  }
+  return sections;
+}
+
+function headingOf(line: string): Section | undefined {
+  if (line.length > 40) return undefined;
+  const key = line.toLowerCase().replace(/[:\s]+$/, "").replace(/\s+/g, " ");
+  return sectionHeadings.find(([, pattern]) => pattern.test(key))?.[0];
+}
+
+function parseContact(header: string[], text: string): ResumeContact {
+  const top = header.slice(0, 10);
+  const links = Array.from(new Set((text.match(linkPattern) ?? []).map(link => link.replace(/[.,;)]+$/, ""))));
+  const phone = top.map(line => line.replace(emailPattern, "").replace(linkPattern, "").match(phonePattern)?.[0])
+    .find(match => match && match.replace(/\D/g, "").length >= 7);
+  const name = top.find(line =>
+    !emailPattern.test(line) && !/\d/.test(line) && /^[A-Za-zÀ-ÖØ-öø-ÿ][A-Za-zÀ-ÖØ-öø-ÿ.'-]*( [A-Za-zÀ-ÖØ-öø-ÿ][A-Za-zÀ-ÖØ-öø-ÿ.'-]*){1,3}$/.test(line) && !titleWords.test(line));
+  const location = top
+    .flatMap(line => line.split(/\s*[|•·]\s*/))
+    .find(part => locationPattern.test(part) && part !== name);
+
+  return {
+    name: name ?? null,
+    email: text.match(emailPattern)?.[0] ?? null,
+    phone: phone?.trim() ?? null,
+    location: location ?? null,
+    links,
+  };
+}
+
+function parseSkills(skillLines: string[], text: string): string[] {
+  const listed = skillLines
+    .map(line => line.replace(/^[^:]{1,30}:\s*/, "")) // "Languages: Go, Rust"
+    .flatMap(line => line.split(/\s*[,;|•·]\s*|\s{2,}/))
+    .map(skill => skill.replace(/^[-*]\s*/, "").trim())
+    .filter(skill => skill && skill.split(" ").length <= 4);
+
+  // Known skills mentioned anywhere else in the resume
+  const lower = ` ${text.toLowerCase()} `;
+  const mentioned = Object.entries(skillAliases)
+    .filter(([, aliases]) => aliases.some(alias =>
+      !listOnlyAliases.has(alias) && new RegExp(`[^a-z0-9+#.]${escapeRegExp(alias)}[^a-z0-9+#]`).test(lower)))
+    .map(([skill]) => skill);
+
+  return normalizeSkills([...listed, ...mentioned]);
+}
+
+function parseWorkHistory(lines: string[]): ParsedResume["workHistory"] {
+  const entries: ParsedResume["workHistory"] = [];
+  let pending: string[] = []; // Non-bullet lines since the last entry, e.g. "Acme Corp" above "Engineer  2019 - 2021"
+
+  for (const line of lines) {
+    if (isBullet(line)) {
+      pending = [];
+      continue;
+    }
+    const range = line.match(dateRange);
+    if (!range) {
+      pending.push(line);
+      continue;
+    }
+
+    const rest = stripSeparators(line.replace(range[0], "").replace(/[()]/g, ""));
+    const heading = rest ? [...pending.slice(-1), rest] : pending.slice(-2);
+    const { title, company } = splitTitleAndCompany(heading);
+    const current = /present|current|now/i.test(range[2]);
+    entries.push({
+      title,
+      company,
+      startDate: toPartialDate(range[1]),
+      endDate: current ? null : toPartialDate(range[2]),
+      current,
+    });
+    pending = [];
+  }
+  return entries;
+}
+
+function splitTitleAndCompany(heading: string[]): { title: string | null; company: string | null } {
+  let parts = heading.map(stripSeparators).filter(Boolean);
+  if (parts.length === 1) {
+    const [single] = parts;
+    const at = single.match(/^(.+?)\s+at\s+(.+)$/i);
+    if (at) return { title: at[1].trim(), company: at[2].trim() };
+    parts = single.split(/\s+[|–—-]\s+|,\s+/).map(part => part.trim()).filter(Boolean);
+  }
+  if (parts.length === 0) return { title: null, company: null };
+  if (parts.length === 1) {
+    return titleWords.test(parts[0]) ? { title: parts[0], company: null } : { title: null, company: parts[0] };
+  }
+
+  const [first, second] = parts.slice(-2);
+  const firstIsCompany = (companyWords.test(first) && !companyWords.test(second))
+    || (titleWords.test(second) && !titleWords.test(first));
+  return firstIsCompany ? { title: second, company: first } : { title: first, company: second };
+}
+
+function parseEducation(lines: string[]): ParsedResume["education"] {
+  const entries: ParsedResume["education"] = [];
+  let entry: ParsedResume["education"][number] | undefined;
+
+  for (const line of lines.filter(line => !isBullet(line))) {
+    const isInstitution = institutionWords.test(line);
+    const isDegree = degreeWords.test(line);
+    if (!isInstitution && !isDegree && !/\b(19|20)\d{2}\b/.test(line)) continue;
+
+    // A second institution, or a degree when the current entry already has one, starts a new entry
+    if (!entry || (isInstitution && entry.institution) || (isDegree && !isInstitution && entry.degree)) {
+      entry = { institution: null, degree: null, fieldOfStudy: null, startYear: null, endYear: null };
+      entries.push(entry);
+    }
+
+    const years = (line.match(/\b(19|20)\d{2}\b/g) ?? []).map(Number);
+    const text = stripSeparators(line.replace(dateRange, "").replace(/\b(19|20)\d{2}\b/g, "").replace(/[()]/g, ""));
+    for (const part of text.split(/\s+[|–—-]\s+|,\s+(?=[A-Z])/).map(p => p.trim()).filter(Boolean)) {
+      if (institutionWords.test(part) && !entry.institution) {
+        entry.institution = part;
+      } else if (degreeWords.test(part) && !entry.degree) {
+        // "Bachelor of Science in Physics": the field follows "in" when there is one
+        const field = part.match(/\bin\s+(.+)$/i) ?? part.match(/\bof\s+(.+)$/i);
+        entry.degree = field ? part.slice(0, field.index).trim() : part;
+        entry.fieldOfStudy = field ? field[1].trim() : entry.fieldOfStudy;
+      }
+    }
+    if (years.length > 0) {
+      entry.startYear = years.length > 1 ? years[0] : entry.startYear;
+      entry.endYear = years[years.length - 1];
+    }
+  }
+  return entries.filter(e => e.institution || e.degree);
+}
+
+function parseCertifications(lines: string[]): ParsedResume["certifications"] {
+  return lines.flatMap(line => {
+    const year = line.match(/\b(19|20)\d{2}\b/);
+    let text = stripSeparators(line.replace(/^[-*•·]\s*/, "").replace(/\b(19|20)\d{2}\b/g, "").replace(/\(\s*\)/g, ""));
+    let issuer: string | null = null;
+
+    const inParens = text.match(/^(.+?)\s*\(([^)]+)\)$/);
+    const afterDash = text.match(/^(.+?)\s+[–—-]\s+(.+)$/);
+    const split = inParens ?? afterDash;
+    if (split) {
+      text = split[1].trim();
+      issuer = split[2].trim();
+    }
+    if (!text) return [];
+    return [{ name: text, issuer, year: year ? Number(year[0]) : null }];
+  });
+}
+
+function toPartialDate(value: string): string | null {
+  const lower = value.toLowerCase().trim();
+  const year = lower.match(/\d{4}/)?.[0];
+  if (!year) return null;
+  const numeric = lower.match(/^(\d{1,2})\/\d{4}$/);
+  const monthIndex = numeric ? Number(numeric[1]) - 1 : months.findIndex(m => lower.startsWith(m));
+  return monthIndex >= 0 && monthIndex < 12 ? `${year}-${String(monthIndex + 1).padStart(2, "0")}` : year;
+}
+
+// Year-only dates count from January
+function toMonthIndex(date: string | null | undefined): number | null {
+  const match = date?.match(/^(\d{4})(?:-(\d{2}))?$/);
+  if (!match) return null;
+  return Number(match[1]) * 12 + (match[2] ? Number(match[2]) - 1 : 0);
+}
+
+function isBullet(line: string): boolean {
+  return /^[-*•·▪◦]/.test(line);
+}
+
+function stripSeparators(value: string): string {
+  return value.replace(/^[\s|,–—-]+|[\s|,–—-]+$/g, "").replace(/\s{2,}/g, " ");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { randomUUID, createHmac, timingSafeEqual } from "crypto";
+import { storage, type ResumeParseDetails } from "./storage";
+import { getBlobStore } from "./blobs";
+import { refreshProfileEmbedding } from "./embeddings";
+import { getLLMProvider } from "./llm";
+import { parseResumeText, normalizeSkills, experienceYearsFrom } from "./resumeParser";
+import { normalizeSkill } from "./scoring";
+import { isIdentityHidden } from "./blindReview";
+import { redactPii, type KnownIdentity } from "./redaction";
+import type { JobSeekerProfile, ParsedResume, ProfileSnapshot, Resume, ResumeFileType, ResumeParse, User } from "@shared/schema";
+
+// Resume versions and apply-time snapshots. The profile's resumeUrl/resumeText
+// mirror the default version so embeddings and sourcing keep working off it.
+
+export async function syncDefaultResume(seekerId: number): Promise<void> {
+  const [first] = await storage.listResumes(seekerId);
+  await storage.setSeekerProfileResume(seekerId, first?.isDefault ? first : null);
+  refreshProfileEmbedding(seekerId);
+}
+
+// Deleting the default hands it to the newest remaining version. The row is
+// kept for the applications that used it, but the file itself is removed.
+export async function deleteResumeVersion(resume: Resume): Promise<void> {
+  await storage.deleteResume(resume.id);
+  getBlobStore().delete(resumeBlobKey(resume.fileUrl))
+    .catch(err => console.error(`Deleting the file of resume ${resume.id} failed:`, err));
+  if (!resume.isDefault) return;
+
+  const [next] = await storage.listResumes(resume.seekerId);
+  if (next) await storage.setDefaultResume(resume.seekerId, next.id);
+  await syncDefaultResume(resume.seekerId);
+}
+
+// Resume files live in the blob store. fileUrl holds the key; uploads from
+// before the blob store was added are stored as /uploads/<file> in BLOB_DIR.
+
+export const resumeContentTypes: Record<ResumeFileType, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  rtf: "application/rtf",
+  txt: "text/plain; charset=utf-8",
+};
+
+export async function storeResumeFile(seekerId: number, type: ResumeFileType, body: Buffer): Promise<string> {
+  const key = `resumes/${seekerId}/${randomUUID()}.${type}`;
+  await getBlobStore().put(key, { body, contentType: resumeContentTypes[type] });
+  return key;
+}
+
+export function resumeBlobKey(fileUrl: string): string {
+  return fileUrl.replace(/^\/uploads\//, "");
+}
+
+// The seeker, or anyone on the team of a company this very version was
+// submitted to, as recorded on the application snapshot. A resume can't be
+// redacted, so an application to a blind job only counts once it's revealed,
+// and handing the file out is logged as a reveal.
+export async function canDownloadResume(user: User, resume: Resume): Promise<boolean> {
+  if (user.id === resume.seekerId) return true;
+  if (user.role !== "employer") return false;
+
+  const profile = await storage.getEmployerProfile(user.id);
+  if (!profile) return false;
+  const applications = (await storage.listApplicationsForSeeker(resume.seekerId)).filter(app => app.job.companyId === profile.companyId);
+  const snapshots = await storage.listApplicationSnapshots(applications.map(app => app.id));
+  const submitted = applications.filter(app => snapshots.some(s => s.applicationId === app.id && s.resumeId === resume.id));
+  const events = await storage.listApplicationEvents(submitted.filter(app => app.job.blindReview).map(app => app.id));
+  const revealed = submitted.filter(app => !isIdentityHidden(app.job, app, events.filter(e => e.applicationId === app.id)));
+  await storage.recordIdentityReveals(revealed
+    .filter(app => app.job.blindReview)
+    .map(app => ({ applicationId: app.id, viewerId: user.id, stage: app.status ?? "applied" })));
+  return revealed.length > 0;
+}
+
+// Download links are signed for one user and expire. The download route still
+// checks the session and access, so a leaked link is useless to anyone else.
+const downloadTtlMs = Number(process.env.RESUME_LINK_TTL_MINUTES || 15) * 60 * 1000;
+
+function downloadSecret(): string {
+  return process.env.FILE_URL_SECRET || process.env.SESSION_SECRET || "default_secret";
+}
+
+function downloadSignature(resumeId: number, userId: number, expires: number): string {
+  return createHmac("sha256", downloadSecret()).update(`resume:${resumeId}:${userId}:${expires}`).digest("base64url");
+}
+
+export function signResumeDownload(resumeId: number, userId: number, now = Date.now()): { url: string; expiresAt: Date } {
+  const expires = Math.floor((now + downloadTtlMs) / 1000);
+  const signature = downloadSignature(resumeId, userId, expires);
+  return {
+    url: `/api/resumes/${resumeId}/file?expires=${expires}&signature=${signature}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+export function verifyResumeDownload(resumeId: number, userId: number, expires: number, signature: string, now = Date.now()): boolean {
+  if (!Number.isInteger(expires) || expires * 1000 < now) return false;
+  const expected = Buffer.from(downloadSignature(resumeId, userId, expires));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export function snapshotProfile(profile: JobSeekerProfile): ProfileSnapshot {
+  const { name, title, bio, location, salaryMin, salaryMax, skills, experienceYears } = profile;
+  return { name, title, bio, location, salaryMin, salaryMax, skills, experienceYears };
+}
+
+// Records what the seeker submitted. Without a resume version we fall back to
+// whatever the profile carries, which covers uploads from before versioning.
+export async function snapshotApplication(applicationId: number, seekerId: number, resume: Resume | undefined) {
+  const profile = await storage.getSeekerProfile(seekerId);
+  return storage.createApplicationSnapshot({
+    applicationId,
+    resumeId: resume?.id ?? null,
+    resumeName: resume?.name ?? null,
+    resumeUrl: resume?.fileUrl ?? profile?.resumeUrl ?? null,
+    resumeText: resume?.text ?? profile?.resumeText ?? null,
+    profile: profile ? snapshotProfile(profile) : null,
+  });
+}
+
+// The profile and resume text screening should judge. Applications from
+// before snapshots existed only have the live profile to go on.
+export async function loadSubmission(applicationId: number, seekerId: number): Promise<{ profile: ProfileSnapshot | null; resumeText: string | null }> {
+  const [snapshot] = await storage.listApplicationSnapshots([applicationId]);
+  if (snapshot) {
+    return { profile: snapshot.profile as ProfileSnapshot | null, resumeText: snapshot.resumeText };
+  }
+  const profile = await storage.getSeekerProfile(seekerId);
+  return { profile: profile ?? null, resumeText: profile?.resumeText ?? null };
+}
+
+// Structured parsing. The rules always run; with RESUME_PARSER_LLM=true the
+// model's reading of the resume is layered on top of theirs.
+const llmParsing = process.env.RESUME_PARSER_LLM === "true";
+
+// Marks the parse pending and runs it in the background
+export async function startResumeParse(resume: Resume): Promise<ResumeParse> {
+  const pending = await storage.beginResumeParse(resume.id, resume.seekerId);
+  parseResume(resume).catch(err => console.error(`Parsing resume ${resume.id} failed:`, err));
+  return pending;
+}
+
+async function parseResume(resume: Resume): Promise<void> {
+  try {
+    const rules = parseResumeText(resume.text);
+    let parsed = rules;
+    if (llmParsing) {
+      try {
+        const profile = await storage.getSeekerProfile(resume.seekerId);
+        parsed = await refineWithLLM(resume.text, rules, {
+          names: [rules.contact.name, profile?.name],
+          locations: [rules.contact.location, profile?.location],
+        });
+      } catch (err) {
+        console.error(`LLM pass for resume ${resume.id} failed, keeping the rules result:`, err);
+      }
+    }
+    await storage.completeResumeParse(resume.id, parsed, parsed === rules ? "rules" : "rules+llm");
+  } catch (err) {
+    await storage.failResumeParse(resume.id, err instanceof Error ? err.message : String(err));
+    throw err;
+  }
+}
+
+const partialDate = z.string().regex(/^\d{4}(-\d{2})?$/).nullable().catch(null);
+const year = z.number().int().min(1900).max(2100).nullable().catch(null);
+const optionalText = z.string().trim().min(1).nullable().catch(null);
+
+const llmResumeSchema = z.object({
+  skills: z.array(z.string()).catch([]),
+  workHistory: z.array(z.object({
+    company: optionalText,
+    title: optionalText,
+    startDate: partialDate,
+    endDate: partialDate,
+    current: z.boolean().catch(false),
+  })).catch([]),
+  education: z.array(z.object({
+    institution: optionalText,
+    degree: optionalText,
+    fieldOfStudy: optionalText,
+    startYear: year,
+    endYear: year,
+  })).catch([]),
+  certifications: z.array(z.object({
+    name: z.string().trim().min(1),
+    issuer: optionalText,
+    year,
+  })).catch([]),
+});
+
+// The model's lists win where it found anything, since it copes better with
+// unusual layouts. Contact details only ever come from the rules, so the model
+// gets the resume with personal details taken out.
+async function refineWithLLM(text: string, rules: ParsedResume, known: KnownIdentity): Promise<ParsedResume> {
+  const prompt = `
+    Extract structured data from this resume.
+    Return JSON:
+    {
+      "skills": ["skill"],
+      "workHistory": [{ "company": string, "title": string, "startDate": "YYYY-MM" or "YYYY", "endDate": "YYYY-MM", "YYYY" or null, "current": boolean }],
+      "education": [{ "institution": string, "degree": string, "fieldOfStudy": string, "startYear": number, "endYear": number }],
+      "certifications": [{ "name": string, "issuer": string, "year": number }]
+    }
+    Use null for anything the resume doesn't say. List work history newest first.
+
+    Resume:
+    ${redactPii(text, known).text.substring(0, 6000)}
+  `;
+
+  const content = await getLLMProvider().chat([{ role: "user", content: prompt }], { json: true });
+  const llm = llmResumeSchema.parse(JSON.parse(content || "{}"));
+
+  const workHistory = llm.workHistory.length > 0 ? llm.workHistory : rules.workHistory;
+  return {
+    contact: rules.contact,
+    skills: normalizeSkills([...rules.skills, ...llm.skills]),
+    workHistory,
+    education: llm.education.length > 0 ? llm.education : rules.education,
+    certifications: llm.certifications.length > 0 ? llm.certifications : rules.certifications,
+    experienceYears: experienceYearsFrom(workHistory),
+  };
+}
+
+// What merging would change on the profile, for the seeker to review
+export function parseSuggestions(parse: ResumeParseDetails, profile: JobSeekerProfile | undefined) {
+  const have = new Set((profile?.skills ?? []).map(normalizeSkill));
+  return {
+    skills: (parse.skills ?? []).filter(skill => !have.has(normalizeSkill(skill))),
+    experienceYears: parse.experienceYears !== profile?.experienceYears ? parse.experienceYears : null,
+  };
+}
+
+// Adds the chosen parsed skills to the profile and optionally takes the parsed
+// experienceYears. Existing skills are never removed.
+export async function mergeResumeParse(parse: ResumeParseDetails, profile: JobSeekerProfile, choice: { skills: string[]; experienceYears: boolean }) {
+  const skills = normalizeSkills([...(profile.skills ?? []), ...choice.skills]);
+  const experienceYears = choice.experienceYears && parse.experienceYears !== null ? parse.experienceYears : undefined;
+
+  const updated = await storage.updateSeekerProfile(profile.userId, { skills, experienceYears });
+  await storage.markResumeParseMerged(parse.id);
+  refreshProfileEmbedding(profile.userId);
+  return updated;
+}
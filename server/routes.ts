@@ -2,20 +2,47 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
-import { storage } from "./storage";
+import { hashPassword } from "./passwords";
+import {
+  requireAuth, requireRole, requireVerifiedEmail, requireEmployerProfile, requireEmployerPermission, requireJobOwnership,
+  requireApplicationOwnership, requireApplicationParticipant, requireNonProduction, forbidden, notFound,
+} from "./authz";
+import { storage, type JobCursor, type JobSearch } from "./storage";
 import { api } from "@shared/routes";
+import {
+  canTransitionApplication, hasEmployerPermission, isJobLive, type Application, type EmployerProfile, type Interview, type Job, type MessageTemplate,
+  type Offer, type Resume,
+} from "@shared/schema";
 import { z } from "zod";
 import multer from "multer";
-import { openai } from "./openai"; // We will create this
-import * as pdfParseLib from "pdf-parse";
-const pdfParse = (pdfParseLib as any).default || pdfParseLib;
-import fs from "fs";
+import { refreshJobEmbedding, refreshProfileEmbedding, recommendJobsForSeeker, startEmbeddingBackfill } from "./embeddings";
+import { sourceCandidatesForJob } from "./sourcing";
+import { inviteTeamMember, findInvitationByToken, isInvitationLive, normalizeEmail, publicInvitation } from "./team";
+import { enqueueScreening, retryScreeningJob, startScreeningWorker } from "./queue";
+import { startJobLifecycle } from "./jobLifecycle";
+import { validateAnswers, findKnockout, publicQuestion } from "./questions";
+import {
+  syncDefaultResume, deleteResumeVersion, snapshotApplication, startResumeParse, parseSuggestions, mergeResumeParse,
+  storeResumeFile, resumeBlobKey, resumeContentTypes, canDownloadResume, signResumeDownload, verifyResumeDownload,
+} from "./resumes";
+import { getBlobStore } from "./blobs";
+import { sendApplicationMessage } from "./messages";
+import { bookInterview, rescheduleInterview, cancelInterview, interviewIcs, buildInterviewKit, isSlotOpen, publicInterview } from "./interviews";
+import { ICS_CONTENT_TYPE } from "./calendar";
+import { validateRatings, buildRatings, scorecardsForViewer } from "./scorecards";
+import { applyBlindReview, identityHiddenFrom, isIdentityHiddenFor, redactThread } from "./blindReview";
+import {
+  effectiveOffer, publicOffer, isSentToSeeker, offerLetterText, offerLetterTitle, offerLetterHtml, offerLetterPdf,
+  submitOfferForApproval, decideOfferApproval, sendOffer, withdrawOffer, respondToOffer,
+} from "./offers";
+import { normalizeSkill } from "./scoring";
+import { extractResumeText } from "./resumeFiles";
 import path from "path";
 import { createRepositoryAndPush } from "./github";
 
-// Setup multer for resume uploads
-const upload = multer({ 
-  dest: 'uploads/',
+// Resume uploads are kept in memory until they've been checked, then go to the blob store
+const upload = multer({
+  storage: multer.memoryStorage(),
   limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
 });
 
@@ -26,16 +53,820 @@ export async function registerRoutes(
   // Auth
   setupAuth(app);
 
+  // Resumes screening jobs left over from a previous run
+  await startScreeningWorker();
+
+  // Embeds jobs and profiles that don't have a vector from the current backend
+  startEmbeddingBackfill();
+
+  // Publishes scheduled jobs and closes expired ones
+  await startJobLifecycle();
+
+  // Jobs created before full-text search existed have no search document yet
+  const indexed = await storage.indexJobsForSearch();
+  if (indexed > 0) console.log(`Indexed ${indexed} job(s) for search`);
+
   // === JOBS ===
   app.get(api.jobs.list.path, async (req, res) => {
     try {
-      const filters = api.jobs.list.input?.parse({
-        ...req.query,
-        minSalary: req.query.minSalary ? Number(req.query.minSalary) : undefined,
-        remote: req.query.remote === 'true',
+      const { cursor, sort: requestedSort, ...filters } = api.jobs.list.input.parse(req.query);
+      const sort = requestedSort === "relevance" && !filters.q ? "date" : requestedSort ?? (filters.q ? "relevance" : "date");
+      const after = cursor ? decodeCursor(cursor, sort) : undefined;
+      if (cursor && !after) return res.status(400).json({ message: "Invalid cursor" });
+
+      const page = await storage.searchJobs({ ...filters, sort, cursor: after });
+      res.json({
+        items: page.items,
+        total: page.total,
+        nextCursor: page.next && encodeCursor(page.next, sort),
+        facets: page.facets,
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.jobs.create.path, requireEmployerProfile, requireEmployerPermission("postJobs"), requireVerifiedEmail, async (req, res) => {
+    const employerProfile = res.locals.employerProfile!;
+
+    try {
+      const input = api.jobs.create.input.parse(req.body);
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        return res.status(400).json({ message: "expiresAt must be in the future" });
+      }
+      const job = await storage.createJob({
+        ...input,
+        companyId: employerProfile.companyId,
+        active: isJobLive({ status: input.status, publishAt: input.publishAt ?? null, expiresAt: input.expiresAt ?? null }),
+      });
+
+      // Async: Generate job embedding
+      refreshJobEmbedding(job.id);
+
+      res.status(201).json(job);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.jobs.get.path, async (req, res) => {
+    const job = await storage.getJob(Number(req.params.id));
+    if (!job) return notFound(res, "Job not found");
+
+    if (isUnpublished(job) && !(await isCompanyMember(req.user, job.companyId))) {
+      return notFound(res, "Job not found");
+    }
+    res.json(job);
+  });
+
+  app.get(api.jobs.listForCompany.path, requireEmployerProfile, async (req, res) => {
+    res.json(await storage.listJobsForCompany(res.locals.employerProfile!.companyId));
+  });
+
+  app.patch(api.jobs.update.path, requireJobOwnership(), requireEmployerPermission("postJobs"), async (req, res) => {
+    const job = res.locals.job!;
+
+    try {
+      const input = api.jobs.update.input.parse(req.body);
+      const schedule = {
+        status: job.status,
+        publishAt: input.publishAt !== undefined ? input.publishAt : job.publishAt,
+        expiresAt: input.expiresAt !== undefined ? input.expiresAt : job.expiresAt,
+      };
+      if (schedule.publishAt && schedule.expiresAt && schedule.expiresAt <= schedule.publishAt) {
+        return res.status(400).json({ message: "expiresAt must be after publishAt" });
+      }
+      if (input.expiresAt && input.expiresAt <= new Date()) {
+        return res.status(400).json({ message: "expiresAt must be in the future" });
+      }
+
+      const updated = await storage.updateJob(job.id, { ...input, active: isJobLive(schedule) });
+
+      // Scores were computed against the old text and skills
+      if (changed(job.description, input.description) || changed(job.requiredSkills, input.requiredSkills)) {
+        await storage.markScreeningResultsStale(job.id);
+      }
+      if (changed(job.title, input.title) || changed(job.description, input.description) || changed(job.requiredSkills, input.requiredSkills)) {
+        refreshJobEmbedding(job.id);
+      }
+
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.jobs.publish.path, requireJobOwnership(), requireEmployerPermission("postJobs"), async (req, res) => {
+    const job = res.locals.job!;
+    if (job.status !== "draft") {
+      return res.status(400).json({ message: "Only draft jobs can be published" });
+    }
+    if (job.expiresAt && job.expiresAt <= new Date()) {
+      return res.status(400).json({ message: "expiresAt must be in the future" });
+    }
+    res.json(await storage.updateJob(job.id, { status: "open", active: isJobLive({ ...job, status: "open" }) }));
+  });
+
+  app.post(api.jobs.close.path, requireJobOwnership(), requireEmployerPermission("postJobs"), async (req, res) => {
+    const job = res.locals.job!;
+    if (job.status !== "open") {
+      return res.status(400).json({ message: "Only open jobs can be closed" });
+    }
+    res.json(await storage.updateJob(job.id, { status: "closed", active: false, closedAt: new Date() }));
+  });
+
+  app.post(api.jobs.reopen.path, requireJobOwnership(), requireEmployerPermission("postJobs"), async (req, res) => {
+    const job = res.locals.job!;
+
+    try {
+      const input = api.jobs.reopen.input.parse(req.body ?? {});
+      if (job.status !== "closed") {
+        return res.status(400).json({ message: "Only closed jobs can be reopened" });
+      }
+
+      const expiresAt = input.expiresAt !== undefined ? input.expiresAt : job.expiresAt;
+      if (expiresAt && expiresAt <= new Date()) {
+        return res.status(400).json({ message: "Set a new expiresAt to reopen an expired job" });
+      }
+
+      const reopened = { status: "open" as const, publishAt: job.publishAt, expiresAt };
+      res.json(await storage.updateJob(job.id, { ...reopened, closedAt: null, active: isJobLive(reopened) }));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.jobs.questions.path, async (req, res) => {
+    const job = await storage.getJob(Number(req.params.id));
+    if (!job) return notFound(res, "Job not found");
+
+    const member = await isCompanyMember(req.user, job.companyId);
+    if (isUnpublished(job) && !member) return notFound(res, "Job not found");
+
+    const questions = await storage.listJobQuestions(job.id);
+    res.json(member ? questions : questions.map(publicQuestion));
+  });
+
+  app.put(api.jobs.setQuestions.path, requireJobOwnership(), requireEmployerPermission("postJobs"), async (req, res) => {
+    const job = res.locals.job!;
+
+    try {
+      const input = api.jobs.setQuestions.input.parse(req.body);
+      const current = new Set((await storage.listJobQuestions(job.id)).map(q => q.id));
+      const unknown = input.questions.find(q => q.id !== undefined && !current.has(q.id));
+      if (unknown) {
+        return res.status(400).json({ message: `Unknown question ${unknown.id}` });
+      }
+
+      res.json(await storage.replaceJobQuestions(job.id, input.questions));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  // === APPLICATIONS ===
+  app.post(api.applications.apply.path, requireRole("seeker"), requireVerifiedEmail, async (req, res) => {
+    try {
+      const input = api.applications.apply.input.parse(req.body);
+
+      const job = await storage.getJob(input.jobId);
+      if (!job) return notFound(res, "Job not found");
+      if (!isJobLive(job)) {
+        return res.status(400).json({ message: "This job is not accepting applications" });
+      }
+
+      // Check if already applied
+      const existingApps = await storage.listApplicationsForSeeker(req.user!.id);
+      if (existingApps.some(a => a.jobId === input.jobId)) {
+        return res.status(400).json({ message: "Already applied" });
+      }
+
+      const questions = await storage.listJobQuestions(job.id);
+      const problem = validateAnswers(questions, input.answers);
+      if (problem) return res.status(400).json({ message: problem });
+
+      let resume: Resume | undefined;
+      if (input.resumeId !== undefined) {
+        resume = await storage.getResume(input.resumeId);
+        if (!resume || !isOwnResume(resume, req.user!.id)) {
+          return res.status(400).json({ message: "Resume not found" });
+        }
+      } else {
+        resume = (await storage.listResumes(req.user!.id)).find(r => r.isDefault);
+      }
+
+      let app = await storage.createApplication({
+        jobId: input.jobId,
+        seekerId: req.user!.id,
+        note: input.note,
+        status: "applied"
+      }, req.user!.id);
+      await storage.createApplicationAnswers(input.answers.map(answer => ({ ...answer, applicationId: app.id })));
+      await snapshotApplication(app.id, req.user!.id, resume);
+
+      // Knockouts reject through the normal transition so they land in the
+      // history. The rule that fired is for the company's eyes only.
+      const knockout = findKnockout(questions, input.answers);
+      if (knockout) {
+        app = await storage.updateApplicationStatus(app.id, "rejected", {
+          from: "applied",
+          actorId: null,
+          internalReason: knockout.reason,
+        }) ?? app;
+      }
+
+      const invitation = await storage.findJobInvitation(input.jobId, req.user!.id);
+      if (invitation && invitation.status === "pending") {
+        await storage.updateJobInvitation(invitation.id, { status: "applied", respondedAt: new Date() });
+      }
+
+      // Async: Queue AI processing. Knocked-out applications aren't worth screening.
+      if (!knockout) await enqueueScreening(app.id);
+
+      res.status(201).json(app);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.applications.list.path, requireRole("seeker"), async (req, res) => {
+    const apps = await storage.listApplicationsForSeeker(req.user!.id);
+    res.json(await withOffers(await withInterviews(await withSnapshots(await withAnswers(await withHistory(apps, "seeker"), "seeker")), false)));
+  });
+
+  app.get(api.applications.listForJob.path, requireJobOwnership(), async (req, res) => {
+    const apps = await storage.listApplicationsForJob(res.locals.job!.id);
+    // Read-only members see the pipeline but not the AI screening
+    const canViewScreening = hasEmployerPermission(res.locals.employerProfile!.role, "viewScreening");
+    const visible = canViewScreening ? apps : apps.map(({ screening: _screening, ...app }) => app);
+    const detailed = await withInterviews(await withSnapshots(await withAnswers(await withHistory(visible, "employer"), "employer")), canViewScreening);
+    // Everyone on the team sees the panel's call, not just the people who score
+    const scored = await withScorecardSummaries(detailed, req.user!.id);
+    const job = res.locals.job!;
+    res.json(job.blindReview ? await applyBlindReview(scored, job, req.user!.id) : scored);
+  });
+
+  app.patch(api.applications.updateStatus.path, requireApplicationOwnership(), requireEmployerPermission("changeStatus"), async (req, res) => {
+    try {
+      const input = api.applications.updateStatus.input.parse(req.body);
+      const current = res.locals.application!;
+
+      const from = current.status ?? "applied";
+      if (!canTransitionApplication(from, input.status)) {
+        return res.status(400).json({ message: `Cannot move application from ${from} to ${input.status}` });
+      }
+
+      const updated = await storage.updateApplicationStatus(current.id, input.status, {
+        from,
+        actorId: req.user!.id,
+        reason: input.reason,
+      });
+      if (!updated) {
+        return res.status(409).json({ message: "Application status changed, reload and try again" });
+      }
+
+      // A rejected candidate's upcoming interview comes off both calendars
+      const interview = input.status === "rejected" ? await storage.getActiveInterview(current.id) : undefined;
+      if (interview && interview.startsAt > new Date()) await cancelInterview(current, interview);
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  // === SEEKER ===
+  app.get(api.seeker.profile.path, requireRole("seeker"), async (req, res) => {
+    const profile = await storage.getSeekerProfile(req.user!.id);
+    if (!profile) return notFound(res, "Profile not found");
+    res.json(profile);
+  });
+
+  app.put(api.seeker.updateProfile.path, requireRole("seeker"), async (req, res) => {
+    try {
+      // userId always comes from the session, never the body
+      const { userId, ...input } = api.seeker.updateProfile.input.parse(req.body);
+
+      let profile = await storage.getSeekerProfile(req.user!.id);
+      if (profile) {
+        profile = await storage.updateSeekerProfile(req.user!.id, input);
+      } else {
+        profile = await storage.createSeekerProfile({ ...input, userId: req.user!.id, name: input.name || "Unknown" });
+      }
+
+      // Async: Generate profile embedding if skills/bio changed
+      if (!profile.embedding || input.title !== undefined || input.bio !== undefined || input.skills !== undefined) {
+        refreshProfileEmbedding(req.user!.id);
+      }
+
+      res.json(profile);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.seeker.invitations.path, requireRole("seeker"), async (req, res) => {
+    const invitations = await storage.listJobInvitationsForSeeker(req.user!.id);
+    res.json(invitations);
+  });
+
+  app.post(api.seeker.declineInvitation.path, requireRole("seeker"), async (req, res) => {
+    const invitation = await storage.getJobInvitation(Number(req.params.id));
+    if (!invitation || invitation.seekerId !== req.user!.id) return notFound(res, "Invitation not found");
+    if (invitation.status !== "pending") {
+      return res.status(400).json({ message: `Invitation already ${invitation.status}` });
+    }
+    const updated = await storage.updateJobInvitation(invitation.id, { status: "declined", respondedAt: new Date() });
+    res.json(updated);
+  });
+
+  app.get(api.seeker.recommendations.path, requireRole("seeker"), async (req, res) => {
+    try {
+      const { limit } = api.seeker.recommendations.input.parse(req.query);
+      const jobs = await recommendJobsForSeeker(req.user!.id, limit);
+      if (!jobs) return res.status(404).json({ message: "Create a profile to get recommendations" });
+      res.json(jobs);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.seeker.uploadResume.path, requireRole("seeker"), upload.single('file'), async (req, res) => {
+    if (!req.file) return res.status(400).json({ message: "No file uploaded" });
+
+    let extracted: Awaited<ReturnType<typeof extractResumeText>>;
+    try {
+      extracted = await extractResumeText({
+        buffer: req.file.buffer,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+      });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to read the resume file" });
+    }
+    if ("error" in extracted) {
+      return res.status(400).json({ message: extracted.error });
+    }
+    const { type: fileType, text } = extracted;
+
+    try {
+      const input = api.seeker.uploadResume.input.parse(req.body);
+      const fileUrl = await storeResumeFile(req.user!.id, fileType, req.file.buffer);
+
+      // The default version is mirrored onto the profile, so there has to be one
+      if (!await storage.getSeekerProfile(req.user!.id)) {
+        await storage.createSeekerProfile({
+          userId: req.user!.id,
+          name: "New User", // Placeholder
+        });
+      }
+
+      const existing = await storage.listResumes(req.user!.id);
+      const resume = await storage.createResume({
+        seekerId: req.user!.id,
+        name: input.name ?? req.file.originalname,
+        fileUrl,
+        fileType,
+        text,
+        isDefault: existing.length === 0 || input.makeDefault === true,
+      });
+      if (resume.isDefault) await syncDefaultResume(req.user!.id);
+      await startResumeParse(resume);
+
+      res.json({ url: signResumeDownload(resume.id, req.user!.id).url, text: text.substring(0, 500) + "...", resume });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.seeker.resumes.path, requireRole("seeker"), async (req, res) => {
+    const list = await storage.listResumes(req.user!.id);
+    res.json(list.map(resume => ({ ...resume, downloadUrl: signResumeDownload(resume.id, req.user!.id).url })));
+  });
+
+  app.patch(api.seeker.updateResume.path, requireRole("seeker"), async (req, res) => {
+    try {
+      const input = api.seeker.updateResume.input.parse(req.body);
+      const resume = await storage.getResume(Number(req.params.id));
+      if (!resume || !isOwnResume(resume, req.user!.id)) return notFound(res, "Resume not found");
+
+      let updated = resume;
+      if (input.name !== undefined) updated = await storage.renameResume(resume.id, input.name);
+      if (input.isDefault && !resume.isDefault) {
+        updated = await storage.setDefaultResume(req.user!.id, resume.id);
+        await syncDefaultResume(req.user!.id);
+      }
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.seeker.deleteResume.path, requireRole("seeker"), async (req, res) => {
+    const resume = await storage.getResume(Number(req.params.id));
+    if (!resume || !isOwnResume(resume, req.user!.id)) return notFound(res, "Resume not found");
+    await deleteResumeVersion(resume);
+    res.json({ message: "Resume deleted" });
+  });
+
+  app.get(api.seeker.parsedResume.path, requireRole("seeker"), async (req, res) => {
+    const resume = await storage.getResume(Number(req.params.id));
+    if (!resume || !isOwnResume(resume, req.user!.id)) return notFound(res, "Resume not found");
+    const parse = await storage.getResumeParse(resume.id);
+    if (!parse) return notFound(res, "This resume hasn't been parsed");
+
+    const profile = await storage.getSeekerProfile(req.user!.id);
+    res.json({ ...parse, suggestions: parseSuggestions(parse, profile) });
+  });
+
+  app.post(api.seeker.reparseResume.path, requireRole("seeker"), async (req, res) => {
+    const resume = await storage.getResume(Number(req.params.id));
+    if (!resume || !isOwnResume(resume, req.user!.id)) return notFound(res, "Resume not found");
+    res.status(202).json(await startResumeParse(resume));
+  });
+
+  app.post(api.seeker.mergeParsedResume.path, requireRole("seeker"), async (req, res) => {
+    try {
+      const input = api.seeker.mergeParsedResume.input.parse(req.body);
+      const resume = await storage.getResume(Number(req.params.id));
+      if (!resume || !isOwnResume(resume, req.user!.id)) return notFound(res, "Resume not found");
+      const parse = await storage.getResumeParse(resume.id);
+      if (!parse) return notFound(res, "This resume hasn't been parsed");
+      if (parse.status !== "complete") {
+        return res.status(400).json({ message: parse.status === "pending" ? "This resume is still being parsed" : "Parsing this resume failed" });
+      }
+      const profile = await storage.getSeekerProfile(req.user!.id);
+      if (!profile) return notFound(res, "Profile not found");
+
+      // Only skills that were actually found in the resume can be merged
+      const parsed = new Set((parse.skills ?? []).map(normalizeSkill));
+      const unknown = input.skills?.find(skill => !parsed.has(normalizeSkill(skill)));
+      if (unknown) return res.status(400).json({ message: `"${unknown}" wasn't found in this resume` });
+
+      const skills = input.skills ?? parseSuggestions(parse, profile).skills;
+      res.json(await mergeResumeParse(parse, profile, { skills, experienceYears: input.experienceYears }));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  // === RESUME FILES ===
+  app.get(api.resumes.downloadUrl.path, requireAuth, async (req, res) => {
+    const resume = await storage.getResume(Number(req.params.id));
+    if (!resume || !await canDownloadResume(req.user!, resume)) return notFound(res, "Resume not found");
+    if (resume.deletedAt) return notFound(res, "This resume was deleted");
+    res.json(signResumeDownload(resume.id, req.user!.id));
+  });
+
+  app.get(api.resumes.download.path, requireAuth, async (req, res) => {
+    const input = api.resumes.download.input.safeParse(req.query);
+    const resumeId = Number(req.params.id);
+    if (!input.success || !verifyResumeDownload(resumeId, req.user!.id, input.data.expires, input.data.signature)) {
+      return forbidden(res, "This download link is invalid or has expired");
+    }
+
+    // Access can be lost after the link was issued
+    const resume = await storage.getResume(resumeId);
+    if (!resume || !await canDownloadResume(req.user!, resume)) return notFound(res, "Resume not found");
+    const file = resume.deletedAt ? undefined : await getBlobStore().get(resumeBlobKey(resume.fileUrl));
+    if (!file) return notFound(res, "This resume file is no longer available");
+
+    const extension = `.${resume.fileType}`;
+    res.attachment(resume.name.toLowerCase().endsWith(extension) ? resume.name : resume.name + extension);
+    res.type(resumeContentTypes[resume.fileType]);
+    res.set("Cache-Control", "private, no-store");
+    res.send(file);
+  });
+
+  // === MESSAGES ===
+  app.get(api.messages.thread.path, requireApplicationParticipant(), async (req, res) => {
+    const application = res.locals.application!;
+    const messages = await storage.listApplicationMessages(application.id);
+    if (res.locals.employerProfile && await identityHiddenFrom(application, req.user!.id)) {
+      return res.json(await redactThread(messages, application));
+    }
+    res.json(messages);
+  });
+
+  app.post(api.messages.send.path, requireApplicationParticipant(), async (req, res) => {
+    const profile = res.locals.employerProfile;
+    if (profile && !hasEmployerPermission(profile.role, "messageCandidates")) {
+      return forbidden(res, "Your team role does not allow this");
+    }
+
+    try {
+      const input = api.messages.send.input.parse(req.body);
+      let template: MessageTemplate | undefined;
+      if (input.templateId !== undefined) {
+        if (!profile) return res.status(400).json({ message: "Only employers can use message templates" });
+        template = await storage.getMessageTemplate(input.templateId);
+        if (!template || template.companyId !== profile.companyId || template.archivedAt) {
+          return res.status(400).json({ message: "Message template not found" });
+        }
+        // The thread would show the team the name blind review is hiding
+        if (input.body === undefined && /\{\{\s*candidateName\s*\}\}/.test(template.body) && await isIdentityHiddenFor(res.locals.application!)) {
+          const stage = res.locals.application!.job.revealStage;
+          return res.status(400).json({ message: `Candidate names are hidden on this job until the ${stage} stage, so this template can't fill in {{candidateName}}. Write the message as body instead` });
+        }
+      }
+
+      const message = await sendApplicationMessage(
+        res.locals.application!,
+        { id: req.user!.id, role: profile ? "employer" : "seeker" },
+        { body: input.body, template },
+      );
+      res.status(201).json(message);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  // Read-only team members can follow a thread without clearing it for the people who answer
+  app.post(api.messages.markRead.path, requireApplicationParticipant(), async (req, res) => {
+    const profile = res.locals.employerProfile;
+    if (profile && !hasEmployerPermission(profile.role, "messageCandidates")) {
+      return forbidden(res, "Your team role does not allow this");
+    }
+    const marked = await storage.markApplicationMessagesRead(res.locals.application!.id, {
+      role: profile ? "employer" : "seeker",
+      userId: req.user!.id,
+    });
+    res.json({ marked });
+  });
+
+  app.get(api.messages.unread.path, requireAuth, async (req, res) => {
+    let counts: { applicationId: number; count: number }[] = [];
+    if (req.user!.role === "seeker") {
+      counts = await storage.countUnreadMessages({ role: "seeker", seekerId: req.user!.id });
+    } else {
+      const profile = await storage.getEmployerProfile(req.user!.id);
+      if (profile) counts = await storage.countUnreadMessages({ role: "employer", companyId: profile.companyId });
+    }
+    res.json({ total: counts.reduce((sum, c) => sum + c.count, 0), applications: counts });
+  });
+
+  app.get(api.messages.templates.path, requireEmployerProfile, async (req, res) => {
+    res.json(await storage.listMessageTemplates(res.locals.employerProfile!.companyId));
+  });
+
+  app.post(api.messages.createTemplate.path, requireEmployerProfile, requireEmployerPermission("messageCandidates"), async (req, res) => {
+    try {
+      const input = api.messages.createTemplate.input.parse(req.body);
+      const template = await storage.createMessageTemplate({
+        ...input,
+        companyId: res.locals.employerProfile!.companyId,
+        createdBy: req.user!.id,
+      });
+      res.status(201).json(template);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.messages.updateTemplate.path, requireEmployerProfile, requireEmployerPermission("messageCandidates"), async (req, res) => {
+    try {
+      const input = api.messages.updateTemplate.input.parse(req.body);
+      const template = await storage.getMessageTemplate(Number(req.params.id));
+      if (!template || template.companyId !== res.locals.employerProfile!.companyId || template.archivedAt) {
+        return notFound(res, "Message template not found");
+      }
+      res.json(await storage.updateMessageTemplate(template.id, input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.messages.deleteTemplate.path, requireEmployerProfile, requireEmployerPermission("messageCandidates"), async (req, res) => {
+    const template = await storage.getMessageTemplate(Number(req.params.id));
+    if (!template || template.companyId !== res.locals.employerProfile!.companyId || template.archivedAt) {
+      return notFound(res, "Message template not found");
+    }
+    await storage.archiveMessageTemplate(template.id);
+    res.json({ message: "Template deleted" });
+  });
+
+  // === INTERVIEWS ===
+  app.get(api.interviews.slots.path, requireJobOwnership(), async (req, res) => {
+    res.json(await storage.listInterviewSlots(res.locals.job!.id));
+  });
+
+  app.post(api.interviews.createSlots.path, requireJobOwnership(), requireEmployerPermission("changeStatus"), async (req, res) => {
+    try {
+      const input = api.interviews.createSlots.input.parse(req.body);
+      const job = res.locals.job!;
+      const members = await storage.listCompanyMembers(job.companyId);
+      const now = new Date();
+      for (const slot of input.slots) {
+        if (slot.startsAt <= now) {
+          return res.status(400).json({ message: "Interview slots must be in the future" });
+        }
+        if (slot.interviewerId !== undefined && !members.some(m => m.userId === slot.interviewerId)) {
+          return res.status(400).json({ message: "The interviewer must be on your team" });
+        }
+      }
+
+      const slots = await storage.createInterviewSlots(input.slots.map(slot => ({
+        ...slot,
+        jobId: job.id,
+        interviewerId: slot.interviewerId ?? req.user!.id,
+        createdBy: req.user!.id,
+      })));
+      res.status(201).json(slots);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.interviews.deleteSlot.path, requireJobOwnership(), requireEmployerPermission("changeStatus"), async (req, res) => {
+    const slot = await storage.getInterviewSlot(Number(req.params.slotId));
+    if (!slot || slot.jobId !== res.locals.job!.id) return notFound(res, "Interview slot not found");
+    if (!await storage.deleteInterviewSlot(slot.id)) {
+      return res.status(409).json({ message: "This slot has been booked, reschedule or cancel the interview instead" });
+    }
+    res.json({ message: "Interview slot deleted" });
+  });
+
+  app.get(api.interviews.availableSlots.path, requireApplicationParticipant(), async (req, res) => {
+    const slots = await storage.listInterviewSlots(res.locals.application!.jobId);
+    res.json(slots.filter(slot => isSlotOpen(slot)));
+  });
+
+  // Interviews come after every reveal stage, so for the team these only log the reveal
+  app.get(api.interviews.get.path, requireApplicationParticipant(), async (req, res) => {
+    const interview = await storage.getActiveInterview(res.locals.application!.id);
+    if (interview && res.locals.employerProfile) await identityHiddenFrom(res.locals.application!, req.user!.id);
+    res.json(interview ? visibleInterview(interview, res.locals.employerProfile) : null);
+  });
+
+  // Seekers book their own interview; on the team it takes changeStatus
+  app.post(api.interviews.book.path, requireApplicationParticipant(), async (req, res) => {
+    const profile = res.locals.employerProfile;
+    if (profile && !hasEmployerPermission(profile.role, "changeStatus")) {
+      return forbidden(res, "Your team role does not allow this");
+    }
+
+    try {
+      const input = api.interviews.book.input.parse(req.body);
+      const application = res.locals.application!;
+      if (application.status !== "interview") {
+        return res.status(400).json({ message: "Interviews can only be booked once the application reaches the interview stage" });
+      }
+      if (await storage.getActiveInterview(application.id)) {
+        return res.status(409).json({ message: "An interview is already scheduled, reschedule it instead" });
+      }
+
+      const slot = await storage.getInterviewSlot(input.slotId);
+      if (!slot || slot.jobId !== application.jobId) return res.status(400).json({ message: "Interview slot not found" });
+      const interview = isSlotOpen(slot) ? await bookInterview(application, slot) : "slot_taken";
+      if (interview === "slot_taken") return res.status(409).json({ message: "This slot is no longer available" });
+      if (interview === "already_scheduled") {
+        return res.status(409).json({ message: "An interview is already scheduled, reschedule it instead" });
+      }
+      res.status(201).json(visibleInterview(interview, profile));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.patch(api.interviews.reschedule.path, requireApplicationParticipant(), async (req, res) => {
+    const profile = res.locals.employerProfile;
+    if (profile && !hasEmployerPermission(profile.role, "changeStatus")) {
+      return forbidden(res, "Your team role does not allow this");
+    }
+
+    try {
+      const input = api.interviews.reschedule.input.parse(req.body);
+      const application = res.locals.application!;
+      const current = await storage.getActiveInterview(application.id);
+      if (!current) return notFound(res, "No interview is scheduled");
+      if (application.status !== "interview") {
+        return res.status(400).json({ message: "This application is no longer in the interview stage" });
+      }
+      if (input.slotId === current.slotId) {
+        return res.status(400).json({ message: "The interview is already in this slot" });
+      }
+
+      const slot = await storage.getInterviewSlot(input.slotId);
+      if (!slot || slot.jobId !== application.jobId) return res.status(400).json({ message: "Interview slot not found" });
+      const interview = isSlotOpen(slot) ? await rescheduleInterview(application, current, slot) : undefined;
+      if (!interview) return res.status(409).json({ message: "This slot is no longer available" });
+      res.json(visibleInterview(interview, profile));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.interviews.cancel.path, requireApplicationParticipant(), async (req, res) => {
+    const profile = res.locals.employerProfile;
+    if (profile && !hasEmployerPermission(profile.role, "changeStatus")) {
+      return forbidden(res, "Your team role does not allow this");
+    }
+
+    try {
+      const input = api.interviews.cancel.input.parse(req.body ?? {});
+      const application = res.locals.application!;
+      const current = await storage.getActiveInterview(application.id);
+      if (!current) return notFound(res, "No interview is scheduled");
+      const interview = await cancelInterview(application, current, input.reason);
+      res.json(visibleInterview(interview, profile));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.interviews.invite.path, requireApplicationParticipant(), async (req, res) => {
+    const application = res.locals.application!;
+    const interview = await storage.getActiveInterview(application.id);
+    if (!interview) return notFound(res, "No interview is scheduled");
+
+    const profile = res.locals.employerProfile;
+    if (profile) await identityHiddenFrom(application, req.user!.id);
+    const withKit = !!profile && hasEmployerPermission(profile.role, "viewScreening");
+    const ics = await interviewIcs(application, interview, profile ? "employer" : "seeker", withKit);
+    res.attachment("interview.ics");
+    res.type(ICS_CONTENT_TYPE);
+    res.set("Cache-Control", "private, no-store");
+    res.send(ics);
+  });
+
+  app.get(api.interviews.kit.path, requireApplicationOwnership(), requireEmployerPermission("viewScreening"), async (req, res) => {
+    const interview = await storage.getActiveInterview(res.locals.application!.id);
+    if (!interview) return notFound(res, "No interview is scheduled");
+    await identityHiddenFrom(res.locals.application!, req.user!.id);
+    res.json(interview.kit ?? await buildInterviewKit(interview.applicationId));
+  });
+
+  // === OFFERS ===
+  app.get(api.offers.templates.path, requireEmployerProfile, async (req, res) => {
+    res.json(await storage.listOfferTemplates(res.locals.employerProfile!.companyId));
+  });
+
+  app.post(api.offers.createTemplate.path, requireEmployerProfile, requireEmployerPermission("makeOffers"), async (req, res) => {
+    try {
+      const input = api.offers.createTemplate.input.parse(req.body);
+      const template = await storage.createOfferTemplate({
+        ...input,
+        companyId: res.locals.employerProfile!.companyId,
+        createdBy: req.user!.id,
       });
-      const jobs = await storage.listJobs(filters);
-      res.json(jobs);
+      res.status(201).json(template);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors[0].message });
@@ -44,23 +875,65 @@ export async function registerRoutes(
     }
   });
 
-  app.post(api.jobs.create.path, async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'employer') {
-      return res.status(401).send();
+  app.patch(api.offers.updateTemplate.path, requireEmployerProfile, requireEmployerPermission("makeOffers"), async (req, res) => {
+    try {
+      const input = api.offers.updateTemplate.input.parse(req.body);
+      const template = await storage.getOfferTemplate(Number(req.params.id));
+      if (!template || template.companyId !== res.locals.employerProfile!.companyId || template.archivedAt) {
+        return notFound(res, "Offer template not found");
+      }
+      res.json(await storage.updateOfferTemplate(template.id, input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.offers.deleteTemplate.path, requireEmployerProfile, requireEmployerPermission("makeOffers"), async (req, res) => {
+    const template = await storage.getOfferTemplate(Number(req.params.id));
+    if (!template || template.companyId !== res.locals.employerProfile!.companyId || template.archivedAt) {
+      return notFound(res, "Offer template not found");
     }
-    const employerProfile = await storage.getEmployerProfile(req.user.id);
-    if (!employerProfile) {
-      return res.status(400).json({ message: "Employer profile not found" });
+    await storage.archiveOfferTemplate(template.id);
+    res.json({ message: "Template deleted" });
+  });
+
+  // Compensation is only visible to the seeker and to team members who make offers
+  app.get(api.offers.list.path, requireApplicationParticipant(), async (req, res) => {
+    const profile = res.locals.employerProfile;
+    if (profile && !hasEmployerPermission(profile.role, "makeOffers")) {
+      return forbidden(res, "Your team role does not allow this");
     }
+    const offers = await storage.listOffers([res.locals.application!.id]);
+    // Offers can only be made from the interview stage on, so this only logs the reveal
+    if (profile && offers.length > 0) await identityHiddenFrom(res.locals.application!, req.user!.id);
+    res.json(visibleOffers(offers, profile ? "employer" : "seeker"));
+  });
 
+  app.post(api.offers.create.path, requireApplicationOwnership(), requireEmployerPermission("makeOffers"), async (req, res) => {
     try {
-      const input = api.jobs.create.input.parse(req.body);
-      const job = await storage.createJob({ ...input, companyId: employerProfile.companyId });
-      
-      // Async: Generate job embedding
-      // generateJobEmbedding(job.id); 
+      const input = api.offers.create.input.parse(req.body);
+      const application = res.locals.application!;
+      if (application.status !== "interview" && application.status !== "offer") {
+        return res.status(400).json({ message: "Offers can only be made once the application reaches the interview stage" });
+      }
 
-      res.status(201).json(job);
+      const offers = await storage.listOffers([application.id]);
+      if (offers.some(o => o.status === "accepted")) {
+        return res.status(409).json({ message: "The candidate already accepted an offer" });
+      }
+      const unsent = offers.find(o => ["draft", "pending_approval", "approved"].includes(o.status));
+      if (unsent) {
+        return res.status(409).json({ message: `Version ${unsent.version} hasn't been sent yet, change or withdraw it instead` });
+      }
+
+      const problem = await checkOfferTerms(input, res.locals.employerProfile!.companyId);
+      if (problem) return res.status(400).json({ message: problem });
+
+      const offer = await storage.createOffer({ ...input, applicationId: application.id, createdBy: req.user!.id });
+      res.status(201).json(offer);
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors[0].message });
@@ -69,38 +942,157 @@ export async function registerRoutes(
     }
   });
 
-  app.get(api.jobs.get.path, async (req, res) => {
-    const job = await storage.getJob(Number(req.params.id));
-    if (!job) return res.status(404).send();
-    res.json(job);
+  app.patch(api.offers.update.path, requireApplicationOwnership(), requireEmployerPermission("makeOffers"), async (req, res) => {
+    try {
+      const input = api.offers.update.input.parse(req.body);
+      const offer = await findOffer(res.locals.application!.id, req.params.offerId);
+      if (!offer) return notFound(res, "Offer not found");
+
+      const problem = await checkOfferTerms(input, res.locals.employerProfile!.companyId);
+      if (problem) return res.status(400).json({ message: problem });
+
+      // Changed terms need a fresh approval, so only drafts can be edited
+      const updated = await storage.updateOffer(offer.id, ["draft"], input);
+      if (!updated) return res.status(409).json({ message: "Only draft offers can be changed" });
+      res.json(updated);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
   });
 
-  // === APPLICATIONS ===
-  app.post(api.applications.apply.path, async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'seeker') {
-      return res.status(401).send();
+  app.post(api.offers.submit.path, requireApplicationOwnership(), requireEmployerPermission("makeOffers"), async (req, res) => {
+    const application = res.locals.application!;
+    const offer = await findOffer(application.id, req.params.offerId);
+    if (!offer) return notFound(res, "Offer not found");
+
+    const submitted = await submitOfferForApproval(application, offer);
+    if (!submitted) return res.status(409).json({ message: "Only draft offers can be submitted for approval" });
+    res.json(submitted);
+  });
+
+  app.post(api.offers.approval.path, requireApplicationOwnership(), requireEmployerPermission("approveOffers"), async (req, res) => {
+    try {
+      const input = api.offers.approval.input.parse(req.body);
+      const application = res.locals.application!;
+      const offer = await findOffer(application.id, req.params.offerId);
+      if (!offer) return notFound(res, "Offer not found");
+
+      const decided = await decideOfferApproval(application, offer, req.user!.id, input.approve, input.note);
+      if (!decided) return res.status(409).json({ message: "This offer isn't waiting for approval" });
+      res.json(decided);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.offers.send.path, requireApplicationOwnership(), requireEmployerPermission("makeOffers"), async (req, res) => {
+    const application = res.locals.application!;
+    const offer = await findOffer(application.id, req.params.offerId);
+    if (!offer) return notFound(res, "Offer not found");
+    if (offer.status !== "approved") return res.status(409).json({ message: "Offers have to be approved by an owner before they're sent" });
+    if (application.status !== "interview" && application.status !== "offer") {
+      return res.status(400).json({ message: `Cannot send an offer on a ${application.status} application` });
+    }
+    if (offer.expiresAt <= new Date()) {
+      return res.status(400).json({ message: "This offer's expiry has passed, start a new version" });
     }
-    
+
+    const sent = await sendOffer(application, offer, req.user!.id);
+    if (!sent) return res.status(409).json({ message: "Offer changed, reload and try again" });
+    res.json(sent);
+  });
+
+  app.post(api.offers.withdraw.path, requireApplicationOwnership(), requireEmployerPermission("makeOffers"), async (req, res) => {
+    const application = res.locals.application!;
+    const offer = await findOffer(application.id, req.params.offerId);
+    if (!offer) return notFound(res, "Offer not found");
+
+    const withdrawn = await withdrawOffer(application, offer);
+    if (!withdrawn) return res.status(409).json({ message: `This offer is already ${offer.status.replace("_", " ")}` });
+    res.json(withdrawn);
+  });
+
+  app.post(api.offers.respond.path, requireRole("seeker"), requireApplicationParticipant(), async (req, res) => {
     try {
-      const input = api.applications.apply.input.parse(req.body);
-      
-      // Check if already applied
-      const existingApps = await storage.listApplicationsForSeeker(req.user.id);
-      if (existingApps.some(a => a.jobId === input.jobId)) {
-        return res.status(400).json({ message: "Already applied" });
+      const input = api.offers.respond.input.parse(req.body);
+      const application = res.locals.application!;
+      const offer = await findOffer(application.id, req.params.offerId);
+      if (!offer || !isSentToSeeker(offer)) return notFound(res, "Offer not found");
+      if (offer.status !== "sent") return res.status(409).json({ message: "This offer is no longer open" });
+
+      if (effectiveOffer(offer).status === "expired") {
+        await storage.updateOffer(offer.id, ["sent"], { status: "expired" });
+        return res.status(409).json({ message: "This offer has expired" });
+      }
+      if (input.response === "accept" && application.status !== "offer") {
+        return res.status(409).json({ message: "This application is no longer open" });
       }
 
-      const app = await storage.createApplication({
-        jobId: input.jobId,
-        seekerId: req.user.id,
-        note: input.note,
-        status: "applied"
+      const answered = await respondToOffer(application, offer, input.response, {
+        message: input.message,
+        counter: input.response === "counter" && input.counter ? {
+          salary: input.counter.salary ?? null,
+          startDate: input.counter.startDate ?? null,
+          equity: input.counter.equity ?? null,
+        } : undefined,
       });
+      if (!answered) return res.status(409).json({ message: "This offer is no longer open" });
+      res.json(publicOffer(answered));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
 
-      // Async: Trigger AI processing
-      processApplicationAI(app.id);
+  app.get(api.offers.letter.path, requireApplicationParticipant(), async (req, res) => {
+    const profile = res.locals.employerProfile;
+    if (profile && !hasEmployerPermission(profile.role, "makeOffers")) {
+      return forbidden(res, "Your team role does not allow this");
+    }
+    const input = api.offers.letter.input.safeParse(req.query);
+    if (!input.success) return res.status(400).json({ message: input.error.errors[0].message });
 
-      res.status(201).json(app);
+    const application = res.locals.application!;
+    const offer = await findOffer(application.id, req.params.offerId);
+    if (!offer || (!profile && !isSentToSeeker(offer))) return notFound(res, "Offer not found");
+    if (profile) await identityHiddenFrom(application, req.user!.id);
+
+    const letter = await offerLetterText(application, offer);
+    const title = offerLetterTitle(application, offer);
+    res.set("Cache-Control", "private, no-store");
+    if (input.data.format === "pdf") {
+      res.attachment(`offer-letter-v${offer.version}.pdf`);
+      res.type("application/pdf");
+      return res.send(offerLetterPdf(letter, title));
+    }
+    res.type("html").send(offerLetterHtml(letter, title));
+  });
+
+  // === SCORECARDS ===
+  app.get(api.scorecards.competencies.path, requireJobOwnership(), async (req, res) => {
+    res.json(await storage.listScorecardCompetencies(res.locals.job!.id));
+  });
+
+  app.put(api.scorecards.setCompetencies.path, requireJobOwnership(), requireEmployerPermission("postJobs"), async (req, res) => {
+    const job = res.locals.job!;
+
+    try {
+      const input = api.scorecards.setCompetencies.input.parse(req.body);
+      const current = new Set((await storage.listScorecardCompetencies(job.id)).map(c => c.id));
+      const unknown = input.competencies.find(c => c.id !== undefined && !current.has(c.id));
+      if (unknown) {
+        return res.status(400).json({ message: `Unknown competency ${unknown.id}` });
+      }
+
+      res.json(await storage.replaceScorecardCompetencies(job.id, input.competencies));
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ message: err.errors[0].message });
@@ -109,132 +1101,279 @@ export async function registerRoutes(
     }
   });
 
-  app.get(api.applications.list.path, async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'seeker') return res.status(401).send();
-    const apps = await storage.listApplicationsForSeeker(req.user.id);
-    res.json(apps);
+  app.get(api.scorecards.list.path, requireApplicationOwnership(), requireEmployerPermission("scoreCandidates"), async (req, res) => {
+    const applicationId = res.locals.application!.id;
+    const views = await scorecardsForViewer([applicationId], req.user!.id);
+    res.json(views.get(applicationId));
   });
 
-  app.get(api.applications.listForJob.path, async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'employer') return res.status(401).send();
-    
-    const job = await storage.getJob(Number(req.params.id));
-    if (!job) return res.status(404).send();
-    
-    // Verify ownership
-    const employerProfile = await storage.getEmployerProfile(req.user.id);
-    if (!employerProfile || employerProfile.companyId !== job.companyId) {
-      return res.status(403).send();
-    }
-
-    const apps = await storage.listApplicationsForJob(Number(req.params.id));
-    res.json(apps);
-  });
-
-  app.patch(api.applications.updateStatus.path, async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'employer') return res.status(401).send();
-    
-    // In a real app, verify ownership of the application via job->company->employer
-    // Skipping deep check for MVP speed, assume trusted if employer role + accessing ID
-    
-    const input = api.applications.updateStatus.input.parse(req.body);
-    const updated = await storage.updateApplicationStatus(Number(req.params.id), input.status);
-    res.json(updated);
+  app.put(api.scorecards.save.path, requireApplicationOwnership(), requireEmployerPermission("scoreCandidates"), async (req, res) => {
+    try {
+      const input = api.scorecards.save.input.parse(req.body);
+      const application = res.locals.application!;
+      const interview = await storage.getActiveInterview(application.id);
+      if (!interview) return res.status(400).json({ message: "No interview is scheduled for this application" });
+
+      const competencies = await storage.listScorecardCompetencies(application.jobId);
+      const problem = validateRatings(competencies, input.ratings, input.submit);
+      if (problem) return res.status(400).json({ message: problem });
+
+      const scorecard = await storage.saveScorecard({
+        interviewId: interview.id,
+        applicationId: application.id,
+        reviewerId: req.user!.id,
+        ratings: buildRatings(competencies, input.ratings),
+        recommendation: input.recommendation ?? null,
+        notes: input.notes ?? null,
+        submittedAt: input.submit ? new Date() : null,
+      });
+      if (!scorecard) return res.status(409).json({ message: "You already submitted your scorecard" });
+      res.json(scorecard);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
   });
 
-  // === SEEKER ===
-  app.get(api.seeker.profile.path, async (req, res) => {
-    if (!req.isAuthenticated()) return res.status(401).send();
-    const profile = await storage.getSeekerProfile(req.user.id);
-    if (!profile) return res.status(404).send();
-    res.json(profile);
+  // === BLIND REVIEW ===
+  app.get(api.blindReview.reveals.path, requireJobOwnership(), requireEmployerPermission("manageTeam"), async (req, res) => {
+    const apps = await storage.listApplicationsForJob(res.locals.job!.id);
+    res.json(await storage.listIdentityReveals(apps.map(a => a.id)));
   });
 
-  app.put(api.seeker.updateProfile.path, async (req, res) => {
-    if (!req.isAuthenticated()) return res.status(401).send();
-    const input = api.seeker.updateProfile.input.parse(req.body);
-    
-    let profile = await storage.getSeekerProfile(req.user.id);
-    if (profile) {
-      profile = await storage.updateSeekerProfile(req.user.id, input);
-    } else {
-      profile = await storage.createSeekerProfile({ ...input, userId: req.user.id, name: input.name || "Unknown" });
+  // === EMPLOYER ===
+  app.post(api.employer.company.path, requireRole("employer"), async (req, res) => {
+    try {
+      const input = api.employer.company.input.parse(req.body);
+      // Joining an existing company goes through a team invitation instead
+      if (await storage.getEmployerProfile(req.user!.id)) {
+        return res.status(409).json({ message: "You already belong to a company" });
+      }
+      const company = await storage.createCompany(input);
+      await storage.createEmployerProfile({ userId: req.user!.id, companyId: company.id, role: "owner" });
+      res.status(201).json(company);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
     }
-    
-    // Async: Generate profile embedding if skills/bio changed
-    // generateProfileEmbedding(profile.id);
+  });
+  
+  app.get(api.employer.getCompany.path, requireRole("employer"), async (req, res) => {
+    const profile = await storage.getEmployerProfile(req.user!.id);
+    if (!profile) return notFound(res, "Company not found");
+    res.json({ ...profile.company, role: profile.role });
+  });
 
-    res.json(profile);
+  app.patch(api.employer.updateCompany.path, requireEmployerProfile, requireEmployerPermission("manageCompany"), async (req, res) => {
+    try {
+      const input = api.employer.updateCompany.input.parse(req.body);
+      res.json(await storage.updateCompany(res.locals.employerProfile!.companyId, input));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
   });
 
-  app.post(api.seeker.uploadResume.path, upload.single('file'), async (req, res) => {
-    if (!req.isAuthenticated()) return res.status(401).send();
-    if (!req.file) return res.status(400).send("No file uploaded");
+  app.get(api.employer.team.path, requireEmployerProfile, async (req, res) => {
+    const profile = res.locals.employerProfile!;
+    const members = await storage.listCompanyMembers(profile.companyId);
+    // Pending invitations are only for people who can manage them
+    const invitations = hasEmployerPermission(profile.role, "manageTeam")
+      ? await storage.listPendingCompanyInvitations(profile.companyId)
+      : [];
+    res.json({ members, invitations: invitations.map(publicInvitation) });
+  });
+
+  app.post(api.employer.inviteMember.path, requireEmployerProfile, requireEmployerPermission("manageTeam"), async (req, res) => {
+    const profile = res.locals.employerProfile!;
 
     try {
-      const dataBuffer = fs.readFileSync(req.file.path);
-      const data = await pdfParse(dataBuffer);
-      const text = data.text;
-      
-      // In MVP, we just store the text and local path. 
-      // In prod, upload to S3.
-      const fileUrl = `/uploads/${req.file.filename}`;
-      
-      // Update profile with resume info
-      let profile = await storage.getSeekerProfile(req.user.id);
-      if (profile) {
-        await storage.updateSeekerProfile(req.user.id, { 
-          resumeUrl: fileUrl,
-          resumeText: text 
-        });
-      } else {
-        await storage.createSeekerProfile({
-          userId: req.user.id,
-          name: "New User", // Placeholder
-          resumeUrl: fileUrl,
-          resumeText: text
-        });
+      const input = api.employer.inviteMember.input.parse(req.body);
+      const email = normalizeEmail(input.email);
+
+      const members = await storage.listCompanyMembers(profile.companyId);
+      if (members.some(m => normalizeEmail(m.user.email) === email)) {
+        return res.status(409).json({ message: "That person is already on the team" });
       }
 
-      res.json({ url: fileUrl, text: text.substring(0, 500) + "..." });
+      const invitation = await inviteTeamMember(profile.company, req.user!, email, input.role);
+      res.status(201).json(publicInvitation(invitation));
     } catch (err) {
-      console.error(err);
-      res.status(500).json({ message: "Failed to parse PDF" });
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
     }
   });
 
-  // === EMPLOYER ===
-  app.post(api.employer.company.path, async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'employer') return res.status(401).send();
-    const input = api.employer.company.input.parse(req.body);
-    const company = await storage.createCompany(input);
-    await storage.createEmployerProfile({ userId: req.user.id, companyId: company.id });
-    res.status(201).json(company);
+  app.delete(api.employer.revokeInvitation.path, requireEmployerProfile, requireEmployerPermission("manageTeam"), async (req, res) => {
+    const invitation = await storage.getCompanyInvitation(Number(req.params.id));
+    if (!invitation || invitation.companyId !== res.locals.employerProfile!.companyId) {
+      return notFound(res, "Invitation not found");
+    }
+    await storage.revokeCompanyInvitation(invitation.id);
+    res.json({ message: "Invitation revoked" });
   });
-  
-  app.get(api.employer.getCompany.path, async (req, res) => {
-    if (!req.isAuthenticated() || req.user.role !== 'employer') return res.status(401).send();
-    const profile = await storage.getEmployerProfile(req.user.id);
-    if (!profile) return res.status(404).send();
-    res.json(profile.company);
+
+  app.patch(api.employer.updateMember.path, requireEmployerProfile, requireEmployerPermission("manageTeam"), async (req, res) => {
+    const profile = res.locals.employerProfile!;
+
+    try {
+      const input = api.employer.updateMember.input.parse(req.body);
+      const member = await storage.getEmployerProfileById(Number(req.params.id));
+      if (!member || member.companyId !== profile.companyId) return notFound(res, "Team member not found");
+
+      if (member.role === "owner" && input.role !== "owner" && await isLastOwner(member.companyId)) {
+        return res.status(400).json({ message: "A company needs at least one owner" });
+      }
+
+      res.json(await storage.updateEmployerProfile(member.id, { role: input.role }));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.employer.removeMember.path, requireEmployerProfile, requireEmployerPermission("manageTeam"), async (req, res) => {
+    const profile = res.locals.employerProfile!;
+    const member = await storage.getEmployerProfileById(Number(req.params.id));
+    if (!member || member.companyId !== profile.companyId) return notFound(res, "Team member not found");
+
+    if (member.role === "owner" && await isLastOwner(member.companyId)) {
+      return res.status(400).json({ message: "A company needs at least one owner" });
+    }
+
+    await storage.deleteEmployerProfile(member.id);
+    res.json({ message: "Team member removed" });
+  });
+
+  // The invitee's verified email is what ties them to the invitation
+  app.post(api.employer.acceptInvitation.path, requireRole("employer"), requireVerifiedEmail, async (req, res) => {
+    try {
+      const { token } = api.employer.acceptInvitation.input.parse(req.body);
+      const invitation = await findInvitationByToken(token);
+      if (!invitation || !isInvitationLive(invitation)) {
+        return res.status(400).json({ message: "Invalid or expired invitation" });
+      }
+      if (invitation.email !== normalizeEmail(req.user!.email)) {
+        return forbidden(res, "This invitation was sent to a different email address");
+      }
+      if (await storage.getEmployerProfile(req.user!.id)) {
+        return res.status(409).json({ message: "You already belong to a company" });
+      }
+
+      const accepted = await storage.acceptCompanyInvitation(invitation.id, req.user!.id);
+      if (!accepted) {
+        return res.status(400).json({ message: "Invalid or expired invitation" });
+      }
+      res.status(201).json(await storage.getEmployerProfile(req.user!.id));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.employer.sourceCandidates.path, requireJobOwnership(), requireEmployerPermission("sourceCandidates"), async (req, res) => {
+    try {
+      const input = api.employer.sourceCandidates.input.parse(req.query);
+      const candidates = await sourceCandidatesForJob(res.locals.job!, input);
+      res.json(candidates);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.employer.invite.path, requireJobOwnership(), requireEmployerPermission("sourceCandidates"), async (req, res) => {
+    const job = res.locals.job!;
+
+    try {
+      const input = api.employer.invite.input.parse(req.body);
+      if (!isJobLive(job)) {
+        return res.status(400).json({ message: "This job is not accepting applications" });
+      }
+
+      // Only seekers who opted in can be contacted
+      const profile = await storage.getSeekerProfile(input.seekerId);
+      if (!profile || !profile.discoverable) {
+        return res.status(404).json({ message: "Candidate not found" });
+      }
+
+      const applicants = await storage.listApplicationsForJob(job.id);
+      if (applicants.some(a => a.seekerId === input.seekerId)) {
+        return res.status(400).json({ message: "Candidate has already applied" });
+      }
+      if (await storage.findJobInvitation(job.id, input.seekerId)) {
+        return res.status(400).json({ message: "Candidate already invited" });
+      }
+
+      const invitation = await storage.createJobInvitation({
+        jobId: job.id,
+        seekerId: input.seekerId,
+        invitedBy: req.user!.id,
+        message: input.message,
+      });
+      res.status(201).json(invitation);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
   });
 
   // === AI ===
-  app.post(api.ai.process.path, async (req, res) => {
+  app.post(api.ai.process.path, requireApplicationOwnership(req => req.body?.applicationId), requireEmployerPermission("viewScreening"), async (req, res) => {
     // Manually trigger processing
-    const input = api.ai.process.input.parse(req.body);
-    processApplicationAI(input.applicationId);
-    res.json({ message: "Processing started", status: "pending" });
+    const job = await enqueueScreening(res.locals.application!.id);
+    res.json({ message: "Processing queued", status: job.status });
+  });
+
+  app.get(api.ai.queue.path, requireEmployerProfile, requireEmployerPermission("viewScreening"), async (req, res) => {
+    const profile = res.locals.employerProfile!;
+    const items = await storage.listScreeningJobsForCompany(profile.companyId, ["queued", "processing", "dead"]);
+    res.json({
+      queued: items.filter(i => i.status === "queued").length,
+      processing: items.filter(i => i.status === "processing").length,
+      dead: items.filter(i => i.status === "dead").length,
+      failed: items.filter(i => i.status === "dead"),
+    });
+  });
+
+  app.post(api.ai.retry.path, requireEmployerProfile, requireEmployerPermission("viewScreening"), async (req, res) => {
+    const profile = res.locals.employerProfile!;
+    const queueJob = await storage.getScreeningJob(Number(req.params.id));
+    const app = queueJob && await storage.getApplication(queueJob.applicationId);
+    if (!queueJob || !app || app.job.companyId !== profile.companyId) return notFound(res, "Queue item not found");
+    if (queueJob.status !== "dead") {
+      return res.status(400).json({ message: "Only failed jobs can be retried" });
+    }
+
+    const retried = await retryScreeningJob(queueJob.id);
+    if (!retried) return res.status(409).json({ message: "This application is already queued for screening" });
+    res.json(retried);
   });
 
-  // Seed data function available at /api/seed
-  app.post("/api/seed", async (req, res) => {
+  // Seed data function available at /api/seed (development only)
+  app.post("/api/seed", requireNonProduction, async (req, res) => {
     await seedDatabase();
     res.json({ message: "Seeded" });
   });
 
   // GitHub push endpoint
-  app.post("/api/github/push", async (req, res) => {
+  app.post("/api/github/push", requireNonProduction, requireAuth, async (req, res) => {
     try {
       const result = await createRepositoryAndPush(
         "OneClickApply",
@@ -253,89 +1392,128 @@ export async function registerRoutes(
   return httpServer;
 }
 
-// === AI HELPERS ===
+// Cursors are opaque to clients. They remember the sort they were issued for,
+// since a key from one ordering means nothing in another.
+function encodeCursor(cursor: JobCursor, sort: JobSearch["sort"]): string {
+  return Buffer.from(JSON.stringify({ ...cursor, sort })).toString("base64url");
+}
+
+// Ids and salaries are Postgres integers, which a bigger number would overflow
+function isInt4(value: unknown): boolean {
+  return Number.isSafeInteger(value) && Math.abs(value as number) <= 2 ** 31 - 1;
+}
 
-async function processApplicationAI(applicationId: number) {
-  console.log(`Processing AI for application ${applicationId}...`);
+function decodeCursor(value: string, sort: JobSearch["sort"]): JobCursor | undefined {
   try {
-    const app = await storage.getApplication(applicationId);
-    if (!app) return;
-
-    // Create pending result
-    let screening = await storage.getScreeningResult(applicationId);
-    if (!screening) {
-      screening = await storage.createScreeningResult({
-        applicationId,
-        aiStatus: "processing"
-      });
-    } else {
-      await storage.updateScreeningResult(screening.id, { aiStatus: "processing" });
-    }
-
-    // Mock AI delay
-    await new Promise(r => setTimeout(r, 2000));
-
-    // Prepare prompt
-    const prompt = `
-      Job: ${app.job.title} at ${app.job.companyId} (Company ID)
-      Description: ${app.job.description}
-      Required Skills: ${app.job.requiredSkills?.join(", ")}
-      
-      Candidate: ${app.seeker.email}
-      Profile Skills: ${app.seeker.seekerProfile?.skills?.join(", ")}
-      Experience: ${app.seeker.seekerProfile?.experienceYears} years
-      Resume Text: ${app.seeker.seekerProfile?.resumeText?.substring(0, 1000)}...
-
-      Analyze fit. Return JSON:
-      {
-        "rulesScore": number (0-100 based on skills/exp match),
-        "semanticScore": number (0-100 based on similarity),
-        "finalScore": number (weighted),
-        "reasons": ["reason1", "reason2"],
-        "summary": "Short summary",
-        "questions": ["Q1", "Q2", "Q3"]
-      }
-    `;
-
-    // Call OpenAI
-    let aiResponse;
-    if (openai) {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [{ role: "user", content: prompt }],
-        response_format: { type: "json_object" }
-      });
-      aiResponse = JSON.parse(completion.choices[0].message.content || "{}");
-    } else {
-      // Mock response if no key
-      aiResponse = {
-        rulesScore: 85,
-        semanticScore: 80,
-        finalScore: 82,
-        reasons: ["Matches required skills", "Good experience"],
-        summary: "Strong candidate with relevant experience.",
-        questions: ["Describe your experience with React.", "How do you handle state management?"]
-      };
-    }
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (cursor?.sort !== sort || !isInt4(cursor.id)) return undefined;
+    if (typeof cursor.key !== "string" && typeof cursor.key !== "number") return undefined;
+    const validKey = sort === "date" && typeof cursor.key === "string" ? !Number.isNaN(Date.parse(cursor.key))
+      : sort === "salary" ? /^-?\d+$/.test(String(cursor.key)) && isInt4(Number(cursor.key))
+      : Number.isFinite(Number(cursor.key));
+    return validKey ? { key: cursor.key, id: cursor.id } : undefined;
+  } catch {
+    return undefined;
+  }
+}
 
-    await storage.updateScreeningResult(screening.id, {
-      rulesScore: aiResponse.rulesScore,
-      semanticScore: aiResponse.semanticScore,
-      finalScore: aiResponse.finalScore,
-      reasons: aiResponse.reasons,
-      aiSummary: aiResponse.summary,
-      aiQuestions: aiResponse.questions,
-      aiStatus: "complete"
-    });
+// Drafts and scheduled jobs are only visible to the hiring team. Closed jobs
+// stay readable so applicants can still see what they applied for.
+function isUnpublished(job: Job): boolean {
+  return job.status === "draft" || (job.publishAt !== null && job.publishAt > new Date());
+}
 
-  } catch (err) {
-    console.error("AI Processing failed:", err);
-    // Update status to failed
-    const screening = await storage.getScreeningResult(applicationId);
-    if (screening) {
-      await storage.updateScreeningResult(screening.id, { aiStatus: "failed" });
-    }
+async function isCompanyMember(user: Express.User | undefined, companyId: number): Promise<boolean> {
+  if (!user || user.role !== "employer") return false;
+  const profile = await storage.getEmployerProfile(user.id);
+  return profile?.companyId === companyId;
+}
+
+// Whether a PATCH field was sent and differs from the stored value
+function changed<T>(current: T, next: T | undefined): boolean {
+  return next !== undefined && JSON.stringify(next) !== JSON.stringify(current);
+}
+
+// Deleted versions stay around for old applications but can't be used or edited
+function isOwnResume(resume: Resume, seekerId: number): boolean {
+  return resume.seekerId === seekerId && !resume.deletedAt;
+}
+
+// The interview kit is for team members who can see screening results
+function visibleInterview(interview: Interview, profile: EmployerProfile | undefined) {
+  return profile && hasEmployerPermission(profile.role, "viewScreening") ? interview : publicInterview(interview);
+}
+
+async function isLastOwner(companyId: number): Promise<boolean> {
+  const members = await storage.listCompanyMembers(companyId);
+  return members.filter(m => m.role === "owner").length <= 1;
+}
+
+// Attaches the status history to each application, oldest event first.
+// Seekers don't get the company's internal reasons.
+async function withHistory<T extends Application>(apps: T[], viewer: "seeker" | "employer") {
+  const events = await storage.listApplicationEvents(apps.map(a => a.id));
+  const visible = viewer === "seeker" ? events.map(event => ({ ...event, internalReason: null })) : events;
+  return apps.map(app => ({ ...app, events: visible.filter(e => e.applicationId === app.id) }));
+}
+
+// Attaches the apply-time screening answers to each application. Seekers
+// don't get to see the knockout rules behind the questions.
+async function withAnswers<T extends Application>(apps: T[], viewer: "seeker" | "employer") {
+  const answers = await storage.listApplicationAnswers(apps.map(a => a.id));
+  const visible = viewer === "seeker" ? answers.map(a => ({ ...a, question: publicQuestion(a.question) })) : answers;
+  return apps.map(app => ({ ...app, answers: visible.filter(a => a.applicationId === app.id) }));
+}
+
+// Attaches the resume and profile each application was submitted with
+async function withSnapshots<T extends Application>(apps: T[]) {
+  const snapshots = await storage.listApplicationSnapshots(apps.map(a => a.id));
+  return apps.map(app => ({ ...app, snapshot: snapshots.find(s => s.applicationId === app.id) ?? null }));
+}
+
+// Attaches the scheduled interview, if any. withKit keeps the interview kit.
+async function withInterviews<T extends Application>(apps: T[], withKit: boolean) {
+  const interviews = await storage.listInterviews(apps.map(a => a.id));
+  const scheduled = interviews.filter(i => i.status === "scheduled");
+  return apps.map(app => {
+    const interview = scheduled.find(i => i.applicationId === app.id);
+    return { ...app, interview: interview && !withKit ? publicInterview(interview) : interview ?? null };
+  });
+}
+
+// Attaches the offer versions sent to the seeker, newest first
+async function withOffers<T extends Application>(apps: T[]) {
+  const offers = await storage.listOffers(apps.map(a => a.id));
+  return apps.map(app => ({ ...app, offers: visibleOffers(offers.filter(o => o.applicationId === app.id), "seeker") }));
+}
+
+// Seekers only get the versions sent to them, without the approval trail
+function visibleOffers(offers: Offer[], viewer: "seeker" | "employer") {
+  const current = offers.map(offer => effectiveOffer(offer));
+  return viewer === "employer" ? current : current.filter(isSentToSeeker).map(publicOffer);
+}
+
+// The offer must belong to the application in the path
+async function findOffer(applicationId: number, offerId: unknown): Promise<Offer | undefined> {
+  const offer = await storage.getOffer(Number(offerId));
+  return offer?.applicationId === applicationId ? offer : undefined;
+}
+
+// Returns a message for the first problem with new or changed offer terms, or null
+async function checkOfferTerms(terms: { expiresAt?: Date; templateId?: number | null }, companyId: number): Promise<string | null> {
+  if (terms.expiresAt && terms.expiresAt <= new Date()) return "The offer has to expire in the future";
+  if (terms.templateId != null) {
+    const template = await storage.getOfferTemplate(terms.templateId);
+    if (!template || template.companyId !== companyId || template.archivedAt) return "Offer template not found";
   }
+  return null;
+}
+
+// Attaches the interviewers' aggregated recommendation. It stays null while
+// the viewer still owes a scorecard of their own.
+async function withScorecardSummaries<T extends Application>(apps: T[], viewerId: number) {
+  const views = await scorecardsForViewer(apps.map(a => a.id), viewerId);
+  return apps.map(app => ({ ...app, scorecardSummary: views.get(app.id)?.summary ?? null }));
 }
 
 async function seedDatabase() {
@@ -345,8 +1523,9 @@ async function seedDatabase() {
   // Employer
   const employer = await storage.createUser({
     email: "employer@test.com",
-    password: "password", // In real app, hash this!
-    role: "employer"
+    password: await hashPassword("password"),
+    role: "employer",
+    emailVerifiedAt: new Date(),
   });
 
   const company = await storage.createCompany({
@@ -359,7 +1538,8 @@ async function seedDatabase() {
 
   await storage.createEmployerProfile({
     userId: employer.id,
-    companyId: company.id
+    companyId: company.id,
+    role: "owner"
   });
 
   // Job
@@ -378,8 +1558,9 @@ async function seedDatabase() {
   // Seeker
   const seeker = await storage.createUser({
     email: "seeker@test.com",
-    password: "password",
-    role: "seeker"
+    password: await hashPassword("password"),
+    role: "seeker",
+    emailVerifiedAt: new Date(),
   });
 
   await storage.createSeekerProfile({
@@ -0,0 +1,103 @@
+import { storage } from "./storage";
+import {
+  scorecardRecommendations, type Interview, type Scorecard, type ScorecardCompetency, type ScorecardRating,
+  type ScorecardRecommendation,
+} from "@shared/schema";
+
+// Interviewer scorecards: rating validation, blind review and the team's
+// aggregated recommendation. Reviewers score blind: until they submit their
+// own scorecard for an application, they see neither anyone else's nor the
+// aggregate. The rest of the team sees the aggregate.
+
+export type SubmittedRating = { competencyId: number; rating: number; notes?: string | null };
+
+export type ScorecardSummary = {
+  submitted: number;
+  averageRating: number | null; // Mean of every competency rating, one decimal
+  recommendation: ScorecardRecommendation | null;
+  votes: Record<ScorecardRecommendation, number>;
+};
+
+// Returns a message for the first problem, or null when the ratings are usable.
+// Drafts can leave competencies unrated; submitting needs all of them.
+export function validateRatings(competencies: ScorecardCompetency[], ratings: SubmittedRating[], submit: boolean): string | null {
+  const byId = new Map(competencies.map(c => [c.id, c]));
+  const seen = new Set<number>();
+
+  for (const rating of ratings) {
+    const competency = byId.get(rating.competencyId);
+    if (!competency) return `Unknown competency ${rating.competencyId}`;
+    if (seen.has(competency.id)) return `Competency "${competency.name}" was rated twice`;
+    seen.add(competency.id);
+  }
+
+  if (!submit) return null;
+  if (competencies.length === 0) return "This job has no scorecard yet";
+  const missing = competencies.find(c => !seen.has(c.id));
+  if (missing) return `Rate "${missing.name}" before submitting`;
+  return null;
+}
+
+export function buildRatings(competencies: ScorecardCompetency[], ratings: SubmittedRating[]): ScorecardRating[] {
+  return competencies.flatMap(competency => {
+    const rating = ratings.find(r => r.competencyId === competency.id);
+    return rating ? [{ competencyId: competency.id, competency: competency.name, rating: rating.rating, notes: rating.notes ?? null }] : [];
+  });
+}
+
+// Someone who still owes a scorecard on the application: the interviewer of
+// its scheduled interview, or anyone with a draft, until they submit one
+export function isPendingReviewer(userId: number, scorecards: Scorecard[], interview: Interview | undefined): boolean {
+  const own = scorecards.filter(s => s.reviewerId === userId);
+  if (own.some(s => s.submittedAt)) return false;
+  return own.length > 0 || interview?.interviewerId === userId;
+}
+
+// The viewer's own scorecards, plus everyone's submitted ones unless the
+// viewer is still scoring. Other people's drafts are never shown.
+export function visibleScorecards(userId: number, scorecards: Scorecard[], interview: Interview | undefined): Scorecard[] {
+  const pending = isPendingReviewer(userId, scorecards, interview);
+  return scorecards.filter(s => s.reviewerId === userId || (!pending && s.submittedAt));
+}
+
+// Votes count strong_no..strong_yes as -2, -1, 1, 2 and the panel's call is
+// the average. An even split comes out as "no".
+const voteWeights: Record<ScorecardRecommendation, number> = { strong_no: -2, no: -1, yes: 1, strong_yes: 2 };
+
+export function summarizeScorecards(scorecards: Scorecard[]): ScorecardSummary {
+  const submitted = scorecards.filter(s => s.submittedAt && s.recommendation);
+  const votes = Object.fromEntries(scorecardRecommendations.map(r => [r, 0])) as Record<ScorecardRecommendation, number>;
+  for (const scorecard of submitted) votes[scorecard.recommendation!]++;
+
+  const ratings = submitted.flatMap(s => (s.ratings as ScorecardRating[]).map(r => r.rating));
+  const averageVote = submitted.reduce((sum, s) => sum + voteWeights[s.recommendation!], 0) / submitted.length;
+
+  return {
+    submitted: submitted.length,
+    averageRating: ratings.length > 0 ? Math.round(ratings.reduce((a, b) => a + b, 0) / ratings.length * 10) / 10 : null,
+    recommendation: submitted.length === 0 ? null
+      : averageVote >= 1.5 ? "strong_yes"
+      : averageVote > 0 ? "yes"
+      : averageVote > -1.5 ? "no"
+      : "strong_no",
+    votes,
+  };
+}
+
+// Scorecards and aggregate for each application, as the viewer may see them.
+// The summary is null while the viewer still owes a scorecard.
+export async function scorecardsForViewer(applicationIds: number[], userId: number) {
+  const [scorecards, interviews] = await Promise.all([
+    storage.listScorecards(applicationIds),
+    storage.listInterviews(applicationIds),
+  ]);
+
+  return new Map(applicationIds.map(applicationId => {
+    const forApplication = scorecards.filter(s => s.applicationId === applicationId);
+    const interview = interviews.find(i => i.applicationId === applicationId && i.status === "scheduled");
+    return [applicationId, {
+      scorecards: visibleScorecards(userId, forApplication, interview),
+      summary: isPendingReviewer(userId, forApplication, interview) ? null : summarizeScorecards(forApplication),
+    }];
+  }));
+}
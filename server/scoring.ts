@@ -0,0 +1,139 @@
+import type { Job, JobSeekerProfile, ScoreReason } from "@shared/schema";
+
+// Deterministic, explainable scoring. rulesScore is computed here from the
+// job and profile columns; only semanticScore comes from the model, and
+// finalScore is a weighted blend of the two.
+
+export interface ScoringConfig {
+  // Blend of rulesScore and semanticScore into finalScore
+  rulesWeight: number;
+  semanticWeight: number;
+  // Relative weight of each rule inside rulesScore
+  criteria: Record<Exclude<ScoreReason["criterion"], "semantic">, number>;
+}
+
+export const defaultScoringConfig: ScoringConfig = {
+  rulesWeight: 0.6,
+  semanticWeight: 0.4,
+  criteria: {
+    skills: 0.5,
+    experience: 0.25,
+    salary: 0.15,
+    location: 0.1,
+  },
+};
+
+export function loadScoringConfig(env: NodeJS.ProcessEnv = process.env): ScoringConfig {
+  return {
+    ...defaultScoringConfig,
+    rulesWeight: numberOr(env.SCORING_RULES_WEIGHT, defaultScoringConfig.rulesWeight),
+    semanticWeight: numberOr(env.SCORING_SEMANTIC_WEIGHT, defaultScoringConfig.semanticWeight),
+  };
+}
+
+type RulesInput = {
+  job: Pick<Job, "requiredSkills" | "minYears" | "salaryMin" | "salaryMax" | "location" | "remote">;
+  profile?: Pick<JobSeekerProfile, "skills" | "experienceYears" | "salaryMin" | "salaryMax" | "location"> | null;
+};
+
+export function computeRulesScore({ job, profile }: RulesInput, config: ScoringConfig = defaultScoringConfig) {
+  const reasons: ScoreReason[] = [
+    scoreSkills(job.requiredSkills ?? [], profile?.skills ?? [], config.criteria.skills),
+    scoreExperience(job.minYears ?? 0, profile?.experienceYears ?? null, config.criteria.experience),
+    scoreSalary(job, profile ?? null, config.criteria.salary),
+    scoreLocation(job, profile?.location ?? null, config.criteria.location),
+  ];
+
+  const totalWeight = reasons.reduce((sum, r) => sum + r.weight, 0);
+  const score = totalWeight > 0
+    ? reasons.reduce((sum, r) => sum + r.score * r.weight, 0) / totalWeight
+    : 0;
+
+  return { score: Math.round(score), reasons };
+}
+
+export function blendFinalScore(rulesScore: number, semanticScore: number | null, config: ScoringConfig = defaultScoringConfig): number {
+  // Without a semantic score the rules are all we have
+  if (semanticScore === null) return rulesScore;
+  const totalWeight = config.rulesWeight + config.semanticWeight;
+  if (totalWeight <= 0) return rulesScore;
+  return Math.round((rulesScore * config.rulesWeight + semanticScore * config.semanticWeight) / totalWeight);
+}
+
+export function normalizeSkill(skill: string): string {
+  return skill.trim().toLowerCase().replace(/\s+/g, " ").replace(/\.js$/, "js");
+}
+
+function scoreSkills(required: string[], candidate: string[], weight: number): ScoreReason {
+  if (required.length === 0) {
+    return { criterion: "skills", score: 100, weight, detail: "No required skills listed" };
+  }
+  const have = new Set(candidate.map(normalizeSkill));
+  const matched = required.filter(s => have.has(normalizeSkill(s)));
+  const missing = required.filter(s => !have.has(normalizeSkill(s)));
+  const score = Math.round((matched.length / required.length) * 100);
+  const detail = missing.length === 0
+    ? `Has all ${required.length} required skills`
+    : `Has ${matched.length} of ${required.length} required skills; missing ${missing.join(", ")}`;
+  return { criterion: "skills", score, weight, detail, matched, missing };
+}
+
+function scoreExperience(minYears: number, years: number | null, weight: number): ScoreReason {
+  if (minYears <= 0) {
+    return { criterion: "experience", score: 100, weight, detail: "No minimum experience required" };
+  }
+  if (years === null) {
+    return { criterion: "experience", score: 0, weight, detail: `Requires ${minYears} years; candidate did not state experience` };
+  }
+  const score = Math.min(100, Math.round((years / minYears) * 100));
+  const detail = years >= minYears
+    ? `${years} years meets the ${minYears} year minimum`
+    : `${years} years is below the ${minYears} year minimum`;
+  return { criterion: "experience", score, weight, detail };
+}
+
+function scoreSalary(
+  job: RulesInput["job"],
+  profile: RulesInput["profile"] | null,
+  weight: number,
+): ScoreReason {
+  const jobMin = job.salaryMin ?? job.salaryMax;
+  const jobMax = job.salaryMax ?? job.salaryMin;
+  const wantMin = profile?.salaryMin ?? profile?.salaryMax ?? null;
+  const wantMax = profile?.salaryMax ?? profile?.salaryMin ?? null;
+
+  if (jobMin == null || jobMax == null || wantMin == null || wantMax == null) {
+    return { criterion: "salary", score: 100, weight, detail: "Salary range not specified by both sides" };
+  }
+  if (wantMin <= jobMax && jobMin <= wantMax) {
+    return { criterion: "salary", score: 100, weight, detail: "Salary expectations overlap the posted range" };
+  }
+
+  // Penalise by how far apart the ranges are, relative to the posted range
+  const gap = wantMin > jobMax ? wantMin - jobMax : jobMin - wantMax;
+  const score = Math.max(0, Math.round(100 - (gap / jobMax) * 200));
+  const detail = wantMin > jobMax
+    ? `Expects ${wantMin} which is above the posted maximum of ${jobMax}`
+    : `Expects up to ${wantMax} which is below the posted minimum of ${jobMin}`;
+  return { criterion: "salary", score, weight, detail };
+}
+
+function scoreLocation(job: RulesInput["job"], location: string | null, weight: number): ScoreReason {
+  if (job.remote) {
+    return { criterion: "location", score: 100, weight, detail: "Role is remote" };
+  }
+  if (!location) {
+    return { criterion: "location", score: 50, weight, detail: `Role is on-site in ${job.location}; candidate location unknown` };
+  }
+  const a = location.trim().toLowerCase();
+  const b = job.location.trim().toLowerCase();
+  if (a.includes(b) || b.includes(a)) {
+    return { criterion: "location", score: 100, weight, detail: `Candidate is based in ${job.location}` };
+  }
+  return { criterion: "location", score: 0, weight, detail: `Role is on-site in ${job.location}; candidate is in ${location}` };
+}
+
+function numberOr(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(n) ? n : fallback;
+}
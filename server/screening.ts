@@ -0,0 +1,115 @@
+import { storage } from "./storage";
+import { getLLMProvider } from "./llm";
+import { computeRulesScore, blendFinalScore, loadScoringConfig } from "./scoring";
+import { formatAnswer } from "./questions";
+import { loadSubmission } from "./resumes";
+import { parseResumeText } from "./resumeParser";
+import { candidateLabel } from "./blindReview";
+import { redactPii, emptyRedactionCounts, addRedactionCounts } from "./redaction";
+import type { AnswerValue, ScoreReason } from "@shared/schema";
+
+// Runs one screening attempt for an application. Errors propagate so the
+// queue in ./queue can retry; the caller decides when to give up.
+export async function processApplicationAI(applicationId: number) {
+  console.log(`Processing AI for application ${applicationId}...`);
+  const app = await storage.getApplication(applicationId);
+  if (!app) return;
+  // Judge what was submitted, not whatever the profile says today
+  const { profile, resumeText } = await loadSubmission(applicationId, app.seekerId);
+
+  // Create pending result
+  let screening = await storage.getScreeningResult(applicationId);
+  if (!screening) {
+    screening = await storage.createScreeningResult({
+      applicationId,
+      aiStatus: "processing"
+    });
+  } else {
+    await storage.updateScreeningResult(screening.id, { aiStatus: "processing" });
+  }
+
+  const scoring = loadScoringConfig();
+  const rules = computeRulesScore({ job: app.job, profile }, scoring);
+
+  // Personal details stay out of the prompt unless the company turned that
+  // off. Blind jobs always redact and call the candidate by their label, so
+  // the summary can't give them away either.
+  const company = await storage.getCompany(app.job.companyId);
+  const redact = app.job.blindReview || company?.redactPii !== false;
+  const known = {
+    names: [profile?.name, resumeText ? parseResumeText(resumeText).contact.name : null],
+    locations: [profile?.location],
+  };
+  const label = app.job.blindReview ? candidateLabel(app.id) : undefined;
+  let redactions = emptyRedactionCounts();
+  const clean = (text: string) => {
+    if (!redact) return text;
+    const redaction = redactPii(text, known, { nameReplacement: label });
+    redactions = addRedactionCounts(redactions, redaction.counts);
+    return redaction.text;
+  };
+
+  const answers = await storage.listApplicationAnswers([applicationId]);
+  const screeningAnswers = answers.length > 0
+    ? answers.map(a => `- ${a.question.prompt}: ${clean(formatAnswer(a.value as AnswerValue))}`).join("\n    ")
+    : "None";
+
+  const candidate = label ?? clean(app.seeker.email);
+  const resume = resumeText === null ? null : clean(resumeText);
+
+  // Prepare prompt
+  const prompt = `
+    Job: ${app.job.title} at ${app.job.companyId} (Company ID)
+    Description: ${app.job.description}
+    Required Skills: ${app.job.requiredSkills?.join(", ")}
+    
+    Candidate: ${candidate}
+    Profile Skills: ${profile?.skills?.join(", ")}
+    Experience: ${profile?.experienceYears} years
+    Resume Text: ${resume?.substring(0, 1000)}...
+
+    Screening Answers:
+    ${screeningAnswers}
+
+    Skills, experience, salary and location are scored separately.
+    Judge only how well the candidate's background fits the role overall.
+    Return JSON:
+    {
+      "semanticScore": number (0-100 based on similarity),
+      "rationale": "One sentence explaining the semantic score",
+      "summary": "Short summary",
+      "questions": ["Q1", "Q2", "Q3"]
+    }
+  `;
+
+  const llm = getLLMProvider();
+  const content = await llm.chat([{ role: "user", content: prompt }], { json: true });
+  const aiResponse = JSON.parse(content || "{}");
+
+  const semanticScore = typeof aiResponse.semanticScore === "number"
+    ? Math.max(0, Math.min(100, Math.round(aiResponse.semanticScore)))
+    : null;
+  const reasons: ScoreReason[] = [...rules.reasons];
+  if (semanticScore !== null) {
+    reasons.push({
+      criterion: "semantic",
+      score: semanticScore,
+      weight: scoring.semanticWeight,
+      detail: aiResponse.rationale || "Overall fit assessed by the model",
+    });
+  }
+
+  await storage.updateScreeningResult(screening.id, {
+    rulesScore: rules.score,
+    semanticScore,
+    finalScore: blendFinalScore(rules.score, semanticScore, scoring),
+    reasons,
+    aiSummary: aiResponse.summary,
+    aiQuestions: aiResponse.questions,
+    aiStatus: "complete",
+    redactions: redact ? redactions : null,
+    stale: false,
+    provider: llm.name,
+    model: llm.chatModel,
+  });
+}
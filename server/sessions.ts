@@ -0,0 +1,124 @@
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import { createHash } from "crypto";
+import { and, eq, gt, sql } from "drizzle-orm";
+import type { Request } from "express";
+import { pool, db } from "./db";
+import { sessions } from "@shared/schema";
+
+// Session persistence. With the database storage driver sessions live in the
+// "session" table (connect-pg-simple) so they survive restarts and are shared
+// between instances; with STORAGE_DRIVER=memory they live in process memory.
+
+declare module "express-session" {
+  interface SessionData {
+    createdAt?: string;
+    lastSeenAt?: string;
+    userAgent?: string;
+    ip?: string;
+  }
+}
+
+export const sessionTtlMs = Number(process.env.SESSION_TTL_HOURS || 24 * 7) * 60 * 60 * 1000;
+
+// lastSeenAt is only rewritten this often so every request doesn't save the session
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+
+export type StoredSession = {
+  sid: string;
+  data: session.SessionData;
+  expiresAt: Date | null;
+};
+
+export interface SessionRegistry {
+  store: session.Store;
+  listForUser(userId: number): Promise<StoredSession[]>;
+  destroy(sid: string): Promise<void>;
+}
+
+class PgSessionRegistry implements SessionRegistry {
+  store: session.Store;
+
+  constructor() {
+    const PgStore = connectPgSimple(session);
+    this.store = new PgStore({
+      pool,
+      tableName: "session",
+      ttl: sessionTtlMs / 1000,
+    });
+  }
+
+  async listForUser(userId: number): Promise<StoredSession[]> {
+    const rows = await db.select().from(sessions).where(and(
+      eq(sql`${sessions.sess}->'passport'->>'user'`, String(userId)),
+      gt(sessions.expire, new Date()),
+    ));
+    return rows.map(row => ({ sid: row.sid, data: row.sess as session.SessionData, expiresAt: row.expire }));
+  }
+
+  async destroy(sid: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.sid, sid));
+  }
+}
+
+class MemorySessionRegistry implements SessionRegistry {
+  store: session.Store;
+
+  constructor() {
+    const MemoryStore = createMemoryStore(session);
+    this.store = new MemoryStore({
+      checkPeriod: 86400000,
+      ttl: sessionTtlMs,
+    });
+  }
+
+  listForUser(userId: number): Promise<StoredSession[]> {
+    return new Promise((resolve, reject) => {
+      this.store.all!((err, all) => {
+        if (err) return reject(err);
+        const entries = Object.entries((all ?? {}) as Record<string, session.SessionData & { passport?: { user?: number } }>);
+        resolve(entries
+          .filter(([, data]) => data.passport?.user === userId)
+          .map(([sid, data]) => ({
+            sid,
+            data,
+            expiresAt: data.cookie?.expires ? new Date(data.cookie.expires) : null,
+          })));
+      });
+    });
+  }
+
+  destroy(sid: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.store.destroy(sid, err => (err ? reject(err) : resolve()));
+    });
+  }
+}
+
+export function createSessionRegistry(): SessionRegistry {
+  return process.env.STORAGE_DRIVER === "memory" ? new MemorySessionRegistry() : new PgSessionRegistry();
+}
+
+// Sessions are addressed by a hash of the sid; the sid itself is the login
+// credential and must never leave the cookie.
+export function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+// Records who/where a session belongs to. Call right after req.login, which
+// regenerates the session.
+export function stampSession(req: Request) {
+  const now = new Date().toISOString();
+  req.session.createdAt = now;
+  req.session.lastSeenAt = now;
+  req.session.userAgent = req.get("user-agent") || undefined;
+  req.session.ip = req.ip;
+}
+
+export function touchSession(req: Request) {
+  const last = req.session.lastSeenAt ? Date.parse(req.session.lastSeenAt) : 0;
+  if (Date.now() - last > LAST_SEEN_RESOLUTION_MS) {
+    req.session.lastSeenAt = new Date().toISOString();
+  }
+}
@@ -0,0 +1,63 @@
+import { storage } from "./storage";
+import { computeRulesScore, blendFinalScore, loadScoringConfig } from "./scoring";
+import { cosineSimilarity, currentVector, generateJobEmbedding } from "./embeddings";
+import type { Job, JobSeekerProfile } from "@shared/schema";
+
+// Employer-side sourcing: ranks discoverable seekers who have not applied to
+// a job using the same rules as screening plus embedding similarity. Profiles
+// the embedding backfill hasn't reached yet are ranked on rules alone.
+
+export type SourcedCandidate = Omit<JobSeekerProfile, "resumeText" | "resumeUrl" | "embedding"> & {
+  matchScore: number;
+  rulesScore: number;
+  similarity: number | null;
+  reasons: ReturnType<typeof computeRulesScore>["reasons"];
+  invitationStatus: "pending" | "applied" | "declined" | null;
+};
+
+export async function sourceCandidatesForJob(
+  job: Job,
+  options: { q?: string; limit: number },
+): Promise<SourcedCandidate[]> {
+  const scoring = loadScoringConfig();
+  const applicants = new Set((await storage.listApplicationsForJob(job.id)).map(a => a.seekerId));
+  const invitations = new Map((await storage.listJobInvitationsForJob(job.id)).map(i => [i.seekerId, i.status]));
+  const jobVector = await currentVector(job.embedding) ?? await generateJobEmbedding(job.id);
+
+  const terms = (options.q || "").toLowerCase().split(/\s+/).filter(Boolean);
+  const profiles = (await storage.listDiscoverableSeekerProfiles())
+    .filter(p => !applicants.has(p.userId))
+    .filter(p => terms.every(term => searchableText(p).includes(term)));
+
+  const ranked: SourcedCandidate[] = [];
+  for (const profile of profiles) {
+    const rules = computeRulesScore({ job, profile }, scoring);
+
+    const profileVector = await currentVector(profile.embedding);
+    const similarity = jobVector && profileVector && profileVector.length === jobVector.length
+      ? cosineSimilarity(jobVector, profileVector)
+      : null;
+    const semanticScore = similarity === null ? null : Math.round(Math.max(0, similarity) * 100);
+
+    const { resumeText, resumeUrl, embedding, ...publicProfile } = profile;
+    ranked.push({
+      ...publicProfile,
+      matchScore: blendFinalScore(rules.score, semanticScore, scoring),
+      rulesScore: rules.score,
+      similarity,
+      reasons: rules.reasons,
+      invitationStatus: invitations.get(profile.userId) ?? null,
+    });
+  }
+
+  return ranked
+    .sort((a, b) => b.matchScore - a.matchScore)
+    .slice(0, options.limit);
+}
+
+function searchableText(profile: JobSeekerProfile): string {
+  return [profile.name, profile.title, profile.bio, profile.location, profile.skills?.join(" ")]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
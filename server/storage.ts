@@ -1,46 +1,263 @@
 
 import { 
-  users, companies, employerProfiles, jobSeekerProfiles, jobs, applications, screeningResults,
-  type User, type InsertUser, type Company, type InsertCompany, type EmployerProfile, type InsertEmployerProfile,
+  users, authTokens, companies, employerProfiles, companyInvitations, jobSeekerProfiles, jobs, jobSearchDocuments, applications, screeningResults, screeningJobs, jobInvitations, applicationEvents, jobQuestions, applicationAnswers, resumes, applicationSnapshots,
+  resumeParses, profileWorkHistory, profileEducation, profileCertifications, messageTemplates, applicationMessages,
+  interviewSlots, interviews, scorecardCompetencies, scorecards, offerTemplates, offers, identityReveals,
+  type User, type PublicUser, type InsertUser, type AuthToken, type InsertAuthToken, type Company, type InsertCompany, type EmployerProfile, type InsertEmployerProfile,
+  type CompanyInvitation, type InsertCompanyInvitation,
   type JobSeekerProfile, type InsertJobSeekerProfile, type Job, type InsertJob, type Application, type InsertApplication,
-  type ScreeningResult, type InsertScreeningResult
+  type ScreeningResult, type InsertScreeningResult, type ScreeningJob, type InsertScreeningJob,
+  type JobInvitation, type InsertJobInvitation, type ApplicationEvent, type InsertApplicationEvent,
+  type JobQuestion, type InsertJobQuestion, type ApplicationAnswer, type InsertApplicationAnswer,
+  type Resume, type InsertResume, type ApplicationSnapshot, type InsertApplicationSnapshot,
+  type ResumeParse, type ParsedResume, type ProfileWorkHistory, type ProfileEducation, type ProfileCertification,
+  type MessageTemplate, type InsertMessageTemplate, type ApplicationMessage, type InsertApplicationMessage, type MessageSenderRole,
+  type InterviewSlot, type InsertInterviewSlot, type Interview, type InsertInterview,
+  type ScorecardCompetency, type InsertScorecardCompetency, type Scorecard, type InsertScorecard,
+  type OfferTemplate, type InsertOfferTemplate, type Offer, type InsertOffer, type OfferStatus,
+  type IdentityReveal, type InsertIdentityReveal,
+  type ApplicationStatus, isJobLive, salaryBands, type SalaryBand, type SalaryBandKey
 } from "@shared/schema";
+import type { JobFacets } from "@shared/routes";
 import { db } from "./db";
-import { eq, ilike, and, desc, or, gte, lte } from "drizzle-orm";
+import { eq, ilike, and, desc, asc, or, gt, gte, lte, lt, inArray, notInArray, isNull, sql, getTableColumns } from "drizzle-orm";
+
+// Everything but the password hash, for joins that end up in API responses
+const { password: _password, ...publicUserColumns } = getTableColumns(users);
+
+export type StatusChange = {
+  from: ApplicationStatus;
+  actorId: number | null;
+  reason?: string | null;
+  internalReason?: string | null;
+};
+
+// A question as submitted by the employer; `id` keeps an existing one
+export type JobQuestionDraft = Omit<InsertJobQuestion, "jobId" | "position"> & { id?: number };
+
+// A competency as submitted by the employer; `id` keeps an existing one
+export type ScorecardCompetencyDraft = Omit<InsertScorecardCompetency, "jobId" | "position"> & { id?: number };
+
+export type ResumeParseDetails = ResumeParse & {
+  workHistory: ProfileWorkHistory[];
+  education: ProfileEducation[];
+  certifications: ProfileCertification[];
+};
+
+// Whose unread messages to count: a seeker's, or a whole employer team's
+export type MessageRecipient = { role: "seeker"; seekerId: number } | { role: "employer"; companyId: number };
+
+export type JobCursor = { key: string | number; id: number };
+
+export type JobSearch = {
+  q?: string;
+  title?: string;
+  location?: string;
+  remote?: boolean;
+  companyId?: number;
+  minSalary?: number;
+  salaryBand?: SalaryBandKey;
+  sort: "relevance" | "date" | "salary";
+  cursor?: JobCursor;
+  limit: number;
+};
+
+export type JobSearchPage = {
+  items: (Job & { company: Company })[];
+  total: number;
+  next: JobCursor | null;
+  facets: JobFacets;
+};
+
+// Locations and companies beyond this are left out of the facet lists
+const FACET_LIMIT = 10;
 
 export interface IStorage {
   // User & Auth
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUserPassword(id: number, passwordHash: string): Promise<void>;
+  markEmailVerified(id: number): Promise<User>;
+
+  // Auth tokens
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  // Marks a live (unused, unexpired) token as used and returns it; undefined otherwise
+  consumeAuthToken(tokenHash: string, purpose: AuthToken["purpose"]): Promise<AuthToken | undefined>;
+  invalidateAuthTokens(userId: number, purpose: AuthToken["purpose"]): Promise<void>;
 
   // Job Seeker
   getSeekerProfile(userId: number): Promise<JobSeekerProfile | undefined>;
   createSeekerProfile(profile: InsertJobSeekerProfile): Promise<JobSeekerProfile>;
   updateSeekerProfile(userId: number, profile: Partial<InsertJobSeekerProfile>): Promise<JobSeekerProfile>;
+  setSeekerProfileEmbedding(userId: number, embedding: number[]): Promise<void>;
+  // Profiles with no embedding, or one of a different length than `dimensions`
+  listSeekerProfilesNeedingEmbedding(dimensions: number, limit: number): Promise<JobSeekerProfile[]>;
+  listDiscoverableSeekerProfiles(): Promise<JobSeekerProfile[]>;
+  // Mirrors the default resume onto the profile, or clears it when there is none
+  setSeekerProfileResume(userId: number, resume: Pick<Resume, "fileUrl" | "text"> | null): Promise<void>;
+
+  // Resume versions
+  // Versions that haven't been deleted, default first then newest
+  listResumes(seekerId: number): Promise<Resume[]>;
+  getResume(id: number): Promise<Resume | undefined>;
+  // A new default version takes over from the seeker's previous default
+  createResume(resume: InsertResume): Promise<Resume>;
+  renameResume(id: number, name: string): Promise<Resume>;
+  setDefaultResume(seekerId: number, id: number): Promise<Resume>;
+  // Soft delete; applications that used the version still point at it
+  deleteResume(id: number): Promise<void>;
+
+  // Structured resume data
+  // Creates the parse for a resume, or resets an existing one, as pending
+  beginResumeParse(resumeId: number, seekerId: number): Promise<ResumeParse>;
+  // Stores the result and replaces the resume's work history, education and certifications
+  completeResumeParse(resumeId: number, parsed: ParsedResume, method: NonNullable<ResumeParse["method"]>): Promise<ResumeParse>;
+  failResumeParse(resumeId: number, error: string): Promise<void>;
+  getResumeParse(resumeId: number): Promise<ResumeParseDetails | undefined>;
+  markResumeParseMerged(id: number): Promise<void>;
 
   // Employer & Company
   getEmployerProfile(userId: number): Promise<(EmployerProfile & { company: Company }) | undefined>;
   createEmployerProfile(profile: InsertEmployerProfile): Promise<EmployerProfile>;
   createCompany(company: InsertCompany): Promise<Company>;
+  updateCompany(id: number, updates: Partial<InsertCompany>): Promise<Company>;
   getCompany(id: number): Promise<Company | undefined>;
+  listCompanyMembers(companyId: number): Promise<(EmployerProfile & { user: PublicUser })[]>;
+  getEmployerProfileById(id: number): Promise<EmployerProfile | undefined>;
+  updateEmployerProfile(id: number, updates: Partial<InsertEmployerProfile>): Promise<EmployerProfile>;
+  deleteEmployerProfile(id: number): Promise<void>;
+
+  // Company team invitations
+  createCompanyInvitation(invitation: InsertCompanyInvitation): Promise<CompanyInvitation>;
+  getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined>;
+  findCompanyInvitationByToken(tokenHash: string): Promise<CompanyInvitation | undefined>;
+  listPendingCompanyInvitations(companyId: number): Promise<CompanyInvitation[]>;
+  revokeCompanyInvitation(id: number): Promise<void>;
+  revokeCompanyInvitationsForEmail(companyId: number, email: string): Promise<void>;
+  // Marks a live invitation accepted and adds the user to the company; undefined if it was no longer live
+  acceptCompanyInvitation(id: number, userId: number): Promise<EmployerProfile | undefined>;
 
   // Jobs
   getJob(id: number): Promise<(Job & { company: Company }) | undefined>;
   createJob(job: InsertJob): Promise<Job>;
+  updateJob(id: number, updates: Partial<InsertJob>): Promise<Job>;
+  setJobEmbedding(id: number, embedding: number[]): Promise<void>;
+  // Jobs with no embedding, or one of a different length than `dimensions`
+  listJobsNeedingEmbedding(dimensions: number, limit: number): Promise<Job[]>;
+  listJobsForCompany(companyId: number): Promise<Job[]>;
+  // Closes open jobs past expiresAt and lists scheduled ones whose publishAt has come
+  syncJobLifecycle(now: Date): Promise<{ published: number, expired: number }>;
   listJobs(filters?: { title?: string, location?: string, remote?: boolean, minSalary?: number }): Promise<(Job & { company: Company })[]>;
+  // Active jobs only. Relevance sort needs q and falls back to date without it.
+  searchJobs(search: JobSearch): Promise<JobSearchPage>;
+  // Builds search documents for jobs that don't have one yet; returns how many
+  indexJobsForSearch(): Promise<number>;
   
   // Applications
-  createApplication(app: InsertApplication): Promise<Application>;
-  getApplication(id: number): Promise<(Application & { job: Job, seeker: User, screening?: ScreeningResult }) | undefined>;
+  // Inserts the application together with its first status event
+  createApplication(app: InsertApplication, actorId: number | null): Promise<Application>;
+  getApplication(id: number): Promise<(Application & { job: Job, seeker: PublicUser, screening?: ScreeningResult }) | undefined>;
   listApplicationsForSeeker(seekerId: number): Promise<(Application & { job: Job, company: Company, screening?: ScreeningResult })[]>;
-  listApplicationsForJob(jobId: number): Promise<(Application & { seeker: User, profile: JobSeekerProfile, screening?: ScreeningResult })[]>;
-  updateApplicationStatus(id: number, status: string): Promise<Application>;
+  listApplicationsForJob(jobId: number): Promise<(Application & { seeker: PublicUser, profile: JobSeekerProfile, screening?: ScreeningResult })[]>;
+  // Moves an application from `change.from` to `status` and records the event.
+  // Returns undefined if the application is no longer in `change.from`. A NULL
+  // status, left by rows older than status tracking, counts as "applied".
+  updateApplicationStatus(id: number, status: ApplicationStatus, change: StatusChange): Promise<Application | undefined>;
+  createApplicationEvent(event: InsertApplicationEvent): Promise<ApplicationEvent>;
+  listApplicationEvents(applicationIds: number[]): Promise<ApplicationEvent[]>;
+  createApplicationSnapshot(snapshot: InsertApplicationSnapshot): Promise<ApplicationSnapshot>;
+  listApplicationSnapshots(applicationIds: number[]): Promise<ApplicationSnapshot[]>;
+  // Logs reveals not seen before. A viewer's first reveal of an application is the one kept.
+  recordIdentityReveals(reveals: InsertIdentityReveal[]): Promise<void>;
+  listIdentityReveals(applicationIds: number[]): Promise<(IdentityReveal & { viewer: PublicUser })[]>;
+
+  // Screening questions & answers
+  listJobQuestions(jobId: number): Promise<JobQuestion[]>;
+  // Makes `questions` the job's active set, in order. Questions left out are archived.
+  replaceJobQuestions(jobId: number, questions: JobQuestionDraft[]): Promise<JobQuestion[]>;
+  createApplicationAnswers(answers: InsertApplicationAnswer[]): Promise<ApplicationAnswer[]>;
+  listApplicationAnswers(applicationIds: number[]): Promise<(ApplicationAnswer & { question: JobQuestion })[]>;
+
+  // Messaging
+  listMessageTemplates(companyId: number): Promise<MessageTemplate[]>;
+  getMessageTemplate(id: number): Promise<MessageTemplate | undefined>;
+  createMessageTemplate(template: InsertMessageTemplate): Promise<MessageTemplate>;
+  updateMessageTemplate(id: number, updates: Partial<Pick<InsertMessageTemplate, "name" | "body">>): Promise<MessageTemplate>;
+  archiveMessageTemplate(id: number): Promise<void>;
+  createApplicationMessage(message: InsertApplicationMessage): Promise<ApplicationMessage>;
+  listApplicationMessages(applicationId: number): Promise<ApplicationMessage[]>;
+  // Sets the read receipt on the other side's unread messages. Returns how many were marked.
+  markApplicationMessagesRead(applicationId: number, reader: { role: MessageSenderRole; userId: number }): Promise<number>;
+  // Unread messages from the other side, per application
+  countUnreadMessages(recipient: MessageRecipient): Promise<{ applicationId: number; count: number }[]>;
+
+  // Interviews
+  createInterviewSlots(slots: InsertInterviewSlot[]): Promise<InterviewSlot[]>;
+  listInterviewSlots(jobId: number): Promise<InterviewSlot[]>;
+  getInterviewSlot(id: number): Promise<InterviewSlot | undefined>;
+  // Only free slots can be deleted. Returns false if the slot is booked.
+  deleteInterviewSlot(id: number): Promise<boolean>;
+  // Claims a free slot for the application. Returns undefined if it's already taken.
+  bookInterviewSlot(slotId: number, applicationId: number): Promise<InterviewSlot | undefined>;
+  releaseInterviewSlot(slotId: number): Promise<void>;
+  // Returns undefined if the application already has a scheduled interview
+  createInterview(interview: InsertInterview): Promise<Interview | undefined>;
+  // The application's scheduled (not cancelled) interview
+  getActiveInterview(applicationId: number): Promise<Interview | undefined>;
+  listInterviews(applicationIds: number[]): Promise<Interview[]>;
+  updateInterview(id: number, updates: Partial<InsertInterview>): Promise<Interview>;
+
+  // Scorecards
+  listScorecardCompetencies(jobId: number): Promise<ScorecardCompetency[]>;
+  // Makes `competencies` the job's active set, in order. Competencies left out are archived.
+  replaceScorecardCompetencies(jobId: number, competencies: ScorecardCompetencyDraft[]): Promise<ScorecardCompetency[]>;
+  getScorecard(interviewId: number, reviewerId: number): Promise<Scorecard | undefined>;
+  // Creates the reviewer's scorecard for the interview or replaces their draft.
+  // Returns undefined if they already submitted it.
+  saveScorecard(scorecard: InsertScorecard): Promise<Scorecard | undefined>;
+  listScorecards(applicationIds: number[]): Promise<Scorecard[]>;
+
+  // Offers
+  listOfferTemplates(companyId: number): Promise<OfferTemplate[]>;
+  getOfferTemplate(id: number): Promise<OfferTemplate | undefined>;
+  createOfferTemplate(template: InsertOfferTemplate): Promise<OfferTemplate>;
+  updateOfferTemplate(id: number, updates: Partial<Pick<InsertOfferTemplate, "name" | "body">>): Promise<OfferTemplate>;
+  archiveOfferTemplate(id: number): Promise<void>;
+  // Adds the application's next offer version
+  createOffer(offer: Omit<InsertOffer, "version">): Promise<Offer>;
+  getOffer(id: number): Promise<Offer | undefined>;
+  // Newest version first
+  listOffers(applicationIds: number[]): Promise<Offer[]>;
+  // Applies `updates` if the offer is still in one of the `from` statuses.
+  // Returns undefined if it has moved on.
+  updateOffer(id: number, from: OfferStatus[], updates: Partial<InsertOffer>): Promise<Offer | undefined>;
+
+  // Invitations
+  createJobInvitation(invitation: InsertJobInvitation): Promise<JobInvitation>;
+  getJobInvitation(id: number): Promise<JobInvitation | undefined>;
+  findJobInvitation(jobId: number, seekerId: number): Promise<JobInvitation | undefined>;
+  listJobInvitationsForJob(jobId: number): Promise<JobInvitation[]>;
+  listJobInvitationsForSeeker(seekerId: number): Promise<(JobInvitation & { job: Job, company: Company })[]>;
+  updateJobInvitation(id: number, updates: Partial<InsertJobInvitation>): Promise<JobInvitation>;
 
   // Screening
   createScreeningResult(result: InsertScreeningResult): Promise<ScreeningResult>;
   getScreeningResult(applicationId: number): Promise<ScreeningResult | undefined>;
   updateScreeningResult(id: number, result: Partial<InsertScreeningResult>): Promise<ScreeningResult>;
+  listScreeningResultsByStatus(aiStatus: NonNullable<ScreeningResult["aiStatus"]>): Promise<ScreeningResult[]>;
+  markScreeningResultsStale(jobId: number): Promise<number>;
+
+  // Screening queue
+  enqueueScreeningJob(job: InsertScreeningJob): Promise<ScreeningJob>;
+  getActiveScreeningJob(applicationId: number): Promise<ScreeningJob | undefined>;
+  getScreeningJob(id: number): Promise<ScreeningJob | undefined>;
+  claimScreeningJobs(limit: number): Promise<ScreeningJob[]>;
+  updateScreeningJob(id: number, updates: Partial<InsertScreeningJob>): Promise<ScreeningJob>;
+  // Undefined unless the job is dead and its application has no other active job
+  retryDeadScreeningJob(id: number): Promise<ScreeningJob | undefined>;
+  requeueStaleScreeningJobs(lockedBefore: Date): Promise<{ requeued: number; dead: ScreeningJob[] }>;
+  listScreeningJobsForCompany(companyId: number, statuses: ScreeningJob["status"][]): Promise<(ScreeningJob & { job: Job })[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -60,6 +277,44 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPassword(id: number, passwordHash: string): Promise<void> {
+    await db.update(users).set({ password: passwordHash }).where(eq(users.id, id));
+  }
+
+  async markEmailVerified(id: number): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Auth tokens
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const [token] = await db.insert(authTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthToken["purpose"]): Promise<AuthToken | undefined> {
+    // Single statement so two concurrent requests can't both use the token
+    const [token] = await db.update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(authTokens.tokenHash, tokenHash),
+        eq(authTokens.purpose, purpose),
+        isNull(authTokens.usedAt),
+        gt(authTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token;
+  }
+
+  async invalidateAuthTokens(userId: number, purpose: AuthToken["purpose"]): Promise<void> {
+    await db.update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+
   // Job Seeker
   async getSeekerProfile(userId: number): Promise<JobSeekerProfile | undefined> {
     const [profile] = await db.select().from(jobSeekerProfiles).where(eq(jobSeekerProfiles.userId, userId));
@@ -79,6 +334,138 @@ export class DatabaseStorage implements IStorage {
     return profile;
   }
 
+  async setSeekerProfileEmbedding(userId: number, embedding: number[]): Promise<void> {
+    // Not an edit by the seeker, so updatedAt is left alone
+    await db.update(jobSeekerProfiles).set({ embedding }).where(eq(jobSeekerProfiles.userId, userId));
+  }
+
+  async listSeekerProfilesNeedingEmbedding(dimensions: number, limit: number): Promise<JobSeekerProfile[]> {
+    return db.select().from(jobSeekerProfiles)
+      .where(or(isNull(jobSeekerProfiles.embedding), sql`jsonb_array_length(${jobSeekerProfiles.embedding}) <> ${dimensions}`))
+      .orderBy(asc(jobSeekerProfiles.id))
+      .limit(limit);
+  }
+
+  async listDiscoverableSeekerProfiles(): Promise<JobSeekerProfile[]> {
+    return db.select().from(jobSeekerProfiles).where(eq(jobSeekerProfiles.discoverable, true));
+  }
+
+  async setSeekerProfileResume(userId: number, resume: Pick<Resume, "fileUrl" | "text"> | null): Promise<void> {
+    await db.update(jobSeekerProfiles)
+      .set({ resumeUrl: resume?.fileUrl ?? null, resumeText: resume?.text ?? null, updatedAt: new Date() })
+      .where(eq(jobSeekerProfiles.userId, userId));
+  }
+
+  // Resume versions
+  async listResumes(seekerId: number): Promise<Resume[]> {
+    return db.select().from(resumes)
+      .where(and(eq(resumes.seekerId, seekerId), isNull(resumes.deletedAt)))
+      .orderBy(desc(resumes.isDefault), desc(resumes.createdAt), desc(resumes.id));
+  }
+
+  async getResume(id: number): Promise<Resume | undefined> {
+    const [resume] = await db.select().from(resumes).where(eq(resumes.id, id));
+    return resume;
+  }
+
+  async createResume(insertResume: InsertResume): Promise<Resume> {
+    return db.transaction(async (tx) => {
+      if (insertResume.isDefault) {
+        await tx.update(resumes).set({ isDefault: false }).where(eq(resumes.seekerId, insertResume.seekerId));
+      }
+      const [resume] = await tx.insert(resumes).values(insertResume).returning();
+      return resume;
+    });
+  }
+
+  async renameResume(id: number, name: string): Promise<Resume> {
+    const [resume] = await db.update(resumes).set({ name }).where(eq(resumes.id, id)).returning();
+    return resume;
+  }
+
+  async setDefaultResume(seekerId: number, id: number): Promise<Resume> {
+    return db.transaction(async (tx) => {
+      await tx.update(resumes).set({ isDefault: false }).where(eq(resumes.seekerId, seekerId));
+      const [resume] = await tx.update(resumes)
+        .set({ isDefault: true })
+        .where(and(eq(resumes.id, id), eq(resumes.seekerId, seekerId)))
+        .returning();
+      return resume;
+    });
+  }
+
+  async deleteResume(id: number): Promise<void> {
+    await db.update(resumes).set({ deletedAt: new Date(), isDefault: false }).where(eq(resumes.id, id));
+  }
+
+  // Structured resume data
+  async beginResumeParse(resumeId: number, seekerId: number): Promise<ResumeParse> {
+    const [parse] = await db.insert(resumeParses)
+      .values({ resumeId, seekerId, status: "pending" })
+      .onConflictDoUpdate({
+        target: resumeParses.resumeId,
+        set: { status: "pending", error: null, updatedAt: new Date() },
+      })
+      .returning();
+    return parse;
+  }
+
+  async completeResumeParse(resumeId: number, parsed: ParsedResume, method: NonNullable<ResumeParse["method"]>): Promise<ResumeParse> {
+    return db.transaction(async (tx) => {
+      const [parse] = await tx.update(resumeParses)
+        .set({
+          status: "complete",
+          method,
+          contact: parsed.contact,
+          skills: parsed.skills,
+          experienceYears: parsed.experienceYears,
+          error: null,
+          mergedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(resumeParses.resumeId, resumeId))
+        .returning();
+
+      await tx.delete(profileWorkHistory).where(eq(profileWorkHistory.resumeId, resumeId));
+      await tx.delete(profileEducation).where(eq(profileEducation.resumeId, resumeId));
+      await tx.delete(profileCertifications).where(eq(profileCertifications.resumeId, resumeId));
+
+      const owner = { seekerId: parse.seekerId, resumeId };
+      if (parsed.workHistory.length > 0) {
+        await tx.insert(profileWorkHistory).values(parsed.workHistory.map((entry, position) => ({ ...entry, ...owner, position })));
+      }
+      if (parsed.education.length > 0) {
+        await tx.insert(profileEducation).values(parsed.education.map((entry, position) => ({ ...entry, ...owner, position })));
+      }
+      if (parsed.certifications.length > 0) {
+        await tx.insert(profileCertifications).values(parsed.certifications.map((entry, position) => ({ ...entry, ...owner, position })));
+      }
+      return parse;
+    });
+  }
+
+  async failResumeParse(resumeId: number, error: string): Promise<void> {
+    await db.update(resumeParses)
+      .set({ status: "failed", error, updatedAt: new Date() })
+      .where(eq(resumeParses.resumeId, resumeId));
+  }
+
+  async getResumeParse(resumeId: number): Promise<ResumeParseDetails | undefined> {
+    const [parse] = await db.select().from(resumeParses).where(eq(resumeParses.resumeId, resumeId));
+    if (!parse) return undefined;
+
+    const [workHistory, education, certifications] = await Promise.all([
+      db.select().from(profileWorkHistory).where(eq(profileWorkHistory.resumeId, resumeId)).orderBy(asc(profileWorkHistory.position)),
+      db.select().from(profileEducation).where(eq(profileEducation.resumeId, resumeId)).orderBy(asc(profileEducation.position)),
+      db.select().from(profileCertifications).where(eq(profileCertifications.resumeId, resumeId)).orderBy(asc(profileCertifications.position)),
+    ]);
+    return { ...parse, workHistory, education, certifications };
+  }
+
+  async markResumeParseMerged(id: number): Promise<void> {
+    await db.update(resumeParses).set({ mergedAt: new Date() }).where(eq(resumeParses.id, id));
+  }
+
   // Employer & Company
   async getEmployerProfile(userId: number): Promise<(EmployerProfile & { company: Company }) | undefined> {
     const [profile] = await db.select({
@@ -103,11 +490,117 @@ export class DatabaseStorage implements IStorage {
     return company;
   }
 
+  async updateCompany(id: number, updates: Partial<InsertCompany>): Promise<Company> {
+    const [company] = await db.update(companies).set(updates).where(eq(companies.id, id)).returning();
+    // The company name is part of every job's search document
+    if (updates.name !== undefined) {
+      for (const job of await this.listJobsForCompany(id)) {
+        await this.refreshJobSearchDocument(job.id);
+      }
+    }
+    return company;
+  }
+
   async getCompany(id: number): Promise<Company | undefined> {
     const [company] = await db.select().from(companies).where(eq(companies.id, id));
     return company;
   }
 
+  async listCompanyMembers(companyId: number): Promise<(EmployerProfile & { user: PublicUser })[]> {
+    const results = await db.select({
+      profile: employerProfiles,
+      user: publicUserColumns
+    })
+    .from(employerProfiles)
+    .innerJoin(users, eq(employerProfiles.userId, users.id))
+    .where(eq(employerProfiles.companyId, companyId))
+    .orderBy(asc(employerProfiles.id));
+
+    return results.map(r => ({ ...r.profile, user: r.user }));
+  }
+
+  async getEmployerProfileById(id: number): Promise<EmployerProfile | undefined> {
+    const [profile] = await db.select().from(employerProfiles).where(eq(employerProfiles.id, id));
+    return profile;
+  }
+
+  async updateEmployerProfile(id: number, updates: Partial<InsertEmployerProfile>): Promise<EmployerProfile> {
+    const [profile] = await db.update(employerProfiles)
+      .set(updates)
+      .where(eq(employerProfiles.id, id))
+      .returning();
+    return profile;
+  }
+
+  async deleteEmployerProfile(id: number): Promise<void> {
+    await db.delete(employerProfiles).where(eq(employerProfiles.id, id));
+  }
+
+  // Company team invitations
+  async createCompanyInvitation(insertInvitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    const [invitation] = await db.insert(companyInvitations).values(insertInvitation).returning();
+    return invitation;
+  }
+
+  async getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db.select().from(companyInvitations).where(eq(companyInvitations.id, id));
+    return invitation;
+  }
+
+  async findCompanyInvitationByToken(tokenHash: string): Promise<CompanyInvitation | undefined> {
+    const [invitation] = await db.select().from(companyInvitations).where(eq(companyInvitations.tokenHash, tokenHash));
+    return invitation;
+  }
+
+  async listPendingCompanyInvitations(companyId: number): Promise<CompanyInvitation[]> {
+    return db.select().from(companyInvitations)
+      .where(and(
+        eq(companyInvitations.companyId, companyId),
+        isNull(companyInvitations.acceptedAt),
+        isNull(companyInvitations.revokedAt),
+        gt(companyInvitations.expiresAt, new Date()),
+      ))
+      .orderBy(desc(companyInvitations.createdAt));
+  }
+
+  async revokeCompanyInvitation(id: number): Promise<void> {
+    await db.update(companyInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(companyInvitations.id, id), isNull(companyInvitations.acceptedAt), isNull(companyInvitations.revokedAt)));
+  }
+
+  async revokeCompanyInvitationsForEmail(companyId: number, email: string): Promise<void> {
+    await db.update(companyInvitations)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(companyInvitations.companyId, companyId),
+        eq(companyInvitations.email, email),
+        isNull(companyInvitations.acceptedAt),
+        isNull(companyInvitations.revokedAt),
+      ));
+  }
+
+  async acceptCompanyInvitation(id: number, userId: number): Promise<EmployerProfile | undefined> {
+    return db.transaction(async (tx) => {
+      // Same guard as auth tokens: only one request can accept a given invitation
+      const [invitation] = await tx.update(companyInvitations)
+        .set({ acceptedAt: new Date() })
+        .where(and(
+          eq(companyInvitations.id, id),
+          isNull(companyInvitations.acceptedAt),
+          isNull(companyInvitations.revokedAt),
+          gt(companyInvitations.expiresAt, new Date()),
+        ))
+        .returning();
+      if (!invitation) return undefined;
+
+      const [profile] = await tx.insert(employerProfiles)
+        .values({ userId, companyId: invitation.companyId, role: invitation.role })
+        .returning();
+      return profile;
+    });
+  }
+
   // Jobs
   async getJob(id: number): Promise<(Job & { company: Company }) | undefined> {
     const [result] = await db.select({
@@ -124,9 +617,55 @@ export class DatabaseStorage implements IStorage {
 
   async createJob(insertJob: InsertJob): Promise<Job> {
     const [job] = await db.insert(jobs).values(insertJob).returning();
+    await this.refreshJobSearchDocument(job.id);
+    return job;
+  }
+
+  async updateJob(id: number, updates: Partial<InsertJob>): Promise<Job> {
+    const [job] = await db.update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    await this.refreshJobSearchDocument(id);
     return job;
   }
 
+  async setJobEmbedding(id: number, embedding: number[]): Promise<void> {
+    await db.update(jobs).set({ embedding }).where(eq(jobs.id, id));
+  }
+
+  async listJobsNeedingEmbedding(dimensions: number, limit: number): Promise<Job[]> {
+    return db.select().from(jobs)
+      .where(or(isNull(jobs.embedding), sql`jsonb_array_length(${jobs.embedding}) <> ${dimensions}`))
+      .orderBy(asc(jobs.id))
+      .limit(limit);
+  }
+
+  async listJobsForCompany(companyId: number): Promise<Job[]> {
+    return db.select().from(jobs)
+      .where(eq(jobs.companyId, companyId))
+      .orderBy(desc(jobs.createdAt));
+  }
+
+  async syncJobLifecycle(now: Date): Promise<{ published: number, expired: number }> {
+    const expired = await db.update(jobs)
+      .set({ status: "closed", active: false, closedAt: now, updatedAt: now })
+      .where(and(eq(jobs.status, "open"), lte(jobs.expiresAt, now)))
+      .returning({ id: jobs.id });
+
+    const published = await db.update(jobs)
+      .set({ active: true, updatedAt: now })
+      .where(and(
+        eq(jobs.status, "open"),
+        sql`${jobs.active} is not true`,
+        or(isNull(jobs.publishAt), lte(jobs.publishAt, now)),
+        or(isNull(jobs.expiresAt), gt(jobs.expiresAt, now)),
+      ))
+      .returning({ id: jobs.id });
+
+    return { published: published.length, expired: expired.length };
+  }
+
   async listJobs(filters?: { title?: string, location?: string, remote?: boolean, minSalary?: number }): Promise<(Job & { company: Company })[]> {
     let conditions = [eq(jobs.active, true)];
     
@@ -149,17 +688,139 @@ export class DatabaseStorage implements IStorage {
     return results.map(r => ({ ...r.job, company: r.company }));
   }
 
+  async searchJobs(search: JobSearch): Promise<JobSearchPage> {
+    const query = search.q ? sql`websearch_to_tsquery('english', ${search.q})` : undefined;
+    const band = salaryBands.find(b => b.key === search.salaryBand);
+
+    // Named so each facet can be counted without its own filter; otherwise
+    // picking "remote" would make the remote facet show only one option
+    const filters = {
+      q: query && sql`${jobSearchDocuments.document} @@ ${query}`,
+      title: search.title ? ilike(jobs.title, `%${search.title}%`) : undefined,
+      location: search.location ? ilike(jobs.location, `%${search.location}%`) : undefined,
+      remote: search.remote !== undefined ? eq(jobs.remote, search.remote) : undefined,
+      company: search.companyId !== undefined ? eq(jobs.companyId, search.companyId) : undefined,
+      minSalary: search.minSalary ? gte(jobs.salaryMax, search.minSalary) : undefined,
+      salary: band && inSalaryBand(band),
+    };
+    const where = (except?: keyof typeof filters) => and(
+      eq(jobs.active, true),
+      ...Object.entries(filters).filter(([name]) => name !== except).map(([, condition]) => condition),
+    );
+
+    // Keyset pagination on (sort key, id). The key round-trips through the cursor
+    // as text so timestamps keep their microseconds and ranks stay exact.
+    const [key, keyType] =
+      search.sort === "relevance" && query ? [sql`ts_rank_cd(${jobSearchDocuments.document}, ${query})::float8`, "float8"]
+      : search.sort === "salary" ? [sql`coalesce(${jobs.salaryMax}, ${jobs.salaryMin}, -1)`, "integer"]
+      : [sql`${jobs.createdAt}`, "timestamp"];
+    const after = search.cursor && sql`(${key}, ${jobs.id}) < (${String(search.cursor.key)}::${sql.raw(keyType)}, ${search.cursor.id})`;
+
+    const count = sql<number>`count(*)::int`;
+    const remote = sql<boolean>`coalesce(${jobs.remote}, false)`;
+
+    const [rows, [{ total }], remoteCounts, locationCounts, companyCounts, [bandCounts]] = await Promise.all([
+      db.select({ job: jobs, company: companies, sortKey: sql<string>`(${key})::text` })
+        .from(jobs)
+        .innerJoin(companies, eq(jobs.companyId, companies.id))
+        .leftJoin(jobSearchDocuments, eq(jobSearchDocuments.jobId, jobs.id))
+        .where(and(where(), after))
+        .orderBy(desc(key), desc(jobs.id))
+        .limit(search.limit + 1),
+      db.select({ total: count })
+        .from(jobs)
+        .innerJoin(companies, eq(jobs.companyId, companies.id))
+        .leftJoin(jobSearchDocuments, eq(jobSearchDocuments.jobId, jobs.id))
+        .where(where()),
+      db.select({ value: remote, count })
+        .from(jobs)
+        .innerJoin(companies, eq(jobs.companyId, companies.id))
+        .leftJoin(jobSearchDocuments, eq(jobSearchDocuments.jobId, jobs.id))
+        .where(where("remote"))
+        .groupBy(remote),
+      db.select({ value: jobs.location, count })
+        .from(jobs)
+        .innerJoin(companies, eq(jobs.companyId, companies.id))
+        .leftJoin(jobSearchDocuments, eq(jobSearchDocuments.jobId, jobs.id))
+        .where(where("location"))
+        .groupBy(jobs.location)
+        .orderBy(desc(count), asc(jobs.location))
+        .limit(FACET_LIMIT),
+      db.select({ id: companies.id, name: companies.name, count })
+        .from(jobs)
+        .innerJoin(companies, eq(jobs.companyId, companies.id))
+        .leftJoin(jobSearchDocuments, eq(jobSearchDocuments.jobId, jobs.id))
+        .where(where("company"))
+        .groupBy(companies.id, companies.name)
+        .orderBy(desc(count), asc(companies.name))
+        .limit(FACET_LIMIT),
+      db.select(Object.fromEntries(
+          salaryBands.map(b => [b.key, sql<number>`(count(*) filter (where ${inSalaryBand(b)}))::int`]),
+        ))
+        .from(jobs)
+        .innerJoin(companies, eq(jobs.companyId, companies.id))
+        .leftJoin(jobSearchDocuments, eq(jobSearchDocuments.jobId, jobs.id))
+        .where(where("salary")),
+    ]);
+
+    const page = rows.slice(0, search.limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map(r => ({ ...r.job, company: r.company })),
+      total,
+      next: rows.length > search.limit ? { key: last.sortKey, id: last.job.id } : null,
+      facets: {
+        remote: remoteCounts,
+        locations: locationCounts,
+        companies: companyCounts,
+        salaryBands: salaryBands.map(b => ({ key: b.key, label: b.label, count: Number(bandCounts[b.key] ?? 0) })),
+      },
+    };
+  }
+
+  async indexJobsForSearch(): Promise<number> {
+    const missing = await db.select({ id: jobs.id })
+      .from(jobs)
+      .leftJoin(jobSearchDocuments, eq(jobSearchDocuments.jobId, jobs.id))
+      .where(isNull(jobSearchDocuments.jobId));
+    for (const { id } of missing) {
+      await this.refreshJobSearchDocument(id);
+    }
+    return missing.length;
+  }
+
+  // Title weighs most, then skills and company name, then the description
+  private async refreshJobSearchDocument(jobId: number): Promise<void> {
+    const job = await this.getJob(jobId);
+    if (!job) return;
+    const document = sql`
+      setweight(to_tsvector('english', ${job.title}), 'A') ||
+      setweight(to_tsvector('english', ${(job.requiredSkills ?? []).join(" ")}), 'B') ||
+      setweight(to_tsvector('english', ${job.company.name}), 'B') ||
+      setweight(to_tsvector('english', ${job.description}), 'C')`;
+    await db.insert(jobSearchDocuments)
+      .values({ jobId, document })
+      .onConflictDoUpdate({ target: jobSearchDocuments.jobId, set: { document } });
+  }
+
   // Applications
-  async createApplication(insertApp: InsertApplication): Promise<Application> {
-    const [app] = await db.insert(applications).values(insertApp).returning();
-    return app;
+  async createApplication(insertApp: InsertApplication, actorId: number | null): Promise<Application> {
+    return db.transaction(async (tx) => {
+      const [app] = await tx.insert(applications).values(insertApp).returning();
+      await tx.insert(applicationEvents).values({
+        applicationId: app.id,
+        actorId,
+        toStatus: app.status ?? "applied",
+      });
+      return app;
+    });
   }
 
-  async getApplication(id: number): Promise<(Application & { job: Job, seeker: User, screening?: ScreeningResult }) | undefined> {
+  async getApplication(id: number): Promise<(Application & { job: Job, seeker: PublicUser, screening?: ScreeningResult }) | undefined> {
     const [result] = await db.select({
       app: applications,
       job: jobs,
-      seeker: users,
+      seeker: publicUserColumns,
       screening: screeningResults
     })
     .from(applications)
@@ -189,10 +850,10 @@ export class DatabaseStorage implements IStorage {
     return results.map(r => ({ ...r.app, job: r.job, company: r.company, screening: r.screening || undefined }));
   }
 
-  async listApplicationsForJob(jobId: number): Promise<(Application & { seeker: User, profile: JobSeekerProfile, screening?: ScreeningResult })[]> {
+  async listApplicationsForJob(jobId: number): Promise<(Application & { seeker: PublicUser, profile: JobSeekerProfile, screening?: ScreeningResult })[]> {
     const results = await db.select({
       app: applications,
-      seeker: users,
+      seeker: publicUserColumns,
       profile: jobSeekerProfiles,
       screening: screeningResults
     })
@@ -206,12 +867,418 @@ export class DatabaseStorage implements IStorage {
     return results.map(r => ({ ...r.app, seeker: r.seeker, profile: r.profile, screening: r.screening || undefined }));
   }
 
-  async updateApplicationStatus(id: number, status: string): Promise<Application> {
-    const [app] = await db.update(applications)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(applications.id, id))
+  async updateApplicationStatus(id: number, status: ApplicationStatus, change: StatusChange): Promise<Application | undefined> {
+    return db.transaction(async (tx) => {
+      // Guarding on the current status makes concurrent changes fail instead of skipping a transition
+      const current = change.from === "applied"
+        ? or(eq(applications.status, change.from), isNull(applications.status))
+        : eq(applications.status, change.from);
+      const [app] = await tx.update(applications)
+        .set({ status, updatedAt: new Date() })
+        .where(and(eq(applications.id, id), current))
+        .returning();
+      if (!app) return undefined;
+
+      await tx.insert(applicationEvents).values({
+        applicationId: id,
+        actorId: change.actorId,
+        fromStatus: change.from,
+        toStatus: status,
+        reason: change.reason,
+        internalReason: change.internalReason,
+      });
+      return app;
+    });
+  }
+
+  async createApplicationEvent(insertEvent: InsertApplicationEvent): Promise<ApplicationEvent> {
+    const [event] = await db.insert(applicationEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async listApplicationEvents(applicationIds: number[]): Promise<ApplicationEvent[]> {
+    if (applicationIds.length === 0) return [];
+    return db.select().from(applicationEvents)
+      .where(inArray(applicationEvents.applicationId, applicationIds))
+      .orderBy(asc(applicationEvents.createdAt), asc(applicationEvents.id));
+  }
+
+  async createApplicationSnapshot(insertSnapshot: InsertApplicationSnapshot): Promise<ApplicationSnapshot> {
+    const [snapshot] = await db.insert(applicationSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async listApplicationSnapshots(applicationIds: number[]): Promise<ApplicationSnapshot[]> {
+    if (applicationIds.length === 0) return [];
+    return db.select().from(applicationSnapshots).where(inArray(applicationSnapshots.applicationId, applicationIds));
+  }
+
+  async recordIdentityReveals(reveals: InsertIdentityReveal[]): Promise<void> {
+    if (reveals.length === 0) return;
+    await db.insert(identityReveals).values(reveals).onConflictDoNothing();
+  }
+
+  async listIdentityReveals(applicationIds: number[]): Promise<(IdentityReveal & { viewer: PublicUser })[]> {
+    if (applicationIds.length === 0) return [];
+    const results = await db.select({ reveal: identityReveals, viewer: publicUserColumns })
+      .from(identityReveals)
+      .innerJoin(users, eq(identityReveals.viewerId, users.id))
+      .where(inArray(identityReveals.applicationId, applicationIds))
+      .orderBy(desc(identityReveals.createdAt), desc(identityReveals.id));
+    return results.map(r => ({ ...r.reveal, viewer: r.viewer }));
+  }
+
+  // Screening questions & answers
+  async listJobQuestions(jobId: number): Promise<JobQuestion[]> {
+    return db.select().from(jobQuestions)
+      .where(and(eq(jobQuestions.jobId, jobId), isNull(jobQuestions.archivedAt)))
+      .orderBy(asc(jobQuestions.position), asc(jobQuestions.id));
+  }
+
+  async replaceJobQuestions(jobId: number, questions: JobQuestionDraft[]): Promise<JobQuestion[]> {
+    await db.transaction(async (tx) => {
+      const kept = questions.flatMap(q => q.id !== undefined ? [q.id] : []);
+      await tx.update(jobQuestions)
+        .set({ archivedAt: new Date() })
+        .where(and(
+          eq(jobQuestions.jobId, jobId),
+          isNull(jobQuestions.archivedAt),
+          kept.length > 0 ? notInArray(jobQuestions.id, kept) : undefined,
+        ));
+
+      for (const [position, { id, ...question }] of Array.from(questions.entries())) {
+        const values = { ...question, options: question.options ?? null, knockout: question.knockout ?? null, position };
+        if (id !== undefined) {
+          await tx.update(jobQuestions)
+            .set(values)
+            .where(and(eq(jobQuestions.id, id), eq(jobQuestions.jobId, jobId)));
+        } else {
+          await tx.insert(jobQuestions).values({ ...values, jobId });
+        }
+      }
+    });
+    return this.listJobQuestions(jobId);
+  }
+
+  async createApplicationAnswers(insertAnswers: InsertApplicationAnswer[]): Promise<ApplicationAnswer[]> {
+    if (insertAnswers.length === 0) return [];
+    return db.insert(applicationAnswers).values(insertAnswers).returning();
+  }
+
+  async listApplicationAnswers(applicationIds: number[]): Promise<(ApplicationAnswer & { question: JobQuestion })[]> {
+    if (applicationIds.length === 0) return [];
+    const results = await db.select({
+      answer: applicationAnswers,
+      question: jobQuestions
+    })
+    .from(applicationAnswers)
+    .innerJoin(jobQuestions, eq(applicationAnswers.questionId, jobQuestions.id))
+    .where(inArray(applicationAnswers.applicationId, applicationIds))
+    .orderBy(asc(jobQuestions.position), asc(jobQuestions.id));
+
+    return results.map(r => ({ ...r.answer, question: r.question }));
+  }
+
+  // Messaging
+  async listMessageTemplates(companyId: number): Promise<MessageTemplate[]> {
+    return db.select().from(messageTemplates)
+      .where(and(eq(messageTemplates.companyId, companyId), isNull(messageTemplates.archivedAt)))
+      .orderBy(asc(messageTemplates.name), asc(messageTemplates.id));
+  }
+
+  async getMessageTemplate(id: number): Promise<MessageTemplate | undefined> {
+    const [template] = await db.select().from(messageTemplates).where(eq(messageTemplates.id, id));
+    return template;
+  }
+
+  async createMessageTemplate(insertTemplate: InsertMessageTemplate): Promise<MessageTemplate> {
+    const [template] = await db.insert(messageTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateMessageTemplate(id: number, updates: Partial<Pick<InsertMessageTemplate, "name" | "body">>): Promise<MessageTemplate> {
+    const [template] = await db.update(messageTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(messageTemplates.id, id))
       .returning();
-    return app;
+    return template;
+  }
+
+  async archiveMessageTemplate(id: number): Promise<void> {
+    await db.update(messageTemplates).set({ archivedAt: new Date() }).where(eq(messageTemplates.id, id));
+  }
+
+  async createApplicationMessage(insertMessage: InsertApplicationMessage): Promise<ApplicationMessage> {
+    const [message] = await db.insert(applicationMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async listApplicationMessages(applicationId: number): Promise<ApplicationMessage[]> {
+    return db.select().from(applicationMessages)
+      .where(eq(applicationMessages.applicationId, applicationId))
+      .orderBy(asc(applicationMessages.createdAt), asc(applicationMessages.id));
+  }
+
+  async markApplicationMessagesRead(applicationId: number, reader: { role: MessageSenderRole; userId: number }): Promise<number> {
+    const marked = await db.update(applicationMessages)
+      .set({ readAt: new Date(), readBy: reader.userId })
+      .where(and(
+        eq(applicationMessages.applicationId, applicationId),
+        sql`${applicationMessages.senderRole} <> ${reader.role}`,
+        isNull(applicationMessages.readAt),
+      ))
+      .returning({ id: applicationMessages.id });
+    return marked.length;
+  }
+
+  async countUnreadMessages(recipient: MessageRecipient): Promise<{ applicationId: number; count: number }[]> {
+    const unread = and(
+      eq(applicationMessages.senderRole, recipient.role === "seeker" ? "employer" : "seeker"),
+      isNull(applicationMessages.readAt),
+    );
+    const count = sql<number>`count(*)::int`;
+    if (recipient.role === "seeker") {
+      return db.select({ applicationId: applicationMessages.applicationId, count })
+        .from(applicationMessages)
+        .innerJoin(applications, eq(applicationMessages.applicationId, applications.id))
+        .where(and(unread, eq(applications.seekerId, recipient.seekerId)))
+        .groupBy(applicationMessages.applicationId);
+    }
+    return db.select({ applicationId: applicationMessages.applicationId, count })
+      .from(applicationMessages)
+      .innerJoin(applications, eq(applicationMessages.applicationId, applications.id))
+      .innerJoin(jobs, eq(applications.jobId, jobs.id))
+      .where(and(unread, eq(jobs.companyId, recipient.companyId)))
+      .groupBy(applicationMessages.applicationId);
+  }
+
+  // Interviews
+  async createInterviewSlots(insertSlots: InsertInterviewSlot[]): Promise<InterviewSlot[]> {
+    if (insertSlots.length === 0) return [];
+    return db.insert(interviewSlots).values(insertSlots).returning();
+  }
+
+  async listInterviewSlots(jobId: number): Promise<InterviewSlot[]> {
+    return db.select().from(interviewSlots)
+      .where(eq(interviewSlots.jobId, jobId))
+      .orderBy(asc(interviewSlots.startsAt), asc(interviewSlots.id));
+  }
+
+  async getInterviewSlot(id: number): Promise<InterviewSlot | undefined> {
+    const [slot] = await db.select().from(interviewSlots).where(eq(interviewSlots.id, id));
+    return slot;
+  }
+
+  async deleteInterviewSlot(id: number): Promise<boolean> {
+    // Slots that were ever booked stay, since interviews point at them
+    const bookings = await db.select({ id: interviews.id }).from(interviews).where(eq(interviews.slotId, id)).limit(1);
+    if (bookings.length > 0) return false;
+    const deleted = await db.delete(interviewSlots)
+      .where(and(eq(interviewSlots.id, id), isNull(interviewSlots.applicationId)))
+      .returning({ id: interviewSlots.id });
+    return deleted.length > 0;
+  }
+
+  async bookInterviewSlot(slotId: number, applicationId: number): Promise<InterviewSlot | undefined> {
+    const [slot] = await db.update(interviewSlots)
+      .set({ applicationId })
+      .where(and(eq(interviewSlots.id, slotId), isNull(interviewSlots.applicationId)))
+      .returning();
+    return slot;
+  }
+
+  async releaseInterviewSlot(slotId: number): Promise<void> {
+    await db.update(interviewSlots).set({ applicationId: null }).where(eq(interviewSlots.id, slotId));
+  }
+
+  async createInterview(insertInterview: InsertInterview): Promise<Interview | undefined> {
+    // UQ_interviews_scheduled turns a second concurrent booking into a no-op
+    const [interview] = await db.insert(interviews).values(insertInterview).onConflictDoNothing().returning();
+    return interview;
+  }
+
+  async getActiveInterview(applicationId: number): Promise<Interview | undefined> {
+    const [interview] = await db.select().from(interviews)
+      .where(and(eq(interviews.applicationId, applicationId), eq(interviews.status, "scheduled")));
+    return interview;
+  }
+
+  async listInterviews(applicationIds: number[]): Promise<Interview[]> {
+    if (applicationIds.length === 0) return [];
+    return db.select().from(interviews)
+      .where(inArray(interviews.applicationId, applicationIds))
+      .orderBy(desc(interviews.createdAt), desc(interviews.id));
+  }
+
+  async updateInterview(id: number, updates: Partial<InsertInterview>): Promise<Interview> {
+    const [interview] = await db.update(interviews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(interviews.id, id))
+      .returning();
+    return interview;
+  }
+
+  // Scorecards
+  async listScorecardCompetencies(jobId: number): Promise<ScorecardCompetency[]> {
+    return db.select().from(scorecardCompetencies)
+      .where(and(eq(scorecardCompetencies.jobId, jobId), isNull(scorecardCompetencies.archivedAt)))
+      .orderBy(asc(scorecardCompetencies.position), asc(scorecardCompetencies.id));
+  }
+
+  async replaceScorecardCompetencies(jobId: number, competencies: ScorecardCompetencyDraft[]): Promise<ScorecardCompetency[]> {
+    await db.transaction(async (tx) => {
+      const kept = competencies.flatMap(c => c.id !== undefined ? [c.id] : []);
+      await tx.update(scorecardCompetencies)
+        .set({ archivedAt: new Date() })
+        .where(and(
+          eq(scorecardCompetencies.jobId, jobId),
+          isNull(scorecardCompetencies.archivedAt),
+          kept.length > 0 ? notInArray(scorecardCompetencies.id, kept) : undefined,
+        ));
+
+      for (const [position, { id, ...competency }] of Array.from(competencies.entries())) {
+        const values = { ...competency, description: competency.description ?? null, position };
+        if (id !== undefined) {
+          await tx.update(scorecardCompetencies)
+            .set(values)
+            .where(and(eq(scorecardCompetencies.id, id), eq(scorecardCompetencies.jobId, jobId)));
+        } else {
+          await tx.insert(scorecardCompetencies).values({ ...values, jobId });
+        }
+      }
+    });
+    return this.listScorecardCompetencies(jobId);
+  }
+
+  async getScorecard(interviewId: number, reviewerId: number): Promise<Scorecard | undefined> {
+    const [scorecard] = await db.select().from(scorecards)
+      .where(and(eq(scorecards.interviewId, interviewId), eq(scorecards.reviewerId, reviewerId)));
+    return scorecard;
+  }
+
+  async saveScorecard(insertScorecard: InsertScorecard): Promise<Scorecard | undefined> {
+    const { ratings, recommendation, notes, submittedAt } = insertScorecard;
+    const [scorecard] = await db.insert(scorecards)
+      .values(insertScorecard)
+      .onConflictDoUpdate({
+        target: [scorecards.interviewId, scorecards.reviewerId],
+        set: { ratings, recommendation, notes, submittedAt, updatedAt: new Date() },
+        setWhere: isNull(scorecards.submittedAt),
+      })
+      .returning();
+    return scorecard;
+  }
+
+  async listScorecards(applicationIds: number[]): Promise<Scorecard[]> {
+    if (applicationIds.length === 0) return [];
+    return db.select().from(scorecards)
+      .where(inArray(scorecards.applicationId, applicationIds))
+      .orderBy(asc(scorecards.createdAt), asc(scorecards.id));
+  }
+
+  // Offers
+  async listOfferTemplates(companyId: number): Promise<OfferTemplate[]> {
+    return db.select().from(offerTemplates)
+      .where(and(eq(offerTemplates.companyId, companyId), isNull(offerTemplates.archivedAt)))
+      .orderBy(asc(offerTemplates.name), asc(offerTemplates.id));
+  }
+
+  async getOfferTemplate(id: number): Promise<OfferTemplate | undefined> {
+    const [template] = await db.select().from(offerTemplates).where(eq(offerTemplates.id, id));
+    return template;
+  }
+
+  async createOfferTemplate(insertTemplate: InsertOfferTemplate): Promise<OfferTemplate> {
+    const [template] = await db.insert(offerTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateOfferTemplate(id: number, updates: Partial<Pick<InsertOfferTemplate, "name" | "body">>): Promise<OfferTemplate> {
+    const [template] = await db.update(offerTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(offerTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async archiveOfferTemplate(id: number): Promise<void> {
+    await db.update(offerTemplates).set({ archivedAt: new Date() }).where(eq(offerTemplates.id, id));
+  }
+
+  async createOffer(insertOffer: Omit<InsertOffer, "version">): Promise<Offer> {
+    return db.transaction(async (tx) => {
+      const [{ latest }] = await tx.select({ latest: sql<number>`coalesce(max(${offers.version}), 0)` })
+        .from(offers)
+        .where(eq(offers.applicationId, insertOffer.applicationId));
+      const [offer] = await tx.insert(offers).values({ ...insertOffer, version: Number(latest) + 1 }).returning();
+      return offer;
+    });
+  }
+
+  async getOffer(id: number): Promise<Offer | undefined> {
+    const [offer] = await db.select().from(offers).where(eq(offers.id, id));
+    return offer;
+  }
+
+  async listOffers(applicationIds: number[]): Promise<Offer[]> {
+    if (applicationIds.length === 0) return [];
+    return db.select().from(offers)
+      .where(inArray(offers.applicationId, applicationIds))
+      .orderBy(desc(offers.version));
+  }
+
+  async updateOffer(id: number, from: OfferStatus[], updates: Partial<InsertOffer>): Promise<Offer | undefined> {
+    const [offer] = await db.update(offers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(offers.id, id), inArray(offers.status, from)))
+      .returning();
+    return offer;
+  }
+
+  // Invitations
+  async createJobInvitation(insertInvitation: InsertJobInvitation): Promise<JobInvitation> {
+    const [invitation] = await db.insert(jobInvitations).values(insertInvitation).returning();
+    return invitation;
+  }
+
+  async getJobInvitation(id: number): Promise<JobInvitation | undefined> {
+    const [invitation] = await db.select().from(jobInvitations).where(eq(jobInvitations.id, id));
+    return invitation;
+  }
+
+  async findJobInvitation(jobId: number, seekerId: number): Promise<JobInvitation | undefined> {
+    const [invitation] = await db.select().from(jobInvitations)
+      .where(and(eq(jobInvitations.jobId, jobId), eq(jobInvitations.seekerId, seekerId)));
+    return invitation;
+  }
+
+  async listJobInvitationsForJob(jobId: number): Promise<JobInvitation[]> {
+    return db.select().from(jobInvitations)
+      .where(eq(jobInvitations.jobId, jobId))
+      .orderBy(desc(jobInvitations.createdAt));
+  }
+
+  async listJobInvitationsForSeeker(seekerId: number): Promise<(JobInvitation & { job: Job, company: Company })[]> {
+    const results = await db.select({
+      invitation: jobInvitations,
+      job: jobs,
+      company: companies
+    })
+    .from(jobInvitations)
+    .innerJoin(jobs, eq(jobInvitations.jobId, jobs.id))
+    .innerJoin(companies, eq(jobs.companyId, companies.id))
+    .where(eq(jobInvitations.seekerId, seekerId))
+    .orderBy(desc(jobInvitations.createdAt));
+
+    return results.map(r => ({ ...r.invitation, job: r.job, company: r.company }));
+  }
+
+  async updateJobInvitation(id: number, updates: Partial<InsertJobInvitation>): Promise<JobInvitation> {
+    const [invitation] = await db.update(jobInvitations)
+      .set(updates)
+      .where(eq(jobInvitations.id, id))
+      .returning();
+    return invitation;
   }
 
   // Screening
@@ -232,6 +1299,1460 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return result;
   }
+
+  async listScreeningResultsByStatus(aiStatus: NonNullable<ScreeningResult["aiStatus"]>): Promise<ScreeningResult[]> {
+    return db.select().from(screeningResults).where(eq(screeningResults.aiStatus, aiStatus));
+  }
+
+  async markScreeningResultsStale(jobId: number): Promise<number> {
+    const marked = await db.update(screeningResults)
+      .set({ stale: true })
+      .where(and(
+        eq(screeningResults.stale, false),
+        inArray(screeningResults.applicationId, db.select({ id: applications.id }).from(applications).where(eq(applications.jobId, jobId))),
+      ))
+      .returning({ id: screeningResults.id });
+    return marked.length;
+  }
+
+  // Screening queue
+  async enqueueScreeningJob(insertJob: InsertScreeningJob): Promise<ScreeningJob> {
+    // UQ_screening_jobs_active turns a concurrent enqueue into a no-op
+    const [job] = await db.insert(screeningJobs).values(insertJob).onConflictDoNothing().returning();
+    return job ?? (await this.getActiveScreeningJob(insertJob.applicationId))!;
+  }
+
+  async getActiveScreeningJob(applicationId: number): Promise<ScreeningJob | undefined> {
+    const [job] = await db.select().from(screeningJobs).where(and(
+      eq(screeningJobs.applicationId, applicationId),
+      inArray(screeningJobs.status, ["queued", "processing"]),
+    ));
+    return job;
+  }
+
+  async getScreeningJob(id: number): Promise<ScreeningJob | undefined> {
+    const [job] = await db.select().from(screeningJobs).where(eq(screeningJobs.id, id));
+    return job;
+  }
+
+  async claimScreeningJobs(limit: number): Promise<ScreeningJob[]> {
+    // SKIP LOCKED lets concurrent workers (or instances) claim disjoint rows
+    const claimable = db.select({ id: screeningJobs.id })
+      .from(screeningJobs)
+      .where(and(eq(screeningJobs.status, "queued"), lte(screeningJobs.runAt, new Date())))
+      .orderBy(asc(screeningJobs.runAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return db.update(screeningJobs)
+      .set({
+        status: "processing",
+        attempts: sql`${screeningJobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(inArray(screeningJobs.id, claimable))
+      .returning();
+  }
+
+  async updateScreeningJob(id: number, updates: Partial<InsertScreeningJob>): Promise<ScreeningJob> {
+    const [job] = await db.update(screeningJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(screeningJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async retryDeadScreeningJob(id: number): Promise<ScreeningJob | undefined> {
+    const existing = await this.getScreeningJob(id);
+    if (!existing || existing.status !== "dead" || await this.getActiveScreeningJob(existing.applicationId)) return undefined;
+    try {
+      const [job] = await db.update(screeningJobs)
+        .set({ status: "queued", attempts: 0, runAt: new Date(), lockedAt: null, lastError: null, updatedAt: new Date() })
+        .where(and(eq(screeningJobs.id, id), eq(screeningJobs.status, "dead")))
+        .returning();
+      return job;
+    } catch (err) {
+      // UQ_screening_jobs_active: another job was enqueued in the meantime
+      if ((err as { code?: string }).code === "23505") return undefined;
+      throw err;
+    }
+  }
+
+  async requeueStaleScreeningJobs(lockedBefore: Date): Promise<{ requeued: number; dead: ScreeningJob[] }> {
+    const stale = and(eq(screeningJobs.status, "processing"), lt(screeningJobs.lockedAt, lockedBefore));
+    // A job whose worker died on its last attempt would otherwise crash workers forever
+    const dead = await db.update(screeningJobs)
+      .set({ status: "dead", lockedAt: null, lastError: "Worker stopped before the job finished", updatedAt: new Date() })
+      .where(and(stale, gte(screeningJobs.attempts, screeningJobs.maxAttempts)))
+      .returning();
+    const requeued = await db.update(screeningJobs)
+      .set({ status: "queued", lockedAt: null, runAt: new Date(), updatedAt: new Date() })
+      .where(stale)
+      .returning({ id: screeningJobs.id });
+    return { requeued: requeued.length, dead };
+  }
+
+  async listScreeningJobsForCompany(companyId: number, statuses: ScreeningJob["status"][]): Promise<(ScreeningJob & { job: Job })[]> {
+    const results = await db.select({
+      queueJob: screeningJobs,
+      job: jobs
+    })
+    .from(screeningJobs)
+    .innerJoin(applications, eq(screeningJobs.applicationId, applications.id))
+    .innerJoin(jobs, eq(applications.jobId, jobs.id))
+    .where(and(eq(jobs.companyId, companyId), inArray(screeningJobs.status, statuses)))
+    .orderBy(desc(screeningJobs.updatedAt));
+
+    return results.map(r => ({ ...r.queueJob, job: r.job }));
+  }
+}
+
+// In-memory implementation used for local development without Postgres.
+// Mirrors the column defaults and join semantics of DatabaseStorage so the
+// rest of the app can't tell the difference.
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private authTokens = new Map<number, AuthToken>();
+  private companies = new Map<number, Company>();
+  private employerProfiles = new Map<number, EmployerProfile>();
+  private companyInvitations = new Map<number, CompanyInvitation>();
+  private seekerProfiles = new Map<number, JobSeekerProfile>();
+  private jobs = new Map<number, Job>();
+  private applications = new Map<number, Application>();
+  private screeningResults = new Map<number, ScreeningResult>();
+  private screeningJobs = new Map<number, ScreeningJob>();
+  private jobInvitations = new Map<number, JobInvitation>();
+  private applicationEvents = new Map<number, ApplicationEvent>();
+  private jobQuestions = new Map<number, JobQuestion>();
+  private applicationAnswers = new Map<number, ApplicationAnswer>();
+  private resumes = new Map<number, Resume>();
+  private applicationSnapshots = new Map<number, ApplicationSnapshot>();
+  private resumeParses = new Map<number, ResumeParse>();
+  private profileWorkHistory = new Map<number, ProfileWorkHistory>();
+  private profileEducation = new Map<number, ProfileEducation>();
+  private profileCertifications = new Map<number, ProfileCertification>();
+  private messageTemplates = new Map<number, MessageTemplate>();
+  private applicationMessages = new Map<number, ApplicationMessage>();
+  private interviewSlots = new Map<number, InterviewSlot>();
+  private interviews = new Map<number, Interview>();
+  private scorecardCompetencies = new Map<number, ScorecardCompetency>();
+  private scorecards = new Map<number, Scorecard>();
+  private offerTemplates = new Map<number, OfferTemplate>();
+  private offers = new Map<number, Offer>();
+  private identityReveals = new Map<number, IdentityReveal>();
+  private ids: Record<string, number> = {};
+
+  private nextId(table: string): number {
+    this.ids[table] = (this.ids[table] || 0) + 1;
+    return this.ids[table];
+  }
+
+  // User & Auth
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(u => u.email === email);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByEmail(insertUser.email)) {
+      throw new Error(`duplicate key value violates unique constraint "users_email_unique"`);
+    }
+    const user: User = {
+      id: this.nextId("users"),
+      email: insertUser.email,
+      password: insertUser.password,
+      role: insertUser.role ?? "seeker",
+      emailVerifiedAt: insertUser.emailVerifiedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async updateUserPassword(id: number, passwordHash: string): Promise<void> {
+    const existing = this.users.get(id);
+    if (existing) this.users.set(id, { ...existing, password: passwordHash });
+  }
+
+  async markEmailVerified(id: number): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) throw new Error(`User ${id} not found`);
+    const user: User = { ...existing, emailVerifiedAt: new Date() };
+    this.users.set(id, user);
+    return user;
+  }
+
+  // Auth tokens
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const token: AuthToken = {
+      ...insertToken,
+      id: this.nextId("authTokens"),
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.authTokens.set(token.id, token);
+    return token;
+  }
+
+  async consumeAuthToken(tokenHash: string, purpose: AuthToken["purpose"]): Promise<AuthToken | undefined> {
+    const now = new Date();
+    const token = Array.from(this.authTokens.values())
+      .find(t => t.tokenHash === tokenHash && t.purpose === purpose && !t.usedAt && t.expiresAt > now);
+    if (!token) return undefined;
+    const used: AuthToken = { ...token, usedAt: now };
+    this.authTokens.set(token.id, used);
+    return used;
+  }
+
+  async invalidateAuthTokens(userId: number, purpose: AuthToken["purpose"]): Promise<void> {
+    for (const token of Array.from(this.authTokens.values())) {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+        this.authTokens.set(token.id, { ...token, usedAt: new Date() });
+      }
+    }
+  }
+
+  // Job Seeker
+  async getSeekerProfile(userId: number): Promise<JobSeekerProfile | undefined> {
+    return Array.from(this.seekerProfiles.values()).find(p => p.userId === userId);
+  }
+
+  async createSeekerProfile(insertProfile: InsertJobSeekerProfile): Promise<JobSeekerProfile> {
+    const now = new Date();
+    const profile: JobSeekerProfile = {
+      title: null,
+      bio: null,
+      location: null,
+      salaryMin: null,
+      salaryMax: null,
+      skills: null,
+      experienceYears: null,
+      resumeUrl: null,
+      resumeText: null,
+      embedding: null,
+      discoverable: false,
+      ...definedOnly(insertProfile),
+      id: this.nextId("jobSeekerProfiles"),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.seekerProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async updateSeekerProfile(userId: number, updates: Partial<InsertJobSeekerProfile>): Promise<JobSeekerProfile> {
+    const existing = await this.getSeekerProfile(userId);
+    if (!existing) throw new Error(`Seeker profile for user ${userId} not found`);
+    const profile: JobSeekerProfile = { ...existing, ...definedOnly(updates), updatedAt: new Date() };
+    this.seekerProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async setSeekerProfileEmbedding(userId: number, embedding: number[]): Promise<void> {
+    const existing = await this.getSeekerProfile(userId);
+    if (existing) this.seekerProfiles.set(existing.id, { ...existing, embedding });
+  }
+
+  async listSeekerProfilesNeedingEmbedding(dimensions: number, limit: number): Promise<JobSeekerProfile[]> {
+    return Array.from(this.seekerProfiles.values())
+      .filter(p => !Array.isArray(p.embedding) || p.embedding.length !== dimensions)
+      .slice(0, limit);
+  }
+
+  async listDiscoverableSeekerProfiles(): Promise<JobSeekerProfile[]> {
+    return Array.from(this.seekerProfiles.values()).filter(p => p.discoverable);
+  }
+
+  async setSeekerProfileResume(userId: number, resume: Pick<Resume, "fileUrl" | "text"> | null): Promise<void> {
+    const existing = await this.getSeekerProfile(userId);
+    if (!existing) return;
+    this.seekerProfiles.set(existing.id, {
+      ...existing,
+      resumeUrl: resume?.fileUrl ?? null,
+      resumeText: resume?.text ?? null,
+      updatedAt: new Date(),
+    });
+  }
+
+  // Resume versions
+  async listResumes(seekerId: number): Promise<Resume[]> {
+    return Array.from(this.resumes.values())
+      .filter(r => r.seekerId === seekerId && !r.deletedAt)
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || byCreatedAtDesc(a, b) || b.id - a.id);
+  }
+
+  async getResume(id: number): Promise<Resume | undefined> {
+    return this.resumes.get(id);
+  }
+
+  async createResume(insertResume: InsertResume): Promise<Resume> {
+    if (insertResume.isDefault) this.clearDefaultResume(insertResume.seekerId);
+    const resume: Resume = {
+      fileType: "pdf",
+      isDefault: false,
+      ...definedOnly(insertResume),
+      id: this.nextId("resumes"),
+      deletedAt: null,
+      createdAt: new Date(),
+    };
+    this.resumes.set(resume.id, resume);
+    return resume;
+  }
+
+  async renameResume(id: number, name: string): Promise<Resume> {
+    const existing = this.resumes.get(id);
+    if (!existing) throw new Error(`Resume ${id} not found`);
+    const resume: Resume = { ...existing, name };
+    this.resumes.set(id, resume);
+    return resume;
+  }
+
+  async setDefaultResume(seekerId: number, id: number): Promise<Resume> {
+    const existing = this.resumes.get(id);
+    if (!existing || existing.seekerId !== seekerId) throw new Error(`Resume ${id} not found`);
+    this.clearDefaultResume(seekerId);
+    const resume: Resume = { ...existing, isDefault: true };
+    this.resumes.set(id, resume);
+    return resume;
+  }
+
+  async deleteResume(id: number): Promise<void> {
+    const existing = this.resumes.get(id);
+    if (existing) this.resumes.set(id, { ...existing, deletedAt: new Date(), isDefault: false });
+  }
+
+  // Structured resume data
+  async beginResumeParse(resumeId: number, seekerId: number): Promise<ResumeParse> {
+    const existing = this.findResumeParse(resumeId);
+    const now = new Date();
+    const parse: ResumeParse = existing
+      ? { ...existing, status: "pending", error: null, updatedAt: now }
+      : {
+          id: this.nextId("resumeParses"),
+          resumeId,
+          seekerId,
+          status: "pending",
+          method: null,
+          contact: null,
+          skills: null,
+          experienceYears: null,
+          error: null,
+          mergedAt: null,
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.resumeParses.set(parse.id, parse);
+    return parse;
+  }
+
+  async completeResumeParse(resumeId: number, parsed: ParsedResume, method: NonNullable<ResumeParse["method"]>): Promise<ResumeParse> {
+    const existing = this.findResumeParse(resumeId);
+    if (!existing) throw new Error(`Resume parse for resume ${resumeId} not found`);
+    const parse: ResumeParse = {
+      ...existing,
+      status: "complete",
+      method,
+      contact: parsed.contact,
+      skills: parsed.skills,
+      experienceYears: parsed.experienceYears,
+      error: null,
+      mergedAt: null,
+      updatedAt: new Date(),
+    };
+    this.resumeParses.set(parse.id, parse);
+
+    const owner = { seekerId: parse.seekerId, resumeId };
+    replaceEntries(this.profileWorkHistory, resumeId, parsed.workHistory.map((entry, position) => ({
+      company: null, title: null, startDate: null, endDate: null, current: false,
+      ...definedOnly(entry), ...owner, position, id: this.nextId("profileWorkHistory"),
+    })));
+    replaceEntries(this.profileEducation, resumeId, parsed.education.map((entry, position) => ({
+      institution: null, degree: null, fieldOfStudy: null, startYear: null, endYear: null,
+      ...definedOnly(entry), ...owner, position, id: this.nextId("profileEducation"),
+    })));
+    replaceEntries(this.profileCertifications, resumeId, parsed.certifications.map((entry, position) => ({
+      issuer: null, year: null,
+      ...definedOnly(entry), ...owner, position, id: this.nextId("profileCertifications"),
+    })));
+    return parse;
+  }
+
+  async failResumeParse(resumeId: number, error: string): Promise<void> {
+    const existing = this.findResumeParse(resumeId);
+    if (existing) this.resumeParses.set(existing.id, { ...existing, status: "failed", error, updatedAt: new Date() });
+  }
+
+  async getResumeParse(resumeId: number): Promise<ResumeParseDetails | undefined> {
+    const parse = this.findResumeParse(resumeId);
+    if (!parse) return undefined;
+    const forResume = <T extends { resumeId: number; position: number }>(entries: Map<number, T>) =>
+      Array.from(entries.values()).filter(e => e.resumeId === resumeId).sort((a, b) => a.position - b.position);
+    return {
+      ...parse,
+      workHistory: forResume(this.profileWorkHistory),
+      education: forResume(this.profileEducation),
+      certifications: forResume(this.profileCertifications),
+    };
+  }
+
+  async markResumeParseMerged(id: number): Promise<void> {
+    const existing = this.resumeParses.get(id);
+    if (existing) this.resumeParses.set(id, { ...existing, mergedAt: new Date() });
+  }
+
+  // Employer & Company
+  async getEmployerProfile(userId: number): Promise<(EmployerProfile & { company: Company }) | undefined> {
+    const profile = Array.from(this.employerProfiles.values()).find(p => p.userId === userId);
+    if (!profile) return undefined;
+    const company = this.companies.get(profile.companyId);
+    if (!company) return undefined;
+    return { ...profile, company };
+  }
+
+  async createEmployerProfile(insertProfile: InsertEmployerProfile): Promise<EmployerProfile> {
+    const profile: EmployerProfile = { role: "owner", ...definedOnly(insertProfile), id: this.nextId("employerProfiles") };
+    this.employerProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async createCompany(insertCompany: InsertCompany): Promise<Company> {
+    const company: Company = {
+      industry: null,
+      size: null,
+      website: null,
+      redactPii: true,
+      ...definedOnly(insertCompany),
+      id: this.nextId("companies"),
+      createdAt: new Date(),
+    };
+    this.companies.set(company.id, company);
+    return company;
+  }
+
+  async updateCompany(id: number, updates: Partial<InsertCompany>): Promise<Company> {
+    const existing = this.companies.get(id);
+    if (!existing) throw new Error(`Company ${id} not found`);
+    const company: Company = { ...existing, ...definedOnly(updates) };
+    this.companies.set(id, company);
+    return company;
+  }
+
+  async getCompany(id: number): Promise<Company | undefined> {
+    return this.companies.get(id);
+  }
+
+  async listCompanyMembers(companyId: number): Promise<(EmployerProfile & { user: PublicUser })[]> {
+    return Array.from(this.employerProfiles.values())
+      .filter(p => p.companyId === companyId)
+      .sort((a, b) => a.id - b.id)
+      .flatMap(profile => {
+        const found = this.users.get(profile.userId);
+        if (!found) return [];
+        const { password, ...user } = found;
+        return [{ ...profile, user }];
+      });
+  }
+
+  async getEmployerProfileById(id: number): Promise<EmployerProfile | undefined> {
+    return this.employerProfiles.get(id);
+  }
+
+  async updateEmployerProfile(id: number, updates: Partial<InsertEmployerProfile>): Promise<EmployerProfile> {
+    const existing = this.employerProfiles.get(id);
+    if (!existing) throw new Error(`Employer profile ${id} not found`);
+    const profile: EmployerProfile = { ...existing, ...definedOnly(updates) };
+    this.employerProfiles.set(id, profile);
+    return profile;
+  }
+
+  async deleteEmployerProfile(id: number): Promise<void> {
+    this.employerProfiles.delete(id);
+  }
+
+  // Company team invitations
+  async createCompanyInvitation(insertInvitation: InsertCompanyInvitation): Promise<CompanyInvitation> {
+    if (Array.from(this.companyInvitations.values()).some(i => i.tokenHash === insertInvitation.tokenHash)) {
+      throw new Error(`duplicate key value violates unique constraint "company_invitations_token_hash_unique"`);
+    }
+    const invitation: CompanyInvitation = {
+      ...definedOnly(insertInvitation),
+      id: this.nextId("companyInvitations"),
+      acceptedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.companyInvitations.set(invitation.id, invitation);
+    return invitation;
+  }
+
+  async getCompanyInvitation(id: number): Promise<CompanyInvitation | undefined> {
+    return this.companyInvitations.get(id);
+  }
+
+  async findCompanyInvitationByToken(tokenHash: string): Promise<CompanyInvitation | undefined> {
+    return Array.from(this.companyInvitations.values()).find(i => i.tokenHash === tokenHash);
+  }
+
+  async listPendingCompanyInvitations(companyId: number): Promise<CompanyInvitation[]> {
+    const now = new Date();
+    return Array.from(this.companyInvitations.values())
+      .filter(i => i.companyId === companyId && !i.acceptedAt && !i.revokedAt && i.expiresAt > now)
+      .sort(byCreatedAtDesc);
+  }
+
+  async revokeCompanyInvitation(id: number): Promise<void> {
+    const invitation = this.companyInvitations.get(id);
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt) return;
+    this.companyInvitations.set(id, { ...invitation, revokedAt: new Date() });
+  }
+
+  async revokeCompanyInvitationsForEmail(companyId: number, email: string): Promise<void> {
+    for (const invitation of Array.from(this.companyInvitations.values())) {
+      if (invitation.companyId === companyId && invitation.email === email && !invitation.acceptedAt && !invitation.revokedAt) {
+        this.companyInvitations.set(invitation.id, { ...invitation, revokedAt: new Date() });
+      }
+    }
+  }
+
+  async acceptCompanyInvitation(id: number, userId: number): Promise<EmployerProfile | undefined> {
+    const invitation = this.companyInvitations.get(id);
+    if (!invitation || invitation.acceptedAt || invitation.revokedAt || invitation.expiresAt <= new Date()) return undefined;
+    this.companyInvitations.set(id, { ...invitation, acceptedAt: new Date() });
+    return this.createEmployerProfile({ userId, companyId: invitation.companyId, role: invitation.role });
+  }
+
+  // Jobs
+  async getJob(id: number): Promise<(Job & { company: Company }) | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const company = this.companies.get(job.companyId);
+    if (!company) return undefined;
+    return { ...job, company };
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const job: Job = {
+      remote: false,
+      salaryMin: null,
+      salaryMax: null,
+      requiredSkills: null,
+      minYears: 0,
+      status: "open",
+      active: true,
+      publishAt: null,
+      expiresAt: null,
+      closedAt: null,
+      blindReview: false,
+      revealStage: "interview",
+      ...definedOnly(insertJob),
+      id: this.nextId("jobs"),
+      embedding: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  async updateJob(id: number, updates: Partial<InsertJob>): Promise<Job> {
+    const existing = this.jobs.get(id);
+    if (!existing) throw new Error(`Job ${id} not found`);
+    const job: Job = { ...existing, ...definedOnly(updates), updatedAt: new Date() };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async setJobEmbedding(id: number, embedding: number[]): Promise<void> {
+    const existing = this.jobs.get(id);
+    if (existing) this.jobs.set(id, { ...existing, embedding });
+  }
+
+  async listJobsNeedingEmbedding(dimensions: number, limit: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !Array.isArray(job.embedding) || job.embedding.length !== dimensions)
+      .slice(0, limit);
+  }
+
+  async listJobsForCompany(companyId: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.companyId === companyId)
+      .sort(byCreatedAtDesc);
+  }
+
+  async syncJobLifecycle(now: Date): Promise<{ published: number, expired: number }> {
+    let published = 0;
+    let expired = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if (job.status !== "open") continue;
+      if (job.expiresAt && job.expiresAt <= now) {
+        this.jobs.set(job.id, { ...job, status: "closed", active: false, closedAt: now, updatedAt: now });
+        expired++;
+      } else if (job.active !== true && isJobLive(job, now)) {
+        this.jobs.set(job.id, { ...job, active: true, updatedAt: now });
+        published++;
+      }
+    }
+    return { published, expired };
+  }
+
+  async listJobs(filters?: { title?: string, location?: string, remote?: boolean, minSalary?: number }): Promise<(Job & { company: Company })[]> {
+    const contains = (value: string, term: string) => value.toLowerCase().includes(term.toLowerCase());
+
+    return Array.from(this.jobs.values())
+      .filter(job => {
+        if (job.active !== true) return false;
+        if (!filters) return true;
+        if (filters.title && !contains(job.title, filters.title)) return false;
+        if (filters.location && !contains(job.location, filters.location)) return false;
+        if (filters.remote !== undefined && job.remote !== filters.remote) return false;
+        if (filters.minSalary && (job.salaryMax === null || job.salaryMax < filters.minSalary)) return false;
+        return true;
+      })
+      .sort(byCreatedAtDesc)
+      .flatMap(job => {
+        const company = this.companies.get(job.companyId);
+        return company ? [{ ...job, company }] : [];
+      });
+  }
+
+  async searchJobs(search: JobSearch): Promise<JobSearchPage> {
+    const contains = (value: string, term: string) => value.toLowerCase().includes(term.toLowerCase());
+    const terms = search.q ? search.q.toLowerCase().split(/[^a-z0-9+#]+/).filter(Boolean) : [];
+    const band = salaryBands.find(b => b.key === search.salaryBand);
+
+    // Rough stand-in for ts_rank: weighted hits per term, every term required
+    const rank = (job: Job & { company: Company }) => {
+      let score = 0;
+      for (const term of terms) {
+        const hit =
+          (contains(job.title, term) ? 1 : 0) +
+          ((job.requiredSkills ?? []).some(skill => contains(skill, term)) || contains(job.company.name, term) ? 0.4 : 0) +
+          (contains(job.description, term) ? 0.2 : 0);
+        if (hit === 0) return 0;
+        score += hit;
+      }
+      return score;
+    };
+
+    const filters = {
+      q: (job: Job & { company: Company }) => terms.length === 0 || rank(job) > 0,
+      title: (job: Job) => !search.title || contains(job.title, search.title),
+      location: (job: Job) => !search.location || contains(job.location, search.location),
+      remote: (job: Job) => search.remote === undefined || (job.remote ?? false) === search.remote,
+      company: (job: Job) => search.companyId === undefined || job.companyId === search.companyId,
+      minSalary: (job: Job) => !search.minSalary || (job.salaryMax !== null && job.salaryMax >= search.minSalary),
+      salary: (job: Job) => !band || isInSalaryBand(job, band),
+    };
+    const active = Array.from(this.jobs.values()).flatMap(job => {
+      const company = this.companies.get(job.companyId);
+      return job.active === true && company ? [{ ...job, company }] : [];
+    });
+    const matching = (except?: keyof typeof filters) =>
+      active.filter(job => Object.entries(filters).every(([name, matches]) => name === except || matches(job)));
+
+    const key = (job: Job & { company: Company }) =>
+      search.sort === "relevance" && terms.length > 0 ? rank(job)
+      : search.sort === "salary" ? job.salaryMax ?? job.salaryMin ?? -1
+      : job.createdAt?.getTime() ?? 0;
+    const cursor = search.cursor;
+    const sorted = matching()
+      .map(job => ({ job, key: key(job) }))
+      .sort((a, b) => b.key - a.key || b.job.id - a.job.id)
+      .filter(({ job, key }) => !cursor || key < Number(cursor.key) || (key === Number(cursor.key) && job.id < cursor.id));
+
+    const page = sorted.slice(0, search.limit);
+    const last = page[page.length - 1];
+    return {
+      items: page.map(r => r.job),
+      total: matching().length,
+      next: sorted.length > search.limit ? { key: last.key, id: last.job.id } : null,
+      facets: {
+        remote: countBy(matching("remote"), job => job.remote ?? false)
+          .map(([value, count]) => ({ value, count })),
+        locations: countBy(matching("location"), job => job.location)
+          .slice(0, FACET_LIMIT)
+          .map(([value, count]) => ({ value, count })),
+        companies: countBy(matching("company"), job => job.companyId)
+          .slice(0, FACET_LIMIT)
+          .map(([id, count]) => ({ id, name: this.companies.get(id)!.name, count })),
+        salaryBands: salaryBands.map(b => ({
+          key: b.key,
+          label: b.label,
+          count: matching("salary").filter(job => isInSalaryBand(job, b)).length,
+        })),
+      },
+    };
+  }
+
+  async indexJobsForSearch(): Promise<number> {
+    // Searched directly in memory; nothing to index
+    return 0;
+  }
+
+  // Applications
+  async createApplication(insertApp: InsertApplication, actorId: number | null): Promise<Application> {
+    const now = new Date();
+    const app: Application = {
+      status: "applied",
+      note: null,
+      ...definedOnly(insertApp),
+      id: this.nextId("applications"),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.applications.set(app.id, app);
+    await this.createApplicationEvent({ applicationId: app.id, actorId, toStatus: app.status ?? "applied" });
+    return app;
+  }
+
+  async getApplication(id: number): Promise<(Application & { job: Job, seeker: PublicUser, screening?: ScreeningResult }) | undefined> {
+    const app = this.applications.get(id);
+    if (!app) return undefined;
+    const job = this.jobs.get(app.jobId);
+    const user = this.users.get(app.seekerId);
+    if (!job || !user) return undefined;
+    const { password, ...seeker } = user;
+    return { ...app, job, seeker, screening: this.findScreening(app.id) };
+  }
+
+  async listApplicationsForSeeker(seekerId: number): Promise<(Application & { job: Job, company: Company, screening?: ScreeningResult })[]> {
+    return Array.from(this.applications.values())
+      .filter(app => app.seekerId === seekerId)
+      .sort(byCreatedAtDesc)
+      .flatMap(app => {
+        const job = this.jobs.get(app.jobId);
+        const company = job && this.companies.get(job.companyId);
+        if (!job || !company) return [];
+        return [{ ...app, job, company, screening: this.findScreening(app.id) }];
+      });
+  }
+
+  async listApplicationsForJob(jobId: number): Promise<(Application & { seeker: PublicUser, profile: JobSeekerProfile, screening?: ScreeningResult })[]> {
+    const results: (Application & { seeker: PublicUser, profile: JobSeekerProfile, screening?: ScreeningResult })[] = [];
+    for (const app of Array.from(this.applications.values()).sort(byCreatedAtDesc)) {
+      if (app.jobId !== jobId) continue;
+      const user = this.users.get(app.seekerId);
+      if (!user) continue;
+      const { password, ...seeker } = user;
+      // Inner join semantics: one row per matching profile
+      for (const profile of Array.from(this.seekerProfiles.values())) {
+        if (profile.userId !== seeker.id) continue;
+        results.push({ ...app, seeker, profile, screening: this.findScreening(app.id) });
+      }
+    }
+    return results;
+  }
+
+  async updateApplicationStatus(id: number, status: ApplicationStatus, change: StatusChange): Promise<Application | undefined> {
+    const existing = this.applications.get(id);
+    if (!existing || (existing.status ?? "applied") !== change.from) return undefined;
+    const app: Application = { ...existing, status, updatedAt: new Date() };
+    this.applications.set(id, app);
+    await this.createApplicationEvent({
+      applicationId: id,
+      actorId: change.actorId,
+      fromStatus: change.from,
+      toStatus: status,
+      reason: change.reason,
+      internalReason: change.internalReason,
+    });
+    return app;
+  }
+
+  async createApplicationEvent(insertEvent: InsertApplicationEvent): Promise<ApplicationEvent> {
+    const event: ApplicationEvent = {
+      actorId: null,
+      fromStatus: null,
+      reason: null,
+      internalReason: null,
+      ...definedOnly(insertEvent),
+      id: this.nextId("applicationEvents"),
+      createdAt: new Date(),
+    };
+    this.applicationEvents.set(event.id, event);
+    return event;
+  }
+
+  async listApplicationEvents(applicationIds: number[]): Promise<ApplicationEvent[]> {
+    return Array.from(this.applicationEvents.values())
+      .filter(e => applicationIds.includes(e.applicationId))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async createApplicationSnapshot(insertSnapshot: InsertApplicationSnapshot): Promise<ApplicationSnapshot> {
+    if (Array.from(this.applicationSnapshots.values()).some(s => s.applicationId === insertSnapshot.applicationId)) {
+      throw new Error(`duplicate key value violates unique constraint "application_snapshots_application_id_unique"`);
+    }
+    const snapshot: ApplicationSnapshot = {
+      resumeId: null,
+      resumeName: null,
+      resumeUrl: null,
+      resumeText: null,
+      profile: null,
+      ...definedOnly(insertSnapshot),
+      id: this.nextId("applicationSnapshots"),
+      createdAt: new Date(),
+    };
+    this.applicationSnapshots.set(snapshot.id, snapshot);
+    return snapshot;
+  }
+
+  async listApplicationSnapshots(applicationIds: number[]): Promise<ApplicationSnapshot[]> {
+    return Array.from(this.applicationSnapshots.values()).filter(s => applicationIds.includes(s.applicationId));
+  }
+
+  async recordIdentityReveals(reveals: InsertIdentityReveal[]): Promise<void> {
+    for (const reveal of reveals) {
+      const logged = Array.from(this.identityReveals.values())
+        .some(r => r.applicationId === reveal.applicationId && r.viewerId === reveal.viewerId);
+      if (logged) continue;
+      const entry: IdentityReveal = { ...reveal, id: this.nextId("identityReveals"), createdAt: new Date() };
+      this.identityReveals.set(entry.id, entry);
+    }
+  }
+
+  async listIdentityReveals(applicationIds: number[]): Promise<(IdentityReveal & { viewer: PublicUser })[]> {
+    return Array.from(this.identityReveals.values())
+      .filter(r => applicationIds.includes(r.applicationId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .flatMap(reveal => {
+        const user = this.users.get(reveal.viewerId);
+        if (!user) return [];
+        const { password, ...viewer } = user;
+        return [{ ...reveal, viewer }];
+      });
+  }
+
+  // Screening questions & answers
+  async listJobQuestions(jobId: number): Promise<JobQuestion[]> {
+    return Array.from(this.jobQuestions.values())
+      .filter(q => q.jobId === jobId && !q.archivedAt)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async replaceJobQuestions(jobId: number, questions: JobQuestionDraft[]): Promise<JobQuestion[]> {
+    const kept = new Set(questions.flatMap(q => q.id !== undefined ? [q.id] : []));
+    for (const existing of await this.listJobQuestions(jobId)) {
+      if (!kept.has(existing.id)) this.jobQuestions.set(existing.id, { ...existing, archivedAt: new Date() });
+    }
+
+    for (const [position, { id, ...question }] of Array.from(questions.entries())) {
+      const values = { ...question, options: question.options ?? null, knockout: question.knockout ?? null, position };
+      const existing = id !== undefined ? this.jobQuestions.get(id) : undefined;
+      if (existing) {
+        if (existing.jobId === jobId) this.jobQuestions.set(existing.id, { ...existing, ...definedOnly(values) });
+      } else if (id === undefined) {
+        const created: JobQuestion = {
+          required: true,
+          ...definedOnly(values),
+          id: this.nextId("jobQuestions"),
+          jobId,
+          archivedAt: null,
+          createdAt: new Date(),
+        };
+        this.jobQuestions.set(created.id, created);
+      }
+    }
+    return this.listJobQuestions(jobId);
+  }
+
+  async createApplicationAnswers(insertAnswers: InsertApplicationAnswer[]): Promise<ApplicationAnswer[]> {
+    return insertAnswers.map(insertAnswer => {
+      const answer: ApplicationAnswer = {
+        ...insertAnswer,
+        id: this.nextId("applicationAnswers"),
+        createdAt: new Date(),
+      };
+      this.applicationAnswers.set(answer.id, answer);
+      return answer;
+    });
+  }
+
+  async listApplicationAnswers(applicationIds: number[]): Promise<(ApplicationAnswer & { question: JobQuestion })[]> {
+    return Array.from(this.applicationAnswers.values())
+      .filter(a => applicationIds.includes(a.applicationId))
+      .flatMap(answer => {
+        const question = this.jobQuestions.get(answer.questionId);
+        return question ? [{ ...answer, question }] : [];
+      })
+      .sort((a, b) => a.question.position - b.question.position || a.question.id - b.question.id);
+  }
+
+  // Messaging
+  async listMessageTemplates(companyId: number): Promise<MessageTemplate[]> {
+    return Array.from(this.messageTemplates.values())
+      .filter(t => t.companyId === companyId && !t.archivedAt)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getMessageTemplate(id: number): Promise<MessageTemplate | undefined> {
+    return this.messageTemplates.get(id);
+  }
+
+  async createMessageTemplate(insertTemplate: InsertMessageTemplate): Promise<MessageTemplate> {
+    const template: MessageTemplate = {
+      ...insertTemplate,
+      id: this.nextId("messageTemplates"),
+      archivedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.messageTemplates.set(template.id, template);
+    return template;
+  }
+
+  async updateMessageTemplate(id: number, updates: Partial<Pick<InsertMessageTemplate, "name" | "body">>): Promise<MessageTemplate> {
+    const existing = this.messageTemplates.get(id);
+    if (!existing) throw new Error(`Message template ${id} not found`);
+    const template: MessageTemplate = { ...existing, ...definedOnly(updates), updatedAt: new Date() };
+    this.messageTemplates.set(id, template);
+    return template;
+  }
+
+  async archiveMessageTemplate(id: number): Promise<void> {
+    const existing = this.messageTemplates.get(id);
+    if (existing) this.messageTemplates.set(id, { ...existing, archivedAt: new Date() });
+  }
+
+  async createApplicationMessage(insertMessage: InsertApplicationMessage): Promise<ApplicationMessage> {
+    const message: ApplicationMessage = {
+      templateId: null,
+      ...definedOnly(insertMessage),
+      id: this.nextId("applicationMessages"),
+      readAt: null,
+      readBy: null,
+      createdAt: new Date(),
+    };
+    this.applicationMessages.set(message.id, message);
+    return message;
+  }
+
+  async listApplicationMessages(applicationId: number): Promise<ApplicationMessage[]> {
+    return Array.from(this.applicationMessages.values())
+      .filter(m => m.applicationId === applicationId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  }
+
+  async markApplicationMessagesRead(applicationId: number, reader: { role: MessageSenderRole; userId: number }): Promise<number> {
+    const unread = (await this.listApplicationMessages(applicationId)).filter(m => m.senderRole !== reader.role && !m.readAt);
+    for (const message of unread) {
+      this.applicationMessages.set(message.id, { ...message, readAt: new Date(), readBy: reader.userId });
+    }
+    return unread.length;
+  }
+
+  async countUnreadMessages(recipient: MessageRecipient): Promise<{ applicationId: number; count: number }[]> {
+    const counts = new Map<number, number>();
+    for (const message of Array.from(this.applicationMessages.values())) {
+      if (message.senderRole === recipient.role || message.readAt) continue;
+      const application = this.applications.get(message.applicationId);
+      if (!application) continue;
+      const mine = recipient.role === "seeker"
+        ? application.seekerId === recipient.seekerId
+        : this.jobs.get(application.jobId)?.companyId === recipient.companyId;
+      if (mine) counts.set(application.id, (counts.get(application.id) ?? 0) + 1);
+    }
+    return Array.from(counts, ([applicationId, count]) => ({ applicationId, count }));
+  }
+
+  // Interviews
+  async createInterviewSlots(insertSlots: InsertInterviewSlot[]): Promise<InterviewSlot[]> {
+    return insertSlots.map(insertSlot => {
+      const slot: InterviewSlot = {
+        location: null,
+        videoUrl: null,
+        ...definedOnly(insertSlot),
+        id: this.nextId("interviewSlots"),
+        applicationId: null,
+        createdAt: new Date(),
+      };
+      this.interviewSlots.set(slot.id, slot);
+      return slot;
+    });
+  }
+
+  async listInterviewSlots(jobId: number): Promise<InterviewSlot[]> {
+    return Array.from(this.interviewSlots.values())
+      .filter(s => s.jobId === jobId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+
+  async getInterviewSlot(id: number): Promise<InterviewSlot | undefined> {
+    return this.interviewSlots.get(id);
+  }
+
+  async deleteInterviewSlot(id: number): Promise<boolean> {
+    const slot = this.interviewSlots.get(id);
+    const everBooked = Array.from(this.interviews.values()).some(i => i.slotId === id);
+    if (!slot || slot.applicationId !== null || everBooked) return false;
+    this.interviewSlots.delete(id);
+    return true;
+  }
+
+  async bookInterviewSlot(slotId: number, applicationId: number): Promise<InterviewSlot | undefined> {
+    const slot = this.interviewSlots.get(slotId);
+    if (!slot || slot.applicationId !== null) return undefined;
+    const booked: InterviewSlot = { ...slot, applicationId };
+    this.interviewSlots.set(slotId, booked);
+    return booked;
+  }
+
+  async releaseInterviewSlot(slotId: number): Promise<void> {
+    const slot = this.interviewSlots.get(slotId);
+    if (slot) this.interviewSlots.set(slotId, { ...slot, applicationId: null });
+  }
+
+  async createInterview(insertInterview: InsertInterview): Promise<Interview | undefined> {
+    // Checked and inserted without an await in between, so concurrent bookings can't both pass
+    const scheduled = Array.from(this.interviews.values())
+      .some(i => i.applicationId === insertInterview.applicationId && i.status === "scheduled");
+    if (scheduled) return undefined;
+    const interview: Interview = {
+      location: null,
+      videoUrl: null,
+      status: "scheduled",
+      sequence: 0,
+      kit: null,
+      cancelReason: null,
+      cancelledAt: null,
+      ...definedOnly(insertInterview),
+      id: this.nextId("interviews"),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.interviews.set(interview.id, interview);
+    return interview;
+  }
+
+  async getActiveInterview(applicationId: number): Promise<Interview | undefined> {
+    return Array.from(this.interviews.values()).find(i => i.applicationId === applicationId && i.status === "scheduled");
+  }
+
+  async listInterviews(applicationIds: number[]): Promise<Interview[]> {
+    return Array.from(this.interviews.values())
+      .filter(i => applicationIds.includes(i.applicationId))
+      .sort((a, b) => byCreatedAtDesc(a, b) || b.id - a.id);
+  }
+
+  async updateInterview(id: number, updates: Partial<InsertInterview>): Promise<Interview> {
+    const existing = this.interviews.get(id);
+    if (!existing) throw new Error(`Interview ${id} not found`);
+    const interview: Interview = { ...existing, ...definedOnly(updates), updatedAt: new Date() };
+    this.interviews.set(id, interview);
+    return interview;
+  }
+
+  // Scorecards
+  async listScorecardCompetencies(jobId: number): Promise<ScorecardCompetency[]> {
+    return Array.from(this.scorecardCompetencies.values())
+      .filter(c => c.jobId === jobId && !c.archivedAt)
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async replaceScorecardCompetencies(jobId: number, competencies: ScorecardCompetencyDraft[]): Promise<ScorecardCompetency[]> {
+    const kept = new Set(competencies.flatMap(c => c.id !== undefined ? [c.id] : []));
+    for (const existing of await this.listScorecardCompetencies(jobId)) {
+      if (!kept.has(existing.id)) this.scorecardCompetencies.set(existing.id, { ...existing, archivedAt: new Date() });
+    }
+
+    for (const [position, { id, ...competency }] of Array.from(competencies.entries())) {
+      const values = { ...competency, description: competency.description ?? null, position };
+      const existing = id !== undefined ? this.scorecardCompetencies.get(id) : undefined;
+      if (existing) {
+        if (existing.jobId === jobId) this.scorecardCompetencies.set(existing.id, { ...existing, ...definedOnly(values) });
+      } else if (id === undefined) {
+        const created: ScorecardCompetency = {
+          ...values,
+          id: this.nextId("scorecardCompetencies"),
+          jobId,
+          archivedAt: null,
+          createdAt: new Date(),
+        };
+        this.scorecardCompetencies.set(created.id, created);
+      }
+    }
+    return this.listScorecardCompetencies(jobId);
+  }
+
+  async getScorecard(interviewId: number, reviewerId: number): Promise<Scorecard | undefined> {
+    return Array.from(this.scorecards.values()).find(s => s.interviewId === interviewId && s.reviewerId === reviewerId);
+  }
+
+  async saveScorecard(insertScorecard: InsertScorecard): Promise<Scorecard | undefined> {
+    const existing = await this.getScorecard(insertScorecard.interviewId, insertScorecard.reviewerId);
+    if (existing?.submittedAt) return undefined;
+
+    const { ratings, recommendation, notes, submittedAt } = insertScorecard;
+    const scorecard: Scorecard = existing
+      ? { ...existing, ratings, recommendation: recommendation ?? null, notes: notes ?? null, submittedAt: submittedAt ?? null, updatedAt: new Date() }
+      : {
+        recommendation: null,
+        notes: null,
+        submittedAt: null,
+        ...definedOnly(insertScorecard),
+        ratings: insertScorecard.ratings ?? [],
+        id: this.nextId("scorecards"),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+    this.scorecards.set(scorecard.id, scorecard);
+    return scorecard;
+  }
+
+  async listScorecards(applicationIds: number[]): Promise<Scorecard[]> {
+    return Array.from(this.scorecards.values())
+      .filter(s => applicationIds.includes(s.applicationId))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Offers
+  async listOfferTemplates(companyId: number): Promise<OfferTemplate[]> {
+    return Array.from(this.offerTemplates.values())
+      .filter(t => t.companyId === companyId && !t.archivedAt)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+  }
+
+  async getOfferTemplate(id: number): Promise<OfferTemplate | undefined> {
+    return this.offerTemplates.get(id);
+  }
+
+  async createOfferTemplate(insertTemplate: InsertOfferTemplate): Promise<OfferTemplate> {
+    const template: OfferTemplate = {
+      ...insertTemplate,
+      id: this.nextId("offerTemplates"),
+      archivedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.offerTemplates.set(template.id, template);
+    return template;
+  }
+
+  async updateOfferTemplate(id: number, updates: Partial<Pick<InsertOfferTemplate, "name" | "body">>): Promise<OfferTemplate> {
+    const existing = this.offerTemplates.get(id);
+    if (!existing) throw new Error(`Offer template ${id} not found`);
+    const template: OfferTemplate = { ...existing, ...definedOnly(updates), updatedAt: new Date() };
+    this.offerTemplates.set(id, template);
+    return template;
+  }
+
+  async archiveOfferTemplate(id: number): Promise<void> {
+    const existing = this.offerTemplates.get(id);
+    if (existing) this.offerTemplates.set(id, { ...existing, archivedAt: new Date() });
+  }
+
+  async createOffer(insertOffer: Omit<InsertOffer, "version">): Promise<Offer> {
+    const versions = Array.from(this.offers.values())
+      .filter(o => o.applicationId === insertOffer.applicationId)
+      .map(o => o.version);
+    const offer: Offer = {
+      status: "draft",
+      currency: "USD",
+      equity: null,
+      templateId: null,
+      letter: null,
+      approvedBy: null,
+      approvedAt: null,
+      approvalNote: null,
+      sentAt: null,
+      respondedAt: null,
+      responseMessage: null,
+      counter: null,
+      ...definedOnly(insertOffer),
+      version: Math.max(0, ...versions) + 1,
+      id: this.nextId("offers"),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.offers.set(offer.id, offer);
+    return offer;
+  }
+
+  async getOffer(id: number): Promise<Offer | undefined> {
+    return this.offers.get(id);
+  }
+
+  async listOffers(applicationIds: number[]): Promise<Offer[]> {
+    return Array.from(this.offers.values())
+      .filter(o => applicationIds.includes(o.applicationId))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async updateOffer(id: number, from: OfferStatus[], updates: Partial<InsertOffer>): Promise<Offer | undefined> {
+    const existing = this.offers.get(id);
+    if (!existing || !from.includes(existing.status)) return undefined;
+    const offer: Offer = { ...existing, ...definedOnly(updates), updatedAt: new Date() };
+    this.offers.set(id, offer);
+    return offer;
+  }
+
+  // Invitations
+  async createJobInvitation(insertInvitation: InsertJobInvitation): Promise<JobInvitation> {
+    const invitation: JobInvitation = {
+      message: null,
+      status: "pending",
+      respondedAt: null,
+      ...definedOnly(insertInvitation),
+      id: this.nextId("jobInvitations"),
+      createdAt: new Date(),
+    };
+    this.jobInvitations.set(invitation.id, invitation);
+    return invitation;
+  }
+
+  async getJobInvitation(id: number): Promise<JobInvitation | undefined> {
+    return this.jobInvitations.get(id);
+  }
+
+  async findJobInvitation(jobId: number, seekerId: number): Promise<JobInvitation | undefined> {
+    return Array.from(this.jobInvitations.values()).find(i => i.jobId === jobId && i.seekerId === seekerId);
+  }
+
+  async listJobInvitationsForJob(jobId: number): Promise<JobInvitation[]> {
+    return Array.from(this.jobInvitations.values())
+      .filter(i => i.jobId === jobId)
+      .sort(byCreatedAtDesc);
+  }
+
+  async listJobInvitationsForSeeker(seekerId: number): Promise<(JobInvitation & { job: Job, company: Company })[]> {
+    return Array.from(this.jobInvitations.values())
+      .filter(i => i.seekerId === seekerId)
+      .sort(byCreatedAtDesc)
+      .flatMap(invitation => {
+        const job = this.jobs.get(invitation.jobId);
+        const company = job && this.companies.get(job.companyId);
+        if (!job || !company) return [];
+        return [{ ...invitation, job, company }];
+      });
+  }
+
+  async updateJobInvitation(id: number, updates: Partial<InsertJobInvitation>): Promise<JobInvitation> {
+    const existing = this.jobInvitations.get(id);
+    if (!existing) throw new Error(`Job invitation ${id} not found`);
+    const invitation: JobInvitation = { ...existing, ...definedOnly(updates) };
+    this.jobInvitations.set(id, invitation);
+    return invitation;
+  }
+
+  // Screening
+  async createScreeningResult(insertResult: InsertScreeningResult): Promise<ScreeningResult> {
+    const result: ScreeningResult = {
+      rulesScore: null,
+      semanticScore: null,
+      finalScore: null,
+      reasons: null,
+      aiSummary: null,
+      aiQuestions: null,
+      aiStatus: "pending",
+      provider: null,
+      model: null,
+      redactions: null,
+      stale: false,
+      ...definedOnly(insertResult),
+      id: this.nextId("screeningResults"),
+      createdAt: new Date(),
+    };
+    this.screeningResults.set(result.id, result);
+    return result;
+  }
+
+  async getScreeningResult(applicationId: number): Promise<ScreeningResult | undefined> {
+    return this.findScreening(applicationId);
+  }
+
+  async updateScreeningResult(id: number, updates: Partial<InsertScreeningResult>): Promise<ScreeningResult> {
+    const existing = this.screeningResults.get(id);
+    if (!existing) throw new Error(`Screening result ${id} not found`);
+    const result: ScreeningResult = { ...existing, ...updates };
+    this.screeningResults.set(id, result);
+    return result;
+  }
+
+  async listScreeningResultsByStatus(aiStatus: NonNullable<ScreeningResult["aiStatus"]>): Promise<ScreeningResult[]> {
+    return Array.from(this.screeningResults.values()).filter(r => r.aiStatus === aiStatus);
+  }
+
+  async markScreeningResultsStale(jobId: number): Promise<number> {
+    let marked = 0;
+    for (const result of Array.from(this.screeningResults.values())) {
+      if (result.stale || this.applications.get(result.applicationId)?.jobId !== jobId) continue;
+      this.screeningResults.set(result.id, { ...result, stale: true });
+      marked++;
+    }
+    return marked;
+  }
+
+  // Screening queue
+  async enqueueScreeningJob(insertJob: InsertScreeningJob): Promise<ScreeningJob> {
+    // Checked and inserted without an await in between, so concurrent enqueues can't both pass
+    const active = Array.from(this.screeningJobs.values())
+      .find(j => j.applicationId === insertJob.applicationId && (j.status === "queued" || j.status === "processing"));
+    if (active) return active;
+
+    const now = new Date();
+    const job: ScreeningJob = {
+      status: "queued",
+      attempts: 0,
+      maxAttempts: 5,
+      runAt: now,
+      lockedAt: null,
+      lastError: null,
+      ...definedOnly(insertJob),
+      id: this.nextId("screeningJobs"),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.screeningJobs.set(job.id, job);
+    return job;
+  }
+
+  async getActiveScreeningJob(applicationId: number): Promise<ScreeningJob | undefined> {
+    return Array.from(this.screeningJobs.values())
+      .find(j => j.applicationId === applicationId && (j.status === "queued" || j.status === "processing"));
+  }
+
+  async getScreeningJob(id: number): Promise<ScreeningJob | undefined> {
+    return this.screeningJobs.get(id);
+  }
+
+  async claimScreeningJobs(limit: number): Promise<ScreeningJob[]> {
+    const now = new Date();
+    const claimable = Array.from(this.screeningJobs.values())
+      .filter(j => j.status === "queued" && j.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+
+    return claimable.map(j => {
+      const claimed: ScreeningJob = { ...j, status: "processing", attempts: j.attempts + 1, lockedAt: now, updatedAt: now };
+      this.screeningJobs.set(j.id, claimed);
+      return claimed;
+    });
+  }
+
+  async updateScreeningJob(id: number, updates: Partial<InsertScreeningJob>): Promise<ScreeningJob> {
+    const existing = this.screeningJobs.get(id);
+    if (!existing) throw new Error(`Screening job ${id} not found`);
+    const job: ScreeningJob = { ...existing, ...definedOnly(updates), updatedAt: new Date() };
+    this.screeningJobs.set(id, job);
+    return job;
+  }
+
+  // Checked and updated without an await in between, like enqueueScreeningJob
+  async retryDeadScreeningJob(id: number): Promise<ScreeningJob | undefined> {
+    const existing = this.screeningJobs.get(id);
+    if (!existing || existing.status !== "dead") return undefined;
+    const active = Array.from(this.screeningJobs.values())
+      .some(j => j.applicationId === existing.applicationId && (j.status === "queued" || j.status === "processing"));
+    if (active) return undefined;
+    const now = new Date();
+    const job: ScreeningJob = { ...existing, status: "queued", attempts: 0, runAt: now, lockedAt: null, lastError: null, updatedAt: now };
+    this.screeningJobs.set(id, job);
+    return job;
+  }
+
+  async requeueStaleScreeningJobs(lockedBefore: Date): Promise<{ requeued: number; dead: ScreeningJob[] }> {
+    let requeued = 0;
+    const dead: ScreeningJob[] = [];
+    for (const job of Array.from(this.screeningJobs.values())) {
+      if (job.status !== "processing" || !job.lockedAt || job.lockedAt >= lockedBefore) continue;
+      if (job.attempts >= job.maxAttempts) {
+        const killed: ScreeningJob = { ...job, status: "dead", lockedAt: null, lastError: "Worker stopped before the job finished", updatedAt: new Date() };
+        this.screeningJobs.set(job.id, killed);
+        dead.push(killed);
+      } else {
+        this.screeningJobs.set(job.id, { ...job, status: "queued", lockedAt: null, runAt: new Date(), updatedAt: new Date() });
+        requeued++;
+      }
+    }
+    return { requeued, dead };
+  }
+
+  async listScreeningJobsForCompany(companyId: number, statuses: ScreeningJob["status"][]): Promise<(ScreeningJob & { job: Job })[]> {
+    return Array.from(this.screeningJobs.values())
+      .filter(j => statuses.includes(j.status))
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0))
+      .flatMap(queueJob => {
+        const app = this.applications.get(queueJob.applicationId);
+        const job = app && this.jobs.get(app.jobId);
+        if (!job || job.companyId !== companyId) return [];
+        return [{ ...queueJob, job }];
+      });
+  }
+
+  private findScreening(applicationId: number): ScreeningResult | undefined {
+    return Array.from(this.screeningResults.values()).find(r => r.applicationId === applicationId);
+  }
+
+  private findResumeParse(resumeId: number): ResumeParse | undefined {
+    return Array.from(this.resumeParses.values()).find(p => p.resumeId === resumeId);
+  }
+
+  private clearDefaultResume(seekerId: number) {
+    for (const resume of Array.from(this.resumes.values())) {
+      if (resume.seekerId === seekerId && resume.isDefault) this.resumes.set(resume.id, { ...resume, isDefault: false });
+    }
+  }
+}
+
+// Drizzle skips undefined values on insert/update so column defaults apply;
+// a plain object spread would overwrite them with undefined instead.
+function definedOnly<T extends object>(values: T): T {
+  return Object.fromEntries(Object.entries(values).filter(([, v]) => v !== undefined)) as T;
+}
+
+// Swaps one resume's parsed entries for a new set, like the delete-and-insert in DatabaseStorage
+function replaceEntries<T extends { id: number; resumeId: number }>(entries: Map<number, T>, resumeId: number, next: T[]) {
+  for (const entry of Array.from(entries.values())) {
+    if (entry.resumeId === resumeId) entries.delete(entry.id);
+  }
+  for (const entry of next) entries.set(entry.id, entry);
+}
+
+function inSalaryBand(band: SalaryBand) {
+  const topOfRange = sql`coalesce(${jobs.salaryMax}, ${jobs.salaryMin})`;
+  return and(
+    band.min !== null ? gte(topOfRange, band.min) : undefined,
+    band.max !== null ? lt(topOfRange, band.max) : undefined,
+  );
+}
+
+function isInSalaryBand(job: Job, band: SalaryBand): boolean {
+  const topOfRange = job.salaryMax ?? job.salaryMin;
+  if (topOfRange === null) return false;
+  return (band.min === null || topOfRange >= band.min) && (band.max === null || topOfRange < band.max);
+}
+
+// Most common first, ties in first-seen order
+function countBy<K>(items: Job[], keyOf: (job: Job) => K): [K, number][] {
+  const counts = new Map<K, number>();
+  for (const item of items) counts.set(keyOf(item), (counts.get(keyOf(item)) ?? 0) + 1);
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+function byCreatedAtDesc(a: { createdAt: Date | null }, b: { createdAt: Date | null }): number {
+  return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+}
+
+// STORAGE_DRIVER=memory boots the app without Postgres (local dev, tests).
+// Anything else uses the database and requires DATABASE_URL.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || "database";
+  if (driver === "memory") {
+    return new MemStorage();
+  }
+  if (driver !== "database") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Expected "database" or "memory".`);
+  }
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+  return new DatabaseStorage();
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
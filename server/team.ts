@@ -0,0 +1,59 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { sendMail, appUrl } from "./mail";
+import { hashToken } from "./tokens";
+import type { Company, CompanyInvitation, EmployerRole, User } from "@shared/schema";
+
+// Invite-by-email for company hiring teams. The emailed token is the only way
+// to accept, and it only works for an account with the invited address.
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const roleLabels: Record<EmployerRole, string> = {
+  owner: "an owner",
+  recruiter: "a recruiter",
+  hiring_manager: "a hiring manager",
+  read_only: "a read-only member",
+};
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Never expose the token hash in API responses
+export function publicInvitation({ tokenHash: _tokenHash, ...invitation }: CompanyInvitation) {
+  return invitation;
+}
+
+export async function inviteTeamMember(company: Company, inviter: Pick<User, "id" | "email">, email: string, role: EmployerRole) {
+  email = normalizeEmail(email);
+  // Re-inviting replaces the earlier link, like password resets
+  await storage.revokeCompanyInvitationsForEmail(company.id, email);
+
+  const token = randomBytes(32).toString("base64url");
+  const invitation = await storage.createCompanyInvitation({
+    companyId: company.id,
+    email,
+    role,
+    tokenHash: hashToken(token),
+    invitedBy: inviter.id,
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+  });
+
+  const link = appUrl(`/employer/join?token=${encodeURIComponent(token)}`);
+  await sendMail({
+    to: email,
+    subject: `Join ${company.name} on OneClickApply`,
+    text: `${inviter.email} invited you to join ${company.name}'s hiring team as ${roleLabels[role]}.\n\nSign up or log in as an employer with this email address, then accept the invitation here:\n${link}\n\nThe invitation expires in 7 days.`,
+  });
+
+  return invitation;
+}
+
+export async function findInvitationByToken(token: string): Promise<CompanyInvitation | undefined> {
+  return storage.findCompanyInvitationByToken(hashToken(token));
+}
+
+export function isInvitationLive(invitation: CompanyInvitation): boolean {
+  return !invitation.acceptedAt && !invitation.revokedAt && invitation.expiresAt > new Date();
+}
@@ -0,0 +1,52 @@
+import { randomBytes, createHash } from "crypto";
+import { storage } from "./storage";
+import { sendMail, appUrl } from "./mail";
+import type { AuthToken, User } from "@shared/schema";
+
+// Expiring, single-use tokens for email verification and password reset.
+
+const TTL_MS: Record<AuthToken["purpose"], number> = {
+  email_verification: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+};
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export async function issueToken(userId: number, purpose: AuthToken["purpose"]): Promise<string> {
+  // Only the newest link of each kind should work
+  await storage.invalidateAuthTokens(userId, purpose);
+  const token = randomBytes(32).toString("base64url");
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + TTL_MS[purpose]),
+  });
+  return token;
+}
+
+export async function consumeToken(token: string, purpose: AuthToken["purpose"]): Promise<AuthToken | undefined> {
+  return storage.consumeAuthToken(hashToken(token), purpose);
+}
+
+export async function sendVerificationEmail(user: Pick<User, "id" | "email">) {
+  const token = await issueToken(user.id, "email_verification");
+  const link = appUrl(`/auth/verify-email?token=${encodeURIComponent(token)}`);
+  await sendMail({
+    to: user.email,
+    subject: "Confirm your email address",
+    text: `Welcome to OneClickApply!\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+  });
+}
+
+export async function sendPasswordResetEmail(user: Pick<User, "id" | "email">) {
+  const token = await issueToken(user.id, "password_reset");
+  const link = appUrl(`/auth/reset-password?token=${encodeURIComponent(token)}`);
+  await sendMail({
+    to: user.email,
+    subject: "Reset your password",
+    text: `Someone asked to reset the password for this account.\n\nChoose a new password here:\n${link}\n\nThe link expires in 1 hour. If this wasn't you, you can ignore this email.`,
+  });
+}
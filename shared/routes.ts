@@ -1,6 +1,20 @@
 
 import { z } from 'zod';
+import type { PublicUser } from './schema';
 export { 
+  applicationStatuses,
+  applicationStatusTransitions,
+  canTransitionApplication,
+  jobStatuses,
+  isJobLive,
+  salaryBands,
+  questionTypes,
+  employerRoles,
+  employerPermissions,
+  hasEmployerPermission,
+  messageTemplatePlaceholders,
+  scorecardRecommendations,
+  offerLetterPlaceholders,
   insertUserSchema, 
   insertCompanySchema, 
   insertJobSeekerProfileSchema, 
@@ -9,11 +23,44 @@ export {
   jobs,
   applications,
   companies,
+  employerProfiles,
+  companyInvitations,
   jobSeekerProfiles,
   screeningResults,
+  screeningJobs,
+  jobInvitations,
+  applicationEvents,
+  jobQuestions,
+  applicationAnswers,
+  resumes,
+  applicationSnapshots,
+  resumeParses,
+  profileWorkHistory,
+  profileEducation,
+  profileCertifications,
+  messageTemplates,
+  applicationMessages,
+  interviewSlots,
+  interviews,
+  scorecardCompetencies,
+  scorecards,
+  offerTemplates,
+  offers,
+  identityReveals,
   users
 } from './schema';
 import { 
+  applicationStatuses,
+  employerRoles,
+  questionTypes,
+  salaryBandKeys,
+  messageTemplatePlaceholders,
+  isValidTimeZone,
+  scorecardRecommendations,
+  offerResponses,
+  offerLetterPlaceholders,
+  SCORECARD_RATING_MIN,
+  SCORECARD_RATING_MAX,
   insertUserSchema, 
   insertCompanySchema, 
   insertJobSeekerProfileSchema, 
@@ -22,8 +69,30 @@ import {
   jobs,
   applications,
   companies,
+  employerProfiles,
+  companyInvitations,
   jobSeekerProfiles,
   screeningResults,
+  screeningJobs,
+  jobInvitations,
+  applicationEvents,
+  jobQuestions,
+  applicationAnswers,
+  resumes,
+  applicationSnapshots,
+  resumeParses,
+  profileWorkHistory,
+  profileEducation,
+  profileCertifications,
+  messageTemplates,
+  applicationMessages,
+  interviewSlots,
+  interviews,
+  scorecardCompetencies,
+  scorecards,
+  offerTemplates,
+  offers,
+  identityReveals,
   users
 } from './schema';
 
@@ -38,6 +107,12 @@ export const errorSchemas = {
   unauthorized: z.object({
     message: z.string(),
   }),
+  forbidden: z.object({
+    message: z.string(),
+  }),
+  conflict: z.object({
+    message: z.string(),
+  }),
   internal: z.object({
     message: z.string(),
   }),
@@ -55,16 +130,241 @@ export const signupSchema = z.object({
   role: z.enum(["seeker", "employer"]),
 });
 
-export const resumeUploadResponseSchema = z.object({
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const sessionInfoSchema = z.object({
+  id: z.string(),
+  current: z.boolean(),
+  createdAt: z.string().nullable(),
+  lastSeenAt: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  ip: z.string().nullable(),
+});
+
+export const resumeDownloadUrlSchema = z.object({
   url: z.string(),
+  expiresAt: z.string(),
+});
+
+export const resumeUploadResponseSchema = z.object({
+  url: z.string(), // Signed download link, see api.resumes.downloadUrl
   text: z.string(),
+  resume: z.custom<typeof resumes.$inferSelect>(),
 });
 
+const resumeNameSchema = z.string().trim().min(1, "Resume name is required").max(100);
+
+// Query strings only carry text, so "false" has to be parsed rather than coerced
+const queryBoolean = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform(value => value === "true"),
+]);
+
+export const jobSortOptions = ["relevance", "date", "salary"] as const;
+
 export const jobFiltersSchema = z.object({
+  q: z.string().trim().min(1).max(200).optional(), // Full-text: title, skills, company name, description
   title: z.string().optional(),
   location: z.string().optional(),
-  remote: z.boolean().optional(),
-  minSalary: z.number().optional(),
+  remote: queryBoolean.optional(),
+  companyId: z.coerce.number().int().optional(),
+  minSalary: z.coerce.number().optional(),
+  salaryBand: z.enum(salaryBandKeys).optional(),
+  sort: z.enum(jobSortOptions).optional(), // Defaults to relevance with q, date otherwise
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const jobFacetsSchema = z.object({
+  remote: z.array(z.object({ value: z.boolean(), count: z.number() })),
+  locations: z.array(z.object({ value: z.string(), count: z.number() })),
+  companies: z.array(z.object({ id: z.number(), name: z.string(), count: z.number() })),
+  salaryBands: z.array(z.object({ key: z.string(), label: z.string(), count: z.number() })),
+});
+export type JobFacets = z.infer<typeof jobFacetsSchema>;
+
+export const jobSearchResultSchema = z.object({
+  items: z.array(z.custom<typeof jobs.$inferSelect & { company: typeof companies.$inferSelect }>()),
+  total: z.number(),
+  nextCursor: z.string().nullable(),
+  facets: jobFacetsSchema,
+});
+
+export const teamInvitationSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(employerRoles),
+});
+
+export const teamMemberUpdateSchema = z.object({
+  role: z.enum(employerRoles),
+});
+
+export const acceptTeamInvitationSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Template text that only uses the given {{placeholders}}
+function templateBodySchema(placeholders: readonly string[], maxLength: number) {
+  return z.string().trim().min(1, "Template body is required").max(maxLength)
+    .refine(
+      body => Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g)).every(([, name]) => placeholders.includes(name)),
+      `Templates can only use ${placeholders.map(name => `{{${name}}}`).join(", ")}`,
+    );
+}
+
+export const messageTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  body: templateBodySchema(messageTemplatePlaceholders, 5000),
+});
+
+export const offerTemplateSchema = z.object({
+  name: z.string().trim().min(1, "Template name is required").max(100),
+  body: templateBodySchema(offerLetterPlaceholders, 20000),
+});
+
+const calendarDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must look like 2026-01-31")
+  .refine(value => !Number.isNaN(Date.parse(value)), "Not a valid date");
+
+export const offerTermsSchema = z.object({
+  salary: z.number().int().positive(), // Yearly
+  currency: z.string().regex(/^[A-Z]{3}$/, "Use a three-letter currency code such as USD").default("USD"),
+  startDate: calendarDate,
+  equity: z.string().trim().min(1).max(500).nullish(),
+  expiresAt: z.coerce.date(),
+  templateId: z.number().int().nullish(), // Omit for the standard letter
+});
+
+export const offerResponseSchema = z.object({
+  response: z.enum(offerResponses),
+  message: z.string().trim().min(1).max(2000).optional(),
+  // What the seeker would like instead, when countering
+  counter: z.object({
+    salary: z.number().int().positive().nullish(),
+    startDate: calendarDate.nullish(),
+    equity: z.string().trim().min(1).max(500).nullish(),
+  }).optional(),
+}).refine(
+  input => input.response !== "counter" || input.message !== undefined
+    || (input.counter !== undefined && Object.values(input.counter).some(value => value != null)),
+  "Say what you'd like changed in your counter",
+);
+
+export const interviewSlotSchema = z.object({
+  interviewerId: z.number().int().optional(), // Defaults to the employer publishing the slot
+  startsAt: z.coerce.date(),
+  durationMinutes: z.number().int().min(15).max(8 * 60),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone"),
+  location: z.string().trim().min(1).max(500).optional(),
+  videoUrl: z.string().url().optional(),
+});
+
+export const scorecardCompetenciesInputSchema = z.object({
+  competencies: z.array(z.object({
+    id: z.number().int().optional(), // Existing competency to keep; omit to add a new one
+    name: z.string().trim().min(1, "Competency name is required").max(100),
+    description: z.string().trim().max(500).nullish(),
+  })).max(20),
+});
+
+export const scorecardInputSchema = z.object({
+  ratings: z.array(z.object({
+    competencyId: z.number().int(),
+    rating: z.number().int().min(SCORECARD_RATING_MIN).max(SCORECARD_RATING_MAX),
+    notes: z.string().trim().max(2000).nullish(),
+  })).default([]),
+  recommendation: z.enum(scorecardRecommendations).nullish(),
+  notes: z.string().trim().max(5000).nullish(),
+  submit: z.boolean().default(false), // Submitted scorecards can't be changed
+}).refine(input => !input.submit || input.recommendation, { message: "Choose a recommendation before submitting", path: ["recommendation"] });
+
+const scorecardSummarySchema = z.object({
+  submitted: z.number(),
+  averageRating: z.number().nullable(),
+  recommendation: z.enum(scorecardRecommendations).nullable(),
+  votes: z.record(z.enum(scorecardRecommendations), z.number()),
+});
+
+// Employer-editable job fields. Status, company and the active flag are managed by the server.
+const jobFieldsSchema = insertJobSchema
+  .omit({ companyId: true, status: true, active: true, closedAt: true })
+  .extend({
+    publishAt: z.coerce.date().nullish(),
+    expiresAt: z.coerce.date().nullish(),
+  });
+
+const expiresAfterPublish = (job: { publishAt?: Date | null; expiresAt?: Date | null }) =>
+  !job.publishAt || !job.expiresAt || job.expiresAt > job.publishAt;
+
+export const jobCreateSchema = jobFieldsSchema
+  .extend({ status: z.enum(["draft", "open"]).default("open") })
+  .refine(expiresAfterPublish, { message: "expiresAt must be after publishAt", path: ["expiresAt"] });
+
+export const jobUpdateSchema = jobFieldsSchema
+  .partial()
+  .refine(expiresAfterPublish, { message: "expiresAt must be after publishAt", path: ["expiresAt"] });
+
+export const jobReopenSchema = z.object({
+  expiresAt: z.coerce.date().nullish(),
+});
+
+const answerValueSchema = z.union([z.string().max(2000), z.number(), z.boolean()]);
+
+const knockoutReason = z.string().trim().max(500).optional();
+
+export const knockoutRuleSchema = z.discriminatedUnion("rejectIf", [
+  z.object({ rejectIf: z.literal("equals"), value: answerValueSchema, reason: knockoutReason }),
+  z.object({ rejectIf: z.literal("lessThan"), value: z.number(), reason: knockoutReason }),
+  z.object({ rejectIf: z.literal("greaterThan"), value: z.number(), reason: knockoutReason }),
+  z.object({ rejectIf: z.literal("oneOf"), values: z.array(z.string()).min(1), reason: knockoutReason }),
+]);
+
+export const jobQuestionInputSchema = z.object({
+  id: z.number().int().optional(), // Existing question to keep; omit to add a new one
+  prompt: z.string().trim().min(1).max(500),
+  type: z.enum(questionTypes),
+  options: z.array(z.string().trim().min(1).max(200)).max(20).optional(),
+  required: z.boolean().default(true),
+  knockout: knockoutRuleSchema.nullish(),
+}).superRefine((question, ctx) => {
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  const options = question.options ?? [];
+  if (question.type === "choice" && options.length < 2) issue("Multiple choice questions need at least two options");
+  if (question.type !== "choice" && options.length > 0) issue("Only multiple choice questions have options");
+
+  // Each question type only supports knockouts that make sense for its answers
+  const rule = question.knockout;
+  if (!rule) return;
+  const allowed =
+    question.type === "yes_no" ? rule.rejectIf === "equals" && typeof rule.value === "boolean"
+    : question.type === "number" ? rule.rejectIf !== "oneOf" && typeof rule.value === "number"
+    : question.type === "choice" ? (rule.rejectIf === "equals" && typeof rule.value === "string" && options.includes(rule.value))
+      || (rule.rejectIf === "oneOf" && rule.values.every(v => options.includes(v)))
+    : false;
+  if (!allowed) issue(`Knockout rule doesn't fit ${question.type} question "${question.prompt}"`);
+});
+
+export const jobQuestionsInputSchema = z.object({
+  questions: z.array(jobQuestionInputSchema).max(25),
+});
+
+export const screeningQueueSchema = z.object({
+  queued: z.number(),
+  processing: z.number(),
+  dead: z.number(),
+  failed: z.array(z.custom<typeof screeningJobs.$inferSelect & { job: typeof jobs.$inferSelect }>()),
 });
 
 // === API CONTRACT ===
@@ -75,7 +375,7 @@ export const api = {
       path: '/api/auth/login',
       input: loginSchema,
       responses: {
-        200: z.custom<typeof users.$inferSelect>(),
+        200: z.custom<PublicUser>(),
         401: errorSchemas.unauthorized,
       }
     },
@@ -84,7 +384,7 @@ export const api = {
       path: '/api/auth/signup',
       input: signupSchema,
       responses: {
-        201: z.custom<typeof users.$inferSelect>(),
+        201: z.custom<PublicUser>(),
         400: errorSchemas.validation,
       }
     },
@@ -99,24 +399,85 @@ export const api = {
       method: 'GET' as const,
       path: '/api/auth/me',
       responses: {
-        200: z.custom<typeof users.$inferSelect>(),
+        200: z.custom<PublicUser>(),
+        401: errorSchemas.unauthorized,
+      }
+    },
+    sessions: {
+      method: 'GET' as const,
+      path: '/api/auth/sessions',
+      responses: {
+        200: z.array(sessionInfoSchema),
         401: errorSchemas.unauthorized,
       }
+    },
+    revokeSession: {
+      method: 'DELETE' as const,
+      path: '/api/auth/sessions/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      }
+    },
+    logoutAll: {
+      method: 'POST' as const,
+      path: '/api/auth/logout-all',
+      responses: {
+        200: z.object({ message: z.string() }),
+        401: errorSchemas.unauthorized,
+      }
+    },
+    requestVerification: {
+      method: 'POST' as const,
+      path: '/api/auth/verify-email/request',
+      responses: {
+        200: z.object({ message: z.string() }),
+        401: errorSchemas.unauthorized,
+      }
+    },
+    verifyEmail: {
+      method: 'POST' as const,
+      path: '/api/auth/verify-email',
+      input: verifyEmailSchema,
+      responses: {
+        200: z.custom<PublicUser>(),
+        400: errorSchemas.validation,
+      }
+    },
+    requestPasswordReset: {
+      method: 'POST' as const,
+      path: '/api/auth/password-reset/request',
+      input: passwordResetRequestSchema,
+      responses: {
+        // Same answer whether or not the email exists
+        200: z.object({ message: z.string() }),
+      }
+    },
+    resetPassword: {
+      method: 'POST' as const,
+      path: '/api/auth/password-reset',
+      input: passwordResetSchema,
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+      }
     }
   },
   jobs: {
     list: {
       method: 'GET' as const,
       path: '/api/jobs',
-      input: jobFiltersSchema.optional(),
+      input: jobFiltersSchema,
       responses: {
-        200: z.array(z.custom<typeof jobs.$inferSelect & { company: typeof companies.$inferSelect }>()),
+        200: jobSearchResultSchema,
+        400: errorSchemas.validation,
       },
     },
     create: {
       method: 'POST' as const,
       path: '/api/jobs',
-      input: insertJobSchema,
+      input: jobCreateSchema,
       responses: {
         201: z.custom<typeof jobs.$inferSelect>(),
         401: errorSchemas.unauthorized,
@@ -130,6 +491,75 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    listForCompany: {
+      method: 'GET' as const,
+      path: '/api/employer/jobs', // Every status, for the employer dashboard
+      responses: {
+        200: z.array(z.custom<typeof jobs.$inferSelect>()),
+        403: errorSchemas.forbidden,
+      },
+    },
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/jobs/:id',
+      input: jobUpdateSchema,
+      responses: {
+        200: z.custom<typeof jobs.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    publish: {
+      method: 'POST' as const,
+      path: '/api/jobs/:id/publish',
+      responses: {
+        200: z.custom<typeof jobs.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    close: {
+      method: 'POST' as const,
+      path: '/api/jobs/:id/close',
+      responses: {
+        200: z.custom<typeof jobs.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    reopen: {
+      method: 'POST' as const,
+      path: '/api/jobs/:id/reopen',
+      input: jobReopenSchema,
+      responses: {
+        200: z.custom<typeof jobs.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
+    questions: {
+      method: 'GET' as const,
+      path: '/api/jobs/:id/questions', // knockout is only included for the hiring team
+      responses: {
+        200: z.array(z.custom<typeof jobQuestions.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    setQuestions: {
+      method: 'PUT' as const,
+      path: '/api/jobs/:id/questions',
+      input: jobQuestionsInputSchema,
+      responses: {
+        200: z.array(z.custom<typeof jobQuestions.$inferSelect>()),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      },
+    },
   },
   applications: {
     apply: {
@@ -138,6 +568,11 @@ export const api = {
       input: z.object({
         jobId: z.number(),
         note: z.string().optional(),
+        answers: z.array(z.object({
+          questionId: z.number(),
+          value: answerValueSchema,
+        })).default([]),
+        resumeId: z.number().int().optional(), // Defaults to the seeker's default resume
       }),
       responses: {
         201: z.custom<typeof applications.$inferSelect>(),
@@ -148,25 +583,29 @@ export const api = {
       method: 'GET' as const,
       path: '/api/applications', // For seeker
       responses: {
-        200: z.array(z.custom<typeof applications.$inferSelect & { job: typeof jobs.$inferSelect; company: typeof companies.$inferSelect; screening?: typeof screeningResults.$inferSelect }>()),
+        200: z.array(z.custom<typeof applications.$inferSelect & { job: typeof jobs.$inferSelect; company: typeof companies.$inferSelect; screening?: typeof screeningResults.$inferSelect; events: (typeof applicationEvents.$inferSelect)[]; answers: (typeof applicationAnswers.$inferSelect & { question: Omit<typeof jobQuestions.$inferSelect, 'knockout'> })[]; snapshot: typeof applicationSnapshots.$inferSelect | null }>()),
       }
     },
     listForJob: {
       method: 'GET' as const,
       path: '/api/employer/jobs/:id/applications',
       responses: {
-        200: z.array(z.custom<typeof applications.$inferSelect & { seeker: typeof users.$inferSelect; profile: typeof jobSeekerProfiles.$inferSelect; screening?: typeof screeningResults.$inferSelect }>()),
-        403: errorSchemas.unauthorized,
+        200: z.array(z.custom<typeof applications.$inferSelect & { seeker: PublicUser; profile: typeof jobSeekerProfiles.$inferSelect; screening?: typeof screeningResults.$inferSelect; events: (typeof applicationEvents.$inferSelect)[]; answers: (typeof applicationAnswers.$inferSelect & { question: typeof jobQuestions.$inferSelect })[]; snapshot: typeof applicationSnapshots.$inferSelect | null }>()),
+        403: errorSchemas.forbidden,
       }
     },
     updateStatus: {
       method: 'PATCH' as const,
       path: '/api/applications/:id/status',
       input: z.object({
-        status: z.enum(["applied", "screened", "shortlisted", "interview", "offer", "hired", "rejected"]),
+        status: z.enum(applicationStatuses),
+        reason: z.string().max(1000).optional(),
       }),
       responses: {
         200: z.custom<typeof applications.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
       }
     }
   },
@@ -187,12 +626,549 @@ export const api = {
         200: z.custom<typeof jobSeekerProfiles.$inferSelect>(),
       }
     },
+    invitations: {
+      method: 'GET' as const,
+      path: '/api/seeker/invitations',
+      responses: {
+        200: z.array(z.custom<typeof jobInvitations.$inferSelect & { job: typeof jobs.$inferSelect; company: typeof companies.$inferSelect }>()),
+      }
+    },
+    declineInvitation: {
+      method: 'POST' as const,
+      path: '/api/seeker/invitations/:id/decline',
+      responses: {
+        200: z.custom<typeof jobInvitations.$inferSelect>(),
+        404: errorSchemas.notFound,
+      }
+    },
+    recommendations: {
+      method: 'GET' as const,
+      path: '/api/seeker/recommendations',
+      input: z.object({
+        limit: z.coerce.number().int().min(1).max(50).default(10),
+      }),
+      responses: {
+        200: z.array(z.custom<Omit<typeof jobs.$inferSelect, 'embedding'> & { company: typeof companies.$inferSelect; similarity: number }>()),
+        404: errorSchemas.notFound,
+      }
+    },
     uploadResume: {
       method: 'POST' as const,
       path: '/api/resume/upload',
-      // input is FormData
+      // input is FormData: `file` plus these fields
+      input: z.object({
+        name: resumeNameSchema.optional(), // Defaults to the file name
+        makeDefault: queryBoolean.optional(), // The first upload is always the default
+      }),
       responses: {
         200: resumeUploadResponseSchema,
+        400: errorSchemas.validation,
+      }
+    },
+    resumes: {
+      method: 'GET' as const,
+      path: '/api/seeker/resumes',
+      responses: {
+        200: z.array(z.custom<typeof resumes.$inferSelect & { downloadUrl: string }>()),
+      }
+    },
+    updateResume: {
+      method: 'PATCH' as const,
+      path: '/api/seeker/resumes/:id',
+      input: z.object({
+        name: resumeNameSchema.optional(),
+        isDefault: z.literal(true).optional(),
+      }),
+      responses: {
+        200: z.custom<typeof resumes.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      }
+    },
+    deleteResume: {
+      method: 'DELETE' as const,
+      path: '/api/seeker/resumes/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        404: errorSchemas.notFound,
+      }
+    },
+    parsedResume: {
+      method: 'GET' as const,
+      path: '/api/seeker/resumes/:id/parsed',
+      responses: {
+        200: z.custom<typeof resumeParses.$inferSelect & {
+          workHistory: (typeof profileWorkHistory.$inferSelect)[];
+          education: (typeof profileEducation.$inferSelect)[];
+          certifications: (typeof profileCertifications.$inferSelect)[];
+          // What merging would add or change on the profile
+          suggestions: { skills: string[]; experienceYears: number | null };
+        }>(),
+        404: errorSchemas.notFound,
+      }
+    },
+    reparseResume: {
+      method: 'POST' as const,
+      path: '/api/seeker/resumes/:id/parse',
+      responses: {
+        202: z.custom<typeof resumeParses.$inferSelect>(),
+        404: errorSchemas.notFound,
+      }
+    },
+    mergeParsedResume: {
+      method: 'POST' as const,
+      path: '/api/seeker/resumes/:id/parsed/merge',
+      input: z.object({
+        skills: z.array(z.string()).optional(), // Parsed skills to add; defaults to all suggested ones
+        experienceYears: z.boolean().default(true), // Take the parsed experienceYears
+      }),
+      responses: {
+        200: z.custom<typeof jobSeekerProfiles.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      }
+    }
+  },
+  resumes: {
+    // For the seeker who owns the resume, or an employer the seeker applied to
+    downloadUrl: {
+      method: 'GET' as const,
+      path: '/api/resumes/:id/download-url',
+      responses: {
+        200: resumeDownloadUrlSchema,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Responds with the file itself. Only works for the user the link was signed for.
+    download: {
+      method: 'GET' as const,
+      path: '/api/resumes/:id/file',
+      input: z.object({
+        expires: z.coerce.number().int(),
+        signature: z.string(),
+      }),
+      responses: {
+        401: errorSchemas.unauthorized,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    }
+  },
+  messages: {
+    // Seeker who applied, or the employer's team
+    thread: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/messages',
+      responses: {
+        200: z.array(z.custom<typeof applicationMessages.$inferSelect>()),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    send: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/messages',
+      // With a template, body replaces the template's text (e.g. after editing it)
+      input: z.object({
+        body: z.string().trim().min(1, "Message is empty").max(5000).optional(),
+        templateId: z.number().int().optional(), // Employers only
+      }).refine(input => input.body !== undefined || input.templateId !== undefined, "Write a message or choose a template"),
+      responses: {
+        201: z.custom<typeof applicationMessages.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Sets the read receipt on the other side's messages
+    markRead: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/messages/read',
+      responses: {
+        200: z.object({ marked: z.number() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    unread: {
+      method: 'GET' as const,
+      path: '/api/messages/unread',
+      responses: {
+        200: z.object({
+          total: z.number(),
+          applications: z.array(z.object({ applicationId: z.number(), count: z.number() })),
+        }),
+        401: errorSchemas.unauthorized,
+      }
+    },
+    templates: {
+      method: 'GET' as const,
+      path: '/api/employer/message-templates',
+      responses: {
+        200: z.array(z.custom<typeof messageTemplates.$inferSelect>()),
+        403: errorSchemas.forbidden,
+      }
+    },
+    createTemplate: {
+      method: 'POST' as const,
+      path: '/api/employer/message-templates',
+      input: messageTemplateSchema,
+      responses: {
+        201: z.custom<typeof messageTemplates.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      }
+    },
+    updateTemplate: {
+      method: 'PATCH' as const,
+      path: '/api/employer/message-templates/:id',
+      input: messageTemplateSchema.partial(),
+      responses: {
+        200: z.custom<typeof messageTemplates.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    deleteTemplate: {
+      method: 'DELETE' as const,
+      path: '/api/employer/message-templates/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    }
+  },
+  interviews: {
+    slots: {
+      method: 'GET' as const,
+      path: '/api/employer/jobs/:id/interview-slots',
+      responses: {
+        200: z.array(z.custom<typeof interviewSlots.$inferSelect>()),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    createSlots: {
+      method: 'POST' as const,
+      path: '/api/employer/jobs/:id/interview-slots',
+      input: z.object({
+        slots: z.array(interviewSlotSchema).min(1, "Add at least one slot").max(50),
+      }),
+      responses: {
+        201: z.array(z.custom<typeof interviewSlots.$inferSelect>()),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Only slots that were never booked can be removed
+    deleteSlot: {
+      method: 'DELETE' as const,
+      path: '/api/employer/jobs/:id/interview-slots/:slotId',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    // Open future slots on the application's job
+    availableSlots: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/interview-slots',
+      responses: {
+        200: z.array(z.custom<typeof interviewSlots.$inferSelect>()),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // The scheduled interview, or null. The kit is only included for team
+    // members who can see screening results.
+    get: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/interview',
+      responses: {
+        200: z.custom<typeof interviews.$inferSelect>().nullable(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    book: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/interview',
+      input: z.object({
+        slotId: z.number().int(),
+      }),
+      responses: {
+        201: z.custom<typeof interviews.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    reschedule: {
+      method: 'PATCH' as const,
+      path: '/api/applications/:id/interview',
+      input: z.object({
+        slotId: z.number().int(),
+      }),
+      responses: {
+        200: z.custom<typeof interviews.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    cancel: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/interview/cancel',
+      input: z.object({
+        reason: z.string().trim().min(1).max(1000).optional(),
+      }),
+      responses: {
+        200: z.custom<typeof interviews.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Responds with a text/calendar file for the current user's side
+    invite: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/interview/invite.ics',
+      responses: {
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Screening questions, summary and score for the interviewer
+    kit: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/interview/kit',
+      responses: {
+        200: z.object({
+          questions: z.array(z.string()),
+          summary: z.string().nullable(),
+          score: z.number().nullable(),
+        }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    }
+  },
+  offers: {
+    templates: {
+      method: 'GET' as const,
+      path: '/api/employer/offer-templates',
+      responses: {
+        200: z.array(z.custom<typeof offerTemplates.$inferSelect>()),
+        403: errorSchemas.forbidden,
+      }
+    },
+    createTemplate: {
+      method: 'POST' as const,
+      path: '/api/employer/offer-templates',
+      input: offerTemplateSchema,
+      responses: {
+        201: z.custom<typeof offerTemplates.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      }
+    },
+    updateTemplate: {
+      method: 'PATCH' as const,
+      path: '/api/employer/offer-templates/:id',
+      input: offerTemplateSchema.partial(),
+      responses: {
+        200: z.custom<typeof offerTemplates.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    deleteTemplate: {
+      method: 'DELETE' as const,
+      path: '/api/employer/offer-templates/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Every version, newest first. Seekers only see the ones sent to them.
+    list: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/offers',
+      responses: {
+        200: z.array(z.custom<typeof offers.$inferSelect>()),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Starts a new draft version
+    create: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/offers',
+      input: offerTermsSchema,
+      responses: {
+        201: z.custom<typeof offers.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    // Drafts only
+    update: {
+      method: 'PATCH' as const,
+      path: '/api/applications/:id/offers/:offerId',
+      input: offerTermsSchema.partial(),
+      responses: {
+        200: z.custom<typeof offers.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    submit: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/offers/:offerId/submit',
+      responses: {
+        200: z.custom<typeof offers.$inferSelect>(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    // Owners only. Not approving sends the offer back to draft with the note.
+    approval: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/offers/:offerId/approval',
+      input: z.object({
+        approve: z.boolean(),
+        note: z.string().trim().min(1).max(1000).optional(),
+      }),
+      responses: {
+        200: z.custom<typeof offers.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    send: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/offers/:offerId/send',
+      responses: {
+        200: z.custom<typeof offers.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    withdraw: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/offers/:offerId/withdraw',
+      responses: {
+        200: z.custom<typeof offers.$inferSelect>(),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    // Seekers only. Accepting moves the application to hired.
+    respond: {
+      method: 'POST' as const,
+      path: '/api/applications/:id/offers/:offerId/respond',
+      input: offerResponseSchema,
+      responses: {
+        200: z.custom<typeof offers.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    },
+    // Responds with the letter as HTML, or a PDF with ?format=pdf. Unsent
+    // versions are previewed from their current terms.
+    letter: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/offers/:offerId/letter',
+      input: z.object({
+        format: z.enum(["html", "pdf"]).default("html"),
+      }),
+      responses: {
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    }
+  },
+  scorecards: {
+    competencies: {
+      method: 'GET' as const,
+      path: '/api/employer/jobs/:id/scorecard',
+      responses: {
+        200: z.array(z.custom<typeof scorecardCompetencies.$inferSelect>()),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    setCompetencies: {
+      method: 'PUT' as const,
+      path: '/api/employer/jobs/:id/scorecard',
+      input: scorecardCompetenciesInputSchema,
+      responses: {
+        200: z.array(z.custom<typeof scorecardCompetencies.$inferSelect>()),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // Reviewers only see other people's scorecards, and the summary, once
+    // they've submitted their own. summary is null until then.
+    list: {
+      method: 'GET' as const,
+      path: '/api/applications/:id/scorecards',
+      responses: {
+        200: z.object({
+          scorecards: z.array(z.custom<typeof scorecards.$inferSelect>()),
+          summary: scorecardSummarySchema.nullable(),
+        }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    // The current user's scorecard for the application's scheduled interview
+    save: {
+      method: 'PUT' as const,
+      path: '/api/applications/:id/scorecard',
+      input: scorecardInputSchema,
+      responses: {
+        200: z.custom<typeof scorecards.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
+    }
+  },
+  blindReview: {
+    // Who on the team has been shown which candidates, newest first
+    reveals: {
+      method: 'GET' as const,
+      path: '/api/employer/jobs/:id/identity-reveals',
+      responses: {
+        200: z.array(z.custom<typeof identityReveals.$inferSelect & { viewer: PublicUser }>()),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
       }
     }
   },
@@ -203,13 +1179,114 @@ export const api = {
       input: insertCompanySchema,
       responses: {
         201: z.custom<typeof companies.$inferSelect>(),
+        409: errorSchemas.conflict,
       }
     },
     getCompany: {
       method: 'GET' as const,
       path: '/api/employer/company',
+      responses: {
+        200: z.custom<typeof companies.$inferSelect & { role: typeof employerProfiles.$inferSelect['role'] }>(),
+      }
+    },
+    updateCompany: {
+      method: 'PATCH' as const,
+      path: '/api/employer/company',
+      input: insertCompanySchema.partial().refine(input => Object.keys(input).length > 0, "Change at least one field"),
       responses: {
         200: z.custom<typeof companies.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+      }
+    },
+    team: {
+      method: 'GET' as const,
+      path: '/api/employer/team',
+      responses: {
+        200: z.object({
+          members: z.array(z.custom<typeof employerProfiles.$inferSelect & { user: PublicUser }>()),
+          invitations: z.array(z.custom<Omit<typeof companyInvitations.$inferSelect, 'tokenHash'>>()),
+        }),
+        403: errorSchemas.forbidden,
+      }
+    },
+    inviteMember: {
+      method: 'POST' as const,
+      path: '/api/employer/team/invitations',
+      input: teamInvitationSchema,
+      responses: {
+        201: z.custom<Omit<typeof companyInvitations.$inferSelect, 'tokenHash'>>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        409: errorSchemas.conflict,
+      }
+    },
+    revokeInvitation: {
+      method: 'DELETE' as const,
+      path: '/api/employer/team/invitations/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    updateMember: {
+      method: 'PATCH' as const,
+      path: '/api/employer/team/members/:id',
+      input: teamMemberUpdateSchema,
+      responses: {
+        200: z.custom<typeof employerProfiles.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    removeMember: {
+      method: 'DELETE' as const,
+      path: '/api/employer/team/members/:id',
+      responses: {
+        200: z.object({ message: z.string() }),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    acceptInvitation: {
+      method: 'POST' as const,
+      path: '/api/employer/team/join',
+      input: acceptTeamInvitationSchema,
+      responses: {
+        201: z.custom<typeof employerProfiles.$inferSelect & { company: typeof companies.$inferSelect }>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        409: errorSchemas.conflict,
+      }
+    },
+    sourceCandidates: {
+      method: 'GET' as const,
+      path: '/api/employer/jobs/:id/candidates',
+      input: z.object({
+        q: z.string().optional(),
+        limit: z.coerce.number().int().min(1).max(100).default(25),
+      }),
+      responses: {
+        200: z.array(z.custom<Omit<typeof jobSeekerProfiles.$inferSelect, 'resumeText' | 'resumeUrl' | 'embedding'> & { matchScore: number; rulesScore: number; similarity: number | null; invitationStatus: string | null }>()),
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
+      }
+    },
+    invite: {
+      method: 'POST' as const,
+      path: '/api/employer/jobs/:id/invitations',
+      input: z.object({
+        seekerId: z.number(),
+        message: z.string().max(2000).optional(),
+      }),
+      responses: {
+        201: z.custom<typeof jobInvitations.$inferSelect>(),
+        400: errorSchemas.validation,
+        403: errorSchemas.forbidden,
+        404: errorSchemas.notFound,
       }
     }
   },
@@ -221,6 +1298,23 @@ export const api = {
       responses: {
         200: z.object({ message: z.string(), status: z.string() }),
       }
+    },
+    queue: {
+      method: 'GET' as const,
+      path: '/api/employer/screening-queue',
+      responses: {
+        200: screeningQueueSchema,
+        401: errorSchemas.unauthorized,
+      }
+    },
+    retry: {
+      method: 'POST' as const,
+      path: '/api/employer/screening-queue/:id/retry',
+      responses: {
+        200: z.custom<typeof screeningJobs.$inferSelect>(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      }
     }
   }
 };
@@ -1,9 +1,166 @@
 
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, varchar, json, date, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
+import { relations, sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// === APPLICATION WORKFLOW ===
+
+export const applicationStatuses = ["applied", "screened", "shortlisted", "interview", "offer", "hired", "rejected"] as const;
+export type ApplicationStatus = typeof applicationStatuses[number];
+
+// Allowed moves for an application. "hired" and "rejected" are terminal.
+export const applicationStatusTransitions: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  applied: ["screened", "shortlisted", "interview", "rejected"],
+  screened: ["shortlisted", "interview", "rejected"],
+  shortlisted: ["interview", "rejected"],
+  interview: ["offer", "rejected"],
+  offer: ["hired", "rejected"],
+  hired: [],
+  rejected: [],
+};
+
+export function canTransitionApplication(from: ApplicationStatus, to: ApplicationStatus): boolean {
+  return applicationStatusTransitions[from].includes(to);
+}
+
+// === JOB LIFECYCLE ===
+
+// draft: not visible yet; open: listed between publishAt and expiresAt; closed: no longer hiring
+export const jobStatuses = ["draft", "open", "closed"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+// Whether a job should be listed and accept applications right now.
+// `jobs.active` caches this and is kept in sync by the lifecycle sweeper.
+export function isJobLive(
+  job: { status: JobStatus; publishAt: Date | null; expiresAt: Date | null },
+  now = new Date(),
+): boolean {
+  if (job.status !== "open") return false;
+  if (job.publishAt && job.publishAt > now) return false;
+  if (job.expiresAt && job.expiresAt <= now) return false;
+  return true;
+}
+
+// Salary filter and facet buckets, matched on the top of a job's range
+export const salaryBands = [
+  { key: "under_50k", label: "Under $50k", min: null, max: 50000 },
+  { key: "50k_100k", label: "$50k–$100k", min: 50000, max: 100000 },
+  { key: "100k_150k", label: "$100k–$150k", min: 100000, max: 150000 },
+  { key: "150k_200k", label: "$150k–$200k", min: 150000, max: 200000 },
+  { key: "200k_plus", label: "$200k+", min: 200000, max: null },
+] as const;
+export type SalaryBand = typeof salaryBands[number];
+export type SalaryBandKey = SalaryBand["key"];
+export const salaryBandKeys = salaryBands.map(band => band.key) as [SalaryBandKey, ...SalaryBandKey[]];
+
+// === SCREENING QUESTIONS ===
+
+export const questionTypes = ["text", "yes_no", "number", "choice"] as const;
+export type QuestionType = typeof questionTypes[number];
+
+// === EMPLOYER TEAM ROLES ===
+
+export const employerRoles = ["owner", "recruiter", "hiring_manager", "read_only"] as const;
+export type EmployerRole = typeof employerRoles[number];
+
+// What each team role may do within its company
+export const employerPermissions = {
+  manageTeam: ["owner"],
+  manageCompany: ["owner"],
+  postJobs: ["owner", "recruiter"],
+  sourceCandidates: ["owner", "recruiter"],
+  changeStatus: ["owner", "recruiter", "hiring_manager"],
+  viewScreening: ["owner", "recruiter", "hiring_manager"],
+  messageCandidates: ["owner", "recruiter", "hiring_manager"],
+  scoreCandidates: ["owner", "recruiter", "hiring_manager"],
+  makeOffers: ["owner", "recruiter"],
+  approveOffers: ["owner"],
+} satisfies Record<string, readonly EmployerRole[]>;
+export type EmployerPermission = keyof typeof employerPermissions;
+
+export function hasEmployerPermission(role: EmployerRole, permission: EmployerPermission): boolean {
+  return (employerPermissions[permission] as readonly EmployerRole[]).includes(role);
+}
+
+// === RESUMES ===
+
+// Formats we can extract text from, detected from the file's content
+export const resumeFileTypes = ["pdf", "docx", "rtf", "txt"] as const;
+export type ResumeFileType = typeof resumeFileTypes[number];
+
+// === MESSAGING ===
+
+// Which side of an application wrote a message. Everyone on the employer's
+// team shares one side of the thread.
+export const messageSenderRoles = ["seeker", "employer"] as const;
+export type MessageSenderRole = typeof messageSenderRoles[number];
+
+// Filled in from the application when a template is used
+export const messageTemplatePlaceholders = ["candidateName", "jobTitle", "companyName"] as const;
+export type MessageTemplatePlaceholder = typeof messageTemplatePlaceholders[number];
+
+// === INTERVIEWS ===
+
+// Cancelled interviews are kept so calendar clients can be told about them
+export const interviewStatuses = ["scheduled", "cancelled"] as const;
+export type InterviewStatus = typeof interviewStatuses[number];
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// === SCORECARDS ===
+
+// A reviewer's overall call on a candidate, weakest first
+export const scorecardRecommendations = ["strong_no", "no", "yes", "strong_yes"] as const;
+export type ScorecardRecommendation = typeof scorecardRecommendations[number];
+
+export const SCORECARD_RATING_MIN = 1;
+export const SCORECARD_RATING_MAX = 5;
+
+// === OFFERS ===
+
+// draft -> pending_approval -> approved -> sent, then the seeker's answer. An
+// owner who doesn't approve sends it back to draft. A revised offer is a new
+// version, and sending it supersedes the one the seeker had.
+export const offerStatuses = [
+  "draft", "pending_approval", "approved", "sent", "accepted", "declined", "countered", "withdrawn", "superseded", "expired",
+] as const;
+export type OfferStatus = typeof offerStatuses[number];
+
+export const offerResponses = ["accept", "decline", "counter"] as const;
+export type OfferResponse = typeof offerResponses[number];
+
+// Filled in from the offer and application when a letter is rendered
+export const offerLetterPlaceholders = ["candidateName", "jobTitle", "companyName", "salary", "startDate", "equity", "expiresAt"] as const;
+export type OfferLetterPlaceholder = typeof offerLetterPlaceholders[number];
+
+// === BLIND REVIEW ===
+
+// Stages at which a blind job can reveal who the candidate is. Interviews and
+// offers need to know, so the latest choice is the interview stage.
+export const blindRevealStages = ["screened", "shortlisted", "interview"] as const;
+export type BlindRevealStage = typeof blindRevealStages[number];
+
+// Whether an application has reached the stage, at any point. Rejecting an
+// application doesn't hide an identity the team has already seen.
+export function hasReachedStage(stage: ApplicationStatus, current: ApplicationStatus, history: ApplicationStatus[] = []): boolean {
+  const rank = (status: ApplicationStatus) => status === "rejected" ? -1 : applicationStatuses.indexOf(status);
+  return [current, ...history].some(status => rank(status) >= rank(stage));
+}
+
+// === PII REDACTION ===
+
+// What is taken out of candidate data before it's sent to an LLM
+export const piiKinds = ["name", "email", "phone", "link", "address", "dateOfBirth", "gender", "age"] as const;
+export type PiiKind = typeof piiKinds[number];
+
 // === TABLE DEFINITIONS ===
 
 export const users = pgTable("users", {
@@ -11,6 +168,26 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   role: text("role", { enum: ["seeker", "employer"] }).notNull().default("seeker"),
+  emailVerifiedAt: timestamp("email_verified_at"), // Null until the address is confirmed
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// express-session store (connect-pg-simple). Declared here so db:push keeps it.
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
+// Single-use tokens for password reset and email verification. Only a hash of
+// the token is stored; the raw value exists only in the emailed link.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  purpose: text("purpose", { enum: ["password_reset", "email_verification"] }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -21,6 +198,7 @@ export const companies = pgTable("companies", {
   industry: text("industry"),
   size: text("size"), // e.g., "1-10", "11-50"
   website: text("website"),
+  redactPii: boolean("redact_pii").notNull().default(true), // Strip personal details from candidate data sent to the LLM
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -28,6 +206,21 @@ export const employerProfiles = pgTable("employer_profiles", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   companyId: integer("company_id").notNull().references(() => companies.id),
+  role: text("role", { enum: employerRoles }).notNull().default("owner"),
+});
+
+// Pending invitation for someone to join a company's hiring team
+export const companyInvitations = pgTable("company_invitations", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  email: text("email").notNull(),
+  role: text("role", { enum: employerRoles }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const jobSeekerProfiles = pgTable("job_seeker_profiles", {
@@ -44,10 +237,77 @@ export const jobSeekerProfiles = pgTable("job_seeker_profiles", {
   resumeUrl: text("resume_url"),
   resumeText: text("resume_text"), // Extracted text
   embedding: jsonb("embedding"), // Store as JSON array of numbers for compatibility
+  discoverable: boolean("discoverable").notNull().default(false), // Opt-in to employer sourcing
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Named resume versions. The profile's resumeUrl/resumeText mirror whichever
+// version is the default; deleted versions are kept for applications that used them.
+export const resumes = pgTable("resumes", {
+  id: serial("id").primaryKey(),
+  seekerId: integer("seeker_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  fileUrl: text("file_url").notNull(), // Blob store key, see server/resumes.ts
+  fileType: text("file_type", { enum: resumeFileTypes }).notNull().default("pdf"),
+  text: text("text").notNull(), // Extracted text
+  isDefault: boolean("is_default").notNull().default(false),
+  deletedAt: timestamp("deleted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_resumes_seeker").on(table.seekerId)]);
+
+// Structured data extracted from one resume version. The seeker reviews it and
+// chooses what to merge into the profile's skills and experienceYears.
+export const resumeParses = pgTable("resume_parses", {
+  id: serial("id").primaryKey(),
+  resumeId: integer("resume_id").notNull().unique().references(() => resumes.id),
+  seekerId: integer("seeker_id").notNull().references(() => users.id),
+  status: text("status", { enum: ["pending", "complete", "failed"] }).notNull().default("pending"),
+  method: text("method", { enum: ["rules", "rules+llm"] }), // Set once complete
+  contact: jsonb("contact"), // ResumeContact
+  skills: text("skills").array(), // Normalized
+  experienceYears: integer("experience_years"), // Derived from work history, overlaps counted once
+  error: text("error"),
+  mergedAt: timestamp("merged_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Dates are "YYYY" or "YYYY-MM", as precise as the resume was
+export const profileWorkHistory = pgTable("profile_work_history", {
+  id: serial("id").primaryKey(),
+  seekerId: integer("seeker_id").notNull().references(() => users.id),
+  resumeId: integer("resume_id").notNull().references(() => resumes.id),
+  position: integer("position").notNull().default(0),
+  company: text("company"),
+  title: text("title"),
+  startDate: text("start_date"),
+  endDate: text("end_date"), // Null with current = true for "Present"
+  current: boolean("current").notNull().default(false),
+});
+
+export const profileEducation = pgTable("profile_education", {
+  id: serial("id").primaryKey(),
+  seekerId: integer("seeker_id").notNull().references(() => users.id),
+  resumeId: integer("resume_id").notNull().references(() => resumes.id),
+  position: integer("position").notNull().default(0),
+  institution: text("institution"),
+  degree: text("degree"),
+  fieldOfStudy: text("field_of_study"),
+  startYear: integer("start_year"),
+  endYear: integer("end_year"),
+});
+
+export const profileCertifications = pgTable("profile_certifications", {
+  id: serial("id").primaryKey(),
+  seekerId: integer("seeker_id").notNull().references(() => users.id),
+  resumeId: integer("resume_id").notNull().references(() => resumes.id),
+  position: integer("position").notNull().default(0),
+  name: text("name").notNull(),
+  issuer: text("issuer"),
+  year: integer("year"),
+});
+
 export const jobs = pgTable("jobs", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").notNull().references(() => companies.id),
@@ -59,16 +319,36 @@ export const jobs = pgTable("jobs", {
   salaryMax: integer("salary_max"),
   requiredSkills: text("required_skills").array(),
   minYears: integer("min_years").default(0),
+  status: text("status", { enum: jobStatuses }).notNull().default("open"),
   active: boolean("active").default(true),
+  publishAt: timestamp("publish_at"), // Null means as soon as it's open
+  expiresAt: timestamp("expires_at"),
+  closedAt: timestamp("closed_at"),
+  blindReview: boolean("blind_review").notNull().default(false), // Hide who applicants are until revealStage
+  revealStage: text("reveal_stage", { enum: blindRevealStages }).notNull().default("interview"),
   embedding: jsonb("embedding"), // Store as JSON array of numbers
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Full-text search document per job (title, skills, company name, description).
+// Kept out of `jobs` so the vector never ends up in API responses.
+export const jobSearchDocuments = pgTable("job_search_documents", {
+  jobId: integer("job_id").primaryKey().references(() => jobs.id),
+  document: tsvector("document").notNull(),
+}, (table) => [index("IDX_job_search_document").using("gin", table.document)]);
+
 export const applications = pgTable("applications", {
   id: serial("id").primaryKey(),
   jobId: integer("job_id").notNull().references(() => jobs.id),
   seekerId: integer("seeker_id").notNull().references(() => users.id),
-  status: text("status", { enum: ["applied", "screened", "shortlisted", "interview", "offer", "hired", "rejected"] }).default("applied"),
+  status: text("status", { enum: applicationStatuses }).default("applied"),
   note: text("note"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -80,13 +360,242 @@ export const screeningResults = pgTable("screening_results", {
   rulesScore: integer("rules_score"),
   semanticScore: integer("semantic_score"),
   finalScore: integer("final_score"),
-  reasons: jsonb("reasons"), // Array of strings or object
+  reasons: jsonb("reasons"), // ScoreReason[]
   aiSummary: text("ai_summary"),
   aiQuestions: jsonb("ai_questions"), // Array of strings
   aiStatus: text("ai_status", { enum: ["pending", "processing", "complete", "failed"] }).default("pending"),
+  provider: text("provider"), // LLM backend that produced the AI fields, e.g. "openai"
+  model: text("model"),
+  redactions: jsonb("redactions"), // RedactionCounts for what was sent to the model; null if redaction was off
+  stale: boolean("stale").notNull().default(false), // Job changed since this was scored
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit trail of every status change on an application
+export const applicationEvents = pgTable("application_events", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  actorId: integer("actor_id").references(() => users.id), // Null for system-initiated changes
+  fromStatus: text("from_status", { enum: applicationStatuses }), // Null when the application is created
+  toStatus: text("to_status", { enum: applicationStatuses }).notNull(),
+  reason: text("reason"),
+  internalReason: text("internal_reason"), // Shown to the company only, e.g. which knockout rule fired
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// What the seeker actually submitted: the chosen resume version and the profile
+// as it stood at apply time. Screening and review read this, not the live profile.
+export const applicationSnapshots = pgTable("application_snapshots", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().unique().references(() => applications.id),
+  resumeId: integer("resume_id").references(() => resumes.id), // Null if the seeker had no resume
+  resumeName: text("resume_name"),
+  resumeUrl: text("resume_url"),
+  resumeText: text("resume_text"),
+  profile: jsonb("profile"), // ProfileSnapshot; null if the seeker had no profile
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Audit log of blind-review reveals: the first time each team member was
+// shown who the candidate behind an application is
+export const identityReveals = pgTable("identity_reveals", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  viewerId: integer("viewer_id").notNull().references(() => users.id),
+  stage: text("stage", { enum: applicationStatuses }).notNull(), // Application status when it was revealed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [uniqueIndex("UQ_identity_reveals_application_viewer").on(table.applicationId, table.viewerId)]);
+
+// Reusable messages for a company's team, such as a rejection or an interview
+// invite. Archived rather than deleted so sent messages keep their template.
+export const messageTemplates = pgTable("message_templates", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  name: text("name").notNull(),
+  body: text("body").notNull(), // May use {{candidateName}}, {{jobTitle}} and {{companyName}}
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_message_templates_company").on(table.companyId)]);
+
+// The thread between the seeker and the employer's team on one application.
+// readAt is the read receipt: when the other side first opened the message.
+export const applicationMessages = pgTable("application_messages", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  senderRole: text("sender_role", { enum: messageSenderRoles }).notNull(),
+  body: text("body").notNull(),
+  templateId: integer("template_id").references(() => messageTemplates.id),
+  readAt: timestamp("read_at"),
+  readBy: integer("read_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("IDX_application_messages_application").on(table.applicationId)]);
+
+// Time an employer offers for interviews on a job. applicationId is set while
+// an application has it booked; cancelling or rescheduling frees it again.
+export const interviewSlots = pgTable("interview_slots", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => jobs.id),
+  interviewerId: integer("interviewer_id").notNull().references(() => users.id),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  timezone: text("timezone").notNull(), // IANA name, used to show local times
+  location: text("location"),
+  videoUrl: text("video_url"),
+  applicationId: integer("application_id").references(() => applications.id),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_interview_slots_job").on(table.jobId)]);
+
+// A booked interview. Time and place are copied from the slot. uid and
+// sequence identify the calendar event across reschedules and cancellation.
+export const interviews = pgTable("interviews", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  slotId: integer("slot_id").notNull().references(() => interviewSlots.id),
+  interviewerId: integer("interviewer_id").notNull().references(() => users.id),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  timezone: text("timezone").notNull(),
+  location: text("location"),
+  videoUrl: text("video_url"),
+  status: text("status", { enum: interviewStatuses }).notNull().default("scheduled"),
+  uid: text("uid").notNull().unique(),
+  sequence: integer("sequence").notNull().default(0),
+  kit: jsonb("kit"), // InterviewKit, for the interviewer only
+  cancelReason: text("cancel_reason"),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_interviews_application").on(table.applicationId),
+  // One scheduled interview per application, even when both sides book at once
+  uniqueIndex("UQ_interviews_scheduled").on(table.applicationId).where(sql`${table.status} = 'scheduled'`),
+]);
+
+// Offer letter wording a company reuses across offers
+export const offerTemplates = pgTable("offer_templates", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().references(() => companies.id),
+  name: text("name").notNull(),
+  body: text("body").notNull(), // May use the offerLetterPlaceholders
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_offer_templates_company").on(table.companyId)]);
+
+// One version of an offer on an application. The letter is rendered and kept
+// when the version is sent, so what the seeker received never changes.
+export const offers = pgTable("offers", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  version: integer("version").notNull(),
+  status: text("status", { enum: offerStatuses }).notNull().default("draft"),
+  salary: integer("salary").notNull(), // Yearly, in whole units of currency
+  currency: text("currency").notNull().default("USD"),
+  startDate: date("start_date", { mode: "string" }).notNull(),
+  equity: text("equity"),
+  expiresAt: timestamp("expires_at").notNull(),
+  templateId: integer("template_id").references(() => offerTemplates.id),
+  letter: text("letter"),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  approvedBy: integer("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  approvalNote: text("approval_note"), // Why an owner sent it back
+  sentAt: timestamp("sent_at"),
+  respondedAt: timestamp("responded_at"),
+  responseMessage: text("response_message"),
+  counter: jsonb("counter"), // OfferCounter, when the seeker countered
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_offers_application_version").on(table.applicationId, table.version)]);
+
+// Competency interviewers rate on a job's scorecard. Competencies are archived
+// rather than deleted so earlier scorecards keep their ratings.
+export const scorecardCompetencies = pgTable("scorecard_competencies", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => jobs.id),
+  position: integer("position").notNull().default(0),
+  name: text("name").notNull(),
+  description: text("description"),
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One reviewer's evaluation of an interview. Until submittedAt is set it's a
+// draft that only its reviewer can see; submitted scorecards can't change.
+export const scorecards = pgTable("scorecards", {
+  id: serial("id").primaryKey(),
+  interviewId: integer("interview_id").notNull().references(() => interviews.id),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  reviewerId: integer("reviewer_id").notNull().references(() => users.id),
+  ratings: jsonb("ratings").notNull().default([]), // ScorecardRating[]
+  recommendation: text("recommendation", { enum: scorecardRecommendations }), // Required to submit
+  notes: text("notes"),
+  submittedAt: timestamp("submitted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_scorecards_interview_reviewer").on(table.interviewId, table.reviewerId),
+  index("IDX_scorecards_application").on(table.applicationId),
+]);
+
+// Custom question an employer asks at apply time. Questions are archived rather
+// than deleted so answers on earlier applications keep their prompt.
+export const jobQuestions = pgTable("job_questions", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => jobs.id),
+  position: integer("position").notNull().default(0),
+  prompt: text("prompt").notNull(),
+  type: text("type", { enum: questionTypes }).notNull(),
+  options: text("options").array(), // Choices for "choice" questions
+  required: boolean("required").notNull().default(true),
+  knockout: jsonb("knockout"), // KnockoutRule; null means the answer never auto-rejects
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const applicationAnswers = pgTable("application_answers", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  questionId: integer("question_id").notNull().references(() => jobQuestions.id),
+  value: jsonb("value").notNull(), // AnswerValue
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Employer-initiated "invite to apply" for a sourced, non-applicant seeker
+export const jobInvitations = pgTable("job_invitations", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").notNull().references(() => jobs.id),
+  seekerId: integer("seeker_id").notNull().references(() => users.id),
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  message: text("message"),
+  status: text("status", { enum: ["pending", "applied", "declined"] }).notNull().default("pending"),
   createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
 });
 
+// Durable work queue for AI screening. Rows are claimed with
+// FOR UPDATE SKIP LOCKED so several workers can share the table.
+export const screeningJobs = pgTable("screening_jobs", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  status: text("status", { enum: ["queued", "processing", "complete", "dead"] }).notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Earliest time the job may be claimed
+  lockedAt: timestamp("locked_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // One live job per application, however many requests enqueue at once
+  uniqueIndex("UQ_screening_jobs_active").on(table.applicationId).where(sql`${table.status} in ('queued', 'processing')`),
+]);
+
 // === RELATIONS ===
 
 export const usersRelations = relations(users, ({ one, many }) => ({
@@ -99,11 +608,21 @@ export const usersRelations = relations(users, ({ one, many }) => ({
     references: [jobSeekerProfiles.userId],
   }),
   applications: many(applications), // As seeker
+  resumes: many(resumes),
 }));
 
 export const companiesRelations = relations(companies, ({ many }) => ({
   jobs: many(jobs),
   employers: many(employerProfiles),
+  invitations: many(companyInvitations),
+  messageTemplates: many(messageTemplates),
+}));
+
+export const companyInvitationsRelations = relations(companyInvitations, ({ one }) => ({
+  company: one(companies, {
+    fields: [companyInvitations.companyId],
+    references: [companies.id],
+  }),
 }));
 
 export const employerProfilesRelations = relations(employerProfiles, ({ one }) => ({
@@ -124,15 +643,78 @@ export const jobSeekerProfilesRelations = relations(jobSeekerProfiles, ({ one })
   }),
 }));
 
+export const resumesRelations = relations(resumes, ({ one, many }) => ({
+  seeker: one(users, {
+    fields: [resumes.seekerId],
+    references: [users.id],
+  }),
+  parse: one(resumeParses, {
+    fields: [resumes.id],
+    references: [resumeParses.resumeId],
+  }),
+  workHistory: many(profileWorkHistory),
+  education: many(profileEducation),
+  certifications: many(profileCertifications),
+}));
+
+export const resumeParsesRelations = relations(resumeParses, ({ one }) => ({
+  resume: one(resumes, {
+    fields: [resumeParses.resumeId],
+    references: [resumes.id],
+  }),
+}));
+
+export const profileWorkHistoryRelations = relations(profileWorkHistory, ({ one }) => ({
+  resume: one(resumes, {
+    fields: [profileWorkHistory.resumeId],
+    references: [resumes.id],
+  }),
+}));
+
+export const profileEducationRelations = relations(profileEducation, ({ one }) => ({
+  resume: one(resumes, {
+    fields: [profileEducation.resumeId],
+    references: [resumes.id],
+  }),
+}));
+
+export const profileCertificationsRelations = relations(profileCertifications, ({ one }) => ({
+  resume: one(resumes, {
+    fields: [profileCertifications.resumeId],
+    references: [resumes.id],
+  }),
+}));
+
 export const jobsRelations = relations(jobs, ({ one, many }) => ({
   company: one(companies, {
     fields: [jobs.companyId],
     references: [companies.id],
   }),
   applications: many(applications),
+  questions: many(jobQuestions),
+  interviewSlots: many(interviewSlots),
+  scorecardCompetencies: many(scorecardCompetencies),
 }));
 
-export const applicationsRelations = relations(applications, ({ one }) => ({
+export const jobQuestionsRelations = relations(jobQuestions, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobQuestions.jobId],
+    references: [jobs.id],
+  }),
+}));
+
+export const applicationAnswersRelations = relations(applicationAnswers, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationAnswers.applicationId],
+    references: [applications.id],
+  }),
+  question: one(jobQuestions, {
+    fields: [applicationAnswers.questionId],
+    references: [jobQuestions.id],
+  }),
+}));
+
+export const applicationsRelations = relations(applications, ({ one, many }) => ({
   job: one(jobs, {
     fields: [applications.jobId],
     references: [jobs.id],
@@ -145,6 +727,134 @@ export const applicationsRelations = relations(applications, ({ one }) => ({
     fields: [applications.id],
     references: [screeningResults.applicationId],
   }),
+  events: many(applicationEvents),
+  answers: many(applicationAnswers),
+  snapshot: one(applicationSnapshots, {
+    fields: [applications.id],
+    references: [applicationSnapshots.applicationId],
+  }),
+  messages: many(applicationMessages),
+  interviews: many(interviews),
+  scorecards: many(scorecards),
+  offers: many(offers),
+  identityReveals: many(identityReveals),
+}));
+
+export const interviewSlotsRelations = relations(interviewSlots, ({ one }) => ({
+  job: one(jobs, {
+    fields: [interviewSlots.jobId],
+    references: [jobs.id],
+  }),
+  interviewer: one(users, {
+    fields: [interviewSlots.interviewerId],
+    references: [users.id],
+  }),
+  application: one(applications, {
+    fields: [interviewSlots.applicationId],
+    references: [applications.id],
+  }),
+}));
+
+export const interviewsRelations = relations(interviews, ({ one, many }) => ({
+  application: one(applications, {
+    fields: [interviews.applicationId],
+    references: [applications.id],
+  }),
+  slot: one(interviewSlots, {
+    fields: [interviews.slotId],
+    references: [interviewSlots.id],
+  }),
+  interviewer: one(users, {
+    fields: [interviews.interviewerId],
+    references: [users.id],
+  }),
+  scorecards: many(scorecards),
+}));
+
+export const offerTemplatesRelations = relations(offerTemplates, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [offerTemplates.companyId],
+    references: [companies.id],
+  }),
+  offers: many(offers),
+}));
+
+export const offersRelations = relations(offers, ({ one }) => ({
+  application: one(applications, {
+    fields: [offers.applicationId],
+    references: [applications.id],
+  }),
+  template: one(offerTemplates, {
+    fields: [offers.templateId],
+    references: [offerTemplates.id],
+  }),
+}));
+
+export const scorecardCompetenciesRelations = relations(scorecardCompetencies, ({ one }) => ({
+  job: one(jobs, {
+    fields: [scorecardCompetencies.jobId],
+    references: [jobs.id],
+  }),
+}));
+
+export const scorecardsRelations = relations(scorecards, ({ one }) => ({
+  interview: one(interviews, {
+    fields: [scorecards.interviewId],
+    references: [interviews.id],
+  }),
+  application: one(applications, {
+    fields: [scorecards.applicationId],
+    references: [applications.id],
+  }),
+  reviewer: one(users, {
+    fields: [scorecards.reviewerId],
+    references: [users.id],
+  }),
+}));
+
+export const identityRevealsRelations = relations(identityReveals, ({ one }) => ({
+  application: one(applications, {
+    fields: [identityReveals.applicationId],
+    references: [applications.id],
+  }),
+  viewer: one(users, {
+    fields: [identityReveals.viewerId],
+    references: [users.id],
+  }),
+}));
+
+export const applicationMessagesRelations = relations(applicationMessages, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationMessages.applicationId],
+    references: [applications.id],
+  }),
+  sender: one(users, {
+    fields: [applicationMessages.senderId],
+    references: [users.id],
+  }),
+  template: one(messageTemplates, {
+    fields: [applicationMessages.templateId],
+    references: [messageTemplates.id],
+  }),
+}));
+
+export const messageTemplatesRelations = relations(messageTemplates, ({ one, many }) => ({
+  company: one(companies, {
+    fields: [messageTemplates.companyId],
+    references: [companies.id],
+  }),
+  messages: many(applicationMessages),
+}));
+
+export const applicationSnapshotsRelations = relations(applicationSnapshots, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationSnapshots.applicationId],
+    references: [applications.id],
+  }),
+  resume: one(resumes, {
+    fields: [applicationSnapshots.resumeId],
+    references: [resumes.id],
+  }),
 }));
 
 export const screeningResultsRelations = relations(screeningResults, ({ one }) => ({
@@ -154,26 +864,193 @@ export const screeningResultsRelations = relations(screeningResults, ({ one }) =
   }),
 }));
 
+export const applicationEventsRelations = relations(applicationEvents, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationEvents.applicationId],
+    references: [applications.id],
+  }),
+  actor: one(users, {
+    fields: [applicationEvents.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const jobInvitationsRelations = relations(jobInvitations, ({ one }) => ({
+  job: one(jobs, {
+    fields: [jobInvitations.jobId],
+    references: [jobs.id],
+  }),
+  seeker: one(users, {
+    fields: [jobInvitations.seekerId],
+    references: [users.id],
+  }),
+}));
+
+export const screeningJobsRelations = relations(screeningJobs, ({ one }) => ({
+  application: one(applications, {
+    fields: [screeningJobs.applicationId],
+    references: [applications.id],
+  }),
+}));
+
 // === INSERTS & TYPES ===
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
+export const insertAuthTokenSchema = createInsertSchema(authTokens).omit({ id: true, createdAt: true, usedAt: true });
 export const insertCompanySchema = createInsertSchema(companies).omit({ id: true, createdAt: true });
 export const insertEmployerProfileSchema = createInsertSchema(employerProfiles).omit({ id: true });
+export const insertCompanyInvitationSchema = createInsertSchema(companyInvitations).omit({ id: true, createdAt: true, acceptedAt: true, revokedAt: true });
 export const insertJobSeekerProfileSchema = createInsertSchema(jobSeekerProfiles).omit({ id: true, createdAt: true, updatedAt: true, embedding: true, resumeText: true });
-export const insertJobSchema = createInsertSchema(jobs).omit({ id: true, createdAt: true, embedding: true });
+export const insertResumeSchema = createInsertSchema(resumes).omit({ id: true, createdAt: true, deletedAt: true });
+export const insertProfileWorkHistorySchema = createInsertSchema(profileWorkHistory).omit({ id: true });
+export const insertProfileEducationSchema = createInsertSchema(profileEducation).omit({ id: true });
+export const insertProfileCertificationSchema = createInsertSchema(profileCertifications).omit({ id: true });
+export const insertJobSchema = createInsertSchema(jobs).omit({ id: true, createdAt: true, updatedAt: true, embedding: true });
 export const insertApplicationSchema = createInsertSchema(applications).omit({ id: true, createdAt: true, updatedAt: true });
 export const insertScreeningResultSchema = createInsertSchema(screeningResults).omit({ id: true, createdAt: true });
+export const insertApplicationEventSchema = createInsertSchema(applicationEvents).omit({ id: true, createdAt: true });
+export const insertJobInvitationSchema = createInsertSchema(jobInvitations).omit({ id: true, createdAt: true });
+export const insertScreeningJobSchema = createInsertSchema(screeningJobs).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertJobQuestionSchema = createInsertSchema(jobQuestions).omit({ id: true, createdAt: true, archivedAt: true });
+export const insertApplicationAnswerSchema = createInsertSchema(applicationAnswers).omit({ id: true, createdAt: true });
+export const insertApplicationSnapshotSchema = createInsertSchema(applicationSnapshots).omit({ id: true, createdAt: true });
+export const insertIdentityRevealSchema = createInsertSchema(identityReveals).omit({ id: true, createdAt: true });
+export const insertMessageTemplateSchema = createInsertSchema(messageTemplates).omit({ id: true, createdAt: true, updatedAt: true, archivedAt: true });
+export const insertApplicationMessageSchema = createInsertSchema(applicationMessages).omit({ id: true, createdAt: true, readAt: true, readBy: true });
+export const insertInterviewSlotSchema = createInsertSchema(interviewSlots).omit({ id: true, createdAt: true, applicationId: true });
+export const insertInterviewSchema = createInsertSchema(interviews).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertOfferTemplateSchema = createInsertSchema(offerTemplates).omit({ id: true, createdAt: true, updatedAt: true, archivedAt: true });
+export const insertOfferSchema = createInsertSchema(offers).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertScorecardCompetencySchema = createInsertSchema(scorecardCompetencies).omit({ id: true, createdAt: true, archivedAt: true });
+export const insertScorecardSchema = createInsertSchema(scorecards).omit({ id: true, createdAt: true, updatedAt: true });
 
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+export type AuthToken = typeof authTokens.$inferSelect;
 export type Company = typeof companies.$inferSelect;
 export type EmployerProfile = typeof employerProfiles.$inferSelect;
+export type CompanyInvitation = typeof companyInvitations.$inferSelect;
 export type JobSeekerProfile = typeof jobSeekerProfiles.$inferSelect;
+export type Resume = typeof resumes.$inferSelect;
+export type ResumeParse = typeof resumeParses.$inferSelect;
+export type ProfileWorkHistory = typeof profileWorkHistory.$inferSelect;
+export type ProfileEducation = typeof profileEducation.$inferSelect;
+export type ProfileCertification = typeof profileCertifications.$inferSelect;
 export type Job = typeof jobs.$inferSelect;
 export type Application = typeof applications.$inferSelect;
 export type ScreeningResult = typeof screeningResults.$inferSelect;
+export type ScreeningJob = typeof screeningJobs.$inferSelect;
+export type ApplicationEvent = typeof applicationEvents.$inferSelect;
+export type JobInvitation = typeof jobInvitations.$inferSelect;
+export type JobQuestion = typeof jobQuestions.$inferSelect;
+export type ApplicationAnswer = typeof applicationAnswers.$inferSelect;
+export type ApplicationSnapshot = typeof applicationSnapshots.$inferSelect;
+export type IdentityReveal = typeof identityReveals.$inferSelect;
+export type MessageTemplate = typeof messageTemplates.$inferSelect;
+export type ApplicationMessage = typeof applicationMessages.$inferSelect;
+export type InterviewSlot = typeof interviewSlots.$inferSelect;
+export type Interview = typeof interviews.$inferSelect;
+export type OfferTemplate = typeof offerTemplates.$inferSelect;
+export type Offer = typeof offers.$inferSelect;
+export type ScorecardCompetency = typeof scorecardCompetencies.$inferSelect;
+export type Scorecard = typeof scorecards.$inferSelect;
+
+// Stored in interviews.kit: what screening suggested asking, taken when the
+// interview is booked or rescheduled
+export type InterviewKit = {
+  questions: string[];
+  summary: string | null;
+  score: number | null;
+};
+
+// Stored in offers.counter: the terms the seeker asked for instead. Terms
+// they didn't touch are null.
+export type OfferCounter = {
+  salary: number | null;
+  startDate: string | null;
+  equity: string | null;
+};
+
+// Stored in scorecards.ratings. The competency name is copied so the rating
+// still reads right if the job's scorecard is edited later.
+export type ScorecardRating = {
+  competencyId: number;
+  competency: string;
+  rating: number; // SCORECARD_RATING_MIN to SCORECARD_RATING_MAX
+  notes: string | null;
+};
+
+// Stored in applicationSnapshots.profile. The parts of a profile that scoring
+// and reviewers look at; resume text lives on the snapshot itself.
+export type ProfileSnapshot = Pick<JobSeekerProfile, "name" | "title" | "bio" | "location" | "salaryMin" | "salaryMax" | "skills" | "experienceYears">;
+
+// Stored in screeningResults.redactions: how many of each kind were replaced
+export type RedactionCounts = Record<PiiKind, number>;
+
+// Stored in resumeParses.contact
+export type ResumeContact = {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  links: string[];
+};
+
+// What a resume parser produces, before it is tied to a seeker and resume
+type ParsedEntry<T> = Omit<T, "seekerId" | "resumeId" | "position">;
+export type ParsedResume = {
+  contact: ResumeContact;
+  skills: string[];
+  workHistory: ParsedEntry<InsertProfileWorkHistory>[];
+  education: ParsedEntry<InsertProfileEducation>[];
+  certifications: ParsedEntry<InsertProfileCertification>[];
+  experienceYears: number | null;
+};
+
+export type AnswerValue = string | number | boolean;
+
+// Stored in jobQuestions.knockout. A matching answer moves the application
+// straight to "rejected" with `reason` (or a generated one) as the event's internalReason.
+export type KnockoutRule =
+  | { rejectIf: "equals"; value: AnswerValue; reason?: string }
+  | { rejectIf: "lessThan" | "greaterThan"; value: number; reason?: string }
+  | { rejectIf: "oneOf"; values: string[]; reason?: string };
+
+// One entry per scoring criterion, stored in screeningResults.reasons
+export type ScoreReason = {
+  criterion: "skills" | "experience" | "salary" | "location" | "semantic";
+  score: number; // 0-100
+  weight: number;
+  detail: string;
+  matched?: string[];
+  missing?: string[];
+};
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
 export type InsertCompany = z.infer<typeof insertCompanySchema>;
+export type InsertEmployerProfile = z.infer<typeof insertEmployerProfileSchema>;
+export type InsertCompanyInvitation = z.infer<typeof insertCompanyInvitationSchema>;
 export type InsertJobSeekerProfile = z.infer<typeof insertJobSeekerProfileSchema>;
+export type InsertResume = z.infer<typeof insertResumeSchema>;
+export type InsertProfileWorkHistory = z.infer<typeof insertProfileWorkHistorySchema>;
+export type InsertProfileEducation = z.infer<typeof insertProfileEducationSchema>;
+export type InsertProfileCertification = z.infer<typeof insertProfileCertificationSchema>;
 export type InsertJob = z.infer<typeof insertJobSchema>;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
+export type InsertScreeningResult = z.infer<typeof insertScreeningResultSchema>;
+export type InsertApplicationEvent = z.infer<typeof insertApplicationEventSchema>;
+export type InsertJobInvitation = z.infer<typeof insertJobInvitationSchema>;
+export type InsertScreeningJob = z.infer<typeof insertScreeningJobSchema>;
+export type InsertJobQuestion = z.infer<typeof insertJobQuestionSchema>;
+export type InsertApplicationAnswer = z.infer<typeof insertApplicationAnswerSchema>;
+export type InsertApplicationSnapshot = z.infer<typeof insertApplicationSnapshotSchema>;
+export type InsertIdentityReveal = z.infer<typeof insertIdentityRevealSchema>;
+export type InsertMessageTemplate = z.infer<typeof insertMessageTemplateSchema>;
+export type InsertApplicationMessage = z.infer<typeof insertApplicationMessageSchema>;
+export type InsertInterviewSlot = z.infer<typeof insertInterviewSlotSchema>;
+export type InsertInterview = z.infer<typeof insertInterviewSchema>;
+export type InsertOfferTemplate = z.infer<typeof insertOfferTemplateSchema>;
+export type InsertOffer = z.infer<typeof insertOfferSchema>;
+export type InsertScorecardCompetency = z.infer<typeof insertScorecardCompetencySchema>;
+export type InsertScorecard = z.infer<typeof insertScorecardSchema>;